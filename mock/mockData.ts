@@ -1,9 +1,10 @@
-import { Product, Alert, ForecastData, ActivityFeedItem, AnalyticsData, KPIMetric } from '../types';
+import { Product, Alert, ForecastData, ActivityFeedItem, AnalyticsData, CalendarEvent } from '../src/types';
 
 export const mockProducts: Product[] = [
   {
     id: '1',
     name: 'Wireless Bluetooth Headphones',
+    sku: 'WBH-001',
     category: { id: '1', name: 'Electronics', description: 'Consumer electronics' },
     currentStock: 45,
     predictedDemand: 120,
@@ -13,13 +14,17 @@ export const mockProducts: Product[] = [
     location: { id: '1', name: 'A-1-001', warehouse: 'Main Warehouse', zone: 'A' },
     velocity: 'HIGH',
     riskLevel: 'HIGH',
+    demandPattern: 'SMOOTH',
     lastUpdated: new Date('2024-01-15T10:30:00'),
     unitPrice: 89.99,
+    unitCost: 52.00,
+    likeItemId: null,
     totalValue: 4049.55,
   },
   {
     id: '2',
     name: 'Stainless Steel Water Bottle',
+    sku: 'SSWB-002',
     category: { id: '2', name: 'Home & Garden', description: 'Home and garden products' },
     currentStock: 200,
     predictedDemand: 80,
@@ -29,13 +34,17 @@ export const mockProducts: Product[] = [
     location: { id: '2', name: 'B-2-015', warehouse: 'Main Warehouse', zone: 'B' },
     velocity: 'MEDIUM',
     riskLevel: 'LOW',
+    demandPattern: 'ERRATIC',
     lastUpdated: new Date('2024-01-15T09:15:00'),
     unitPrice: 24.99,
+    unitCost: 12.50,
+    likeItemId: null,
     totalValue: 4998.00,
   },
   {
     id: '3',
     name: 'Organic Cotton T-Shirt',
+    sku: 'OCT-003',
     category: { id: '3', name: 'Clothing', description: 'Apparel and clothing' },
     currentStock: 85,
     predictedDemand: 200,
@@ -45,13 +54,17 @@ export const mockProducts: Product[] = [
     location: { id: '3', name: 'C-1-022', warehouse: 'Secondary Warehouse', zone: 'C' },
     velocity: 'HIGH',
     riskLevel: 'MEDIUM',
+    demandPattern: 'SMOOTH',
     lastUpdated: new Date('2024-01-15T11:45:00'),
     unitPrice: 19.99,
+    unitCost: 8.75,
+    likeItemId: null,
     totalValue: 1699.15,
   },
   {
     id: '4',
     name: 'Professional Kitchen Knife Set',
+    sku: 'PKNS-004',
     category: { id: '4', name: 'Kitchen & Dining', description: 'Kitchen and dining essentials' },
     currentStock: 25,
     predictedDemand: 40,
@@ -61,13 +74,17 @@ export const mockProducts: Product[] = [
     location: { id: '4', name: 'D-3-008', warehouse: 'Main Warehouse', zone: 'D' },
     velocity: 'LOW',
     riskLevel: 'MEDIUM',
+    demandPattern: 'INTERMITTENT',
     lastUpdated: new Date('2024-01-15T08:20:00'),
     unitPrice: 149.99,
+    unitCost: 78.00,
+    likeItemId: null,
     totalValue: 3749.75,
   },
   {
     id: '5',
     name: 'Smart Fitness Tracker',
+    sku: 'SFT-005',
     category: { id: '1', name: 'Electronics', description: 'Consumer electronics' },
     currentStock: 15,
     predictedDemand: 95,
@@ -77,8 +94,11 @@ export const mockProducts: Product[] = [
     location: { id: '5', name: 'A-2-045', warehouse: 'Main Warehouse', zone: 'A' },
     velocity: 'HIGH',
     riskLevel: 'HIGH',
+    demandPattern: 'SMOOTH',
     lastUpdated: new Date('2024-01-15T12:10:00'),
     unitPrice: 129.99,
+    unitCost: 71.50,
+    likeItemId: null,
     totalValue: 1949.85,
   },
 ];
@@ -110,13 +130,19 @@ export const mockAlerts: Alert[] = [
 ];
 
 export const mockForecastData: ForecastData[] = [
-  { date: '2024-01-01', actual: 120, predicted: 115, optimized: 125 },
-  { date: '2024-01-02', actual: 135, predicted: 130, optimized: 140 },
-  { date: '2024-01-03', actual: 145, predicted: 142, optimized: 150 },
-  { date: '2024-01-04', actual: 158, predicted: 155, optimized: 165 },
-  { date: '2024-01-05', actual: 162, predicted: 160, optimized: 170 },
-  { date: '2024-01-06', actual: 175, predicted: 172, optimized: 180 },
-  { date: '2024-01-07', actual: 180, predicted: 178, optimized: 185 },
+  { date: '2024-01-01', actual: 120, predicted: 115, optimized: 125, censoredProducts: 0, estimated: null },
+  { date: '2024-01-02', actual: 135, predicted: 130, optimized: 140, censoredProducts: 0, estimated: null },
+  { date: '2024-01-03', actual: 145, predicted: 142, optimized: 150, censoredProducts: 1, estimated: 152 },
+  { date: '2024-01-04', actual: 158, predicted: 155, optimized: 165, censoredProducts: 1, estimated: 166 },
+  { date: '2024-01-05', actual: 162, predicted: 160, optimized: 170, censoredProducts: 0, estimated: null },
+  { date: '2024-01-06', actual: 175, predicted: 172, optimized: 180, censoredProducts: 0, estimated: null },
+  { date: '2024-01-07', actual: 180, predicted: 178, optimized: 185, censoredProducts: 0, estimated: null },
+];
+
+export const mockCalendarEvents: CalendarEvent[] = [
+  { id: null, name: "New Year's Day", eventType: 'HOLIDAY', source: 'BUILT_IN', region: null, startDate: '2024-01-01', endDate: '2024-01-01', leadDays: 1, lagDays: 1 },
+  { id: null, name: 'Payday', eventType: 'PAYDAY', source: 'BUILT_IN', region: null, startDate: '2024-01-01', endDate: '2024-01-01', leadDays: 0, lagDays: 1 },
+  { id: '1', name: 'Winter Clearance', eventType: 'STORE_EVENT', source: 'CUSTOM', region: 'US-TX', startDate: '2024-01-04', endDate: '2024-01-06', leadDays: 0, lagDays: 1 },
 ];
 
 export const mockActivityFeed: ActivityFeedItem[] = [
@@ -174,35 +200,49 @@ export const mockAnalyticsData: AnalyticsData = {
     costOptimization: 91.8,
     serviceLevel: 96.3,
   },
-};
-
-export const mockKPIMetrics: KPIMetric[] = [
-  {
-    label: 'Total Products',
-    value: '1,247',
-    change: '+12.5%',
-    trend: 'up',
-    icon: 'Package',
-  },
-  {
-    label: 'Critical Alerts',
-    value: '8',
-    change: '-25.0%',
-    trend: 'down',
-    icon: 'AlertTriangle',
-  },
-  {
-    label: 'Pending Orders',
-    value: '34',
-    change: '+8.3%',
-    trend: 'up',
-    icon: 'ShoppingCart',
+  demandForecast: {
+    method: 'MINT',
+    horizon: 7,
+    dates: ['2024-01-16', '2024-01-17', '2024-01-18', '2024-01-19', '2024-01-20', '2024-01-21', '2024-01-22'],
+    total: {
+      level: 'TOTAL', key: 'total', name: 'All products',
+      base: [57, 54, 56, 60, 69, 80, 75], reconciled: [55, 52, 55, 58, 67, 78, 73],
+      baseTotal: 451, reconciledTotal: 438, recentTotal: 412,
+    },
+    categories: [
+      {
+        level: 'CATEGORY', key: '1', name: 'Electronics',
+        base: [29, 27, 29, 30, 34, 39, 37], reconciled: [30, 28, 29, 31, 35, 40, 38],
+        baseTotal: 225, reconciledTotal: 231, recentTotal: 220,
+      },
+      {
+        level: 'CATEGORY', key: '3', name: 'Clothing',
+        base: [12, 12, 12, 13, 15, 18, 17], reconciled: [12, 11, 12, 13, 15, 18, 17],
+        baseTotal: 99, reconciledTotal: 98, recentTotal: 92,
+      },
+      {
+        level: 'CATEGORY', key: '2', name: 'Home & Garden',
+        base: [8, 8, 8, 8, 10, 11, 11], reconciled: [8, 8, 9, 8, 10, 12, 11],
+        baseTotal: 64, reconciledTotal: 66, recentTotal: 60,
+      },
+      {
+        level: 'CATEGORY', key: '4', name: 'Kitchen & Dining',
+        base: [5, 5, 5, 6, 6, 8, 7], reconciled: [5, 5, 5, 6, 7, 8, 7],
+        baseTotal: 42, reconciledTotal: 43, recentTotal: 40,
+      },
+    ],
+    warehouses: [
+      {
+        level: 'WAREHOUSE', key: 'Main Warehouse', name: 'Main Warehouse',
+        base: [45, 42, 44, 46, 53, 61, 57], reconciled: [43, 41, 43, 45, 52, 60, 56],
+        baseTotal: 348, reconciledTotal: 340, recentTotal: 320,
+      },
+      {
+        level: 'WAREHOUSE', key: 'Secondary Warehouse', name: 'Secondary Warehouse',
+        base: [12, 11, 12, 13, 15, 17, 17], reconciled: [12, 11, 12, 13, 15, 18, 17],
+        baseTotal: 97, reconciledTotal: 98, recentTotal: 92,
+      },
+    ],
+    generatedAt: '2024-01-15T02:00:00Z',
   },
-  {
-    label: 'Forecast Accuracy',
-    value: '94.2%',
-    change: '+2.1%',
-    trend: 'up',
-    icon: 'Target',
-  },
-];
\ No newline at end of file
+};
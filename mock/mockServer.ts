@@ -0,0 +1,509 @@
+import type { Connect, Plugin } from 'vite';
+import { mockActivityFeed, mockAlerts, mockAnalyticsData, mockCalendarEvents, mockForecastData, mockProducts } from './mockData';
+
+type MockResponse = Parameters<Connect.NextHandleFunction>[1];
+type Query = Map<string, string>;
+
+interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  handle: (params: string[], query: Query, body: unknown) => object | null;
+}
+
+// Mutable copies so dismissals and deletes behave like the real API for the lifetime of the dev server
+let products = [...mockProducts];
+let alerts = [...mockAlerts];
+
+type ParameterKey = 'orderingCost' | 'holdingCostRate' | 'leadTimeDays' | 'serviceLevel' | 'serviceLevelType' | 'safetyStockMethod';
+type ParameterRow = Record<ParameterKey, number | string | null> & {
+  id: string;
+  scope: 'GLOBAL' | 'ABC_CLASS' | 'CATEGORY' | 'SUPPLIER' | 'PRODUCT';
+  scopeId: string | null;
+  scopeName: string | null;
+  updatedAt: string;
+};
+
+const PARAMETER_KEYS: ParameterKey[] = ['orderingCost', 'holdingCostRate', 'leadTimeDays', 'serviceLevel', 'serviceLevelType', 'safetyStockMethod'];
+const DEFAULT_PARAMETERS: Record<ParameterKey, number | string> = {
+  orderingCost: 50,
+  holdingCostRate: 0.25,
+  leadTimeDays: 7,
+  serviceLevel: 0.95,
+  serviceLevelType: 'CYCLE',
+  safetyStockMethod: 'NORMAL',
+};
+
+// The fixtures have no movement history to rank, so velocity stands in for consumption value
+const abcClassOf = (product: typeof mockProducts[number]) =>
+  product.velocity === 'HIGH' ? 'A' : product.velocity === 'MEDIUM' ? 'B' : 'C';
+
+let parameters: ParameterRow[] = [];
+
+const PAGE_SIZE = 50;
+
+const readBody = (req: Connect.IncomingMessage) => new Promise<unknown>((resolve) => {
+  const stream = req as unknown as {
+    on(event: 'data', listener: (chunk: { toString(): string }) => void): void;
+    on(event: 'end', listener: () => void): void;
+  };
+  let raw = '';
+  stream.on('data', chunk => { raw += chunk.toString(); });
+  stream.on('end', () => {
+    try {
+      resolve(raw ? JSON.parse(raw) : {});
+    } catch {
+      resolve({});
+    }
+  });
+});
+
+const send = (res: MockResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const parseQuery = (search: string): Query => new Map(
+  search
+    .split('&')
+    .filter(Boolean)
+    .map(pair => {
+      const [key, value = ''] = pair.split('=').map(part => decodeURIComponent(part.replace(/\+/g, ' ')));
+      return [key, value] as [string, string];
+    })
+);
+
+const listProducts = (query: Query) => {
+  const search = query.get('search')?.toLowerCase();
+  const filtered = products.filter(product =>
+    (!query.get('category') || product.category.id === query.get('category')) &&
+    (!query.get('supplier') || product.supplier.id === query.get('supplier')) &&
+    (!query.get('velocity') || product.velocity === query.get('velocity')) &&
+    (!query.get('riskLevel') || product.riskLevel === query.get('riskLevel')) &&
+    (!query.get('demandPattern') || product.demandPattern === query.get('demandPattern')) &&
+    (!search || product.name.toLowerCase().includes(search) || product.sku.toLowerCase().includes(search))
+  );
+
+  const cursor = query.get('cursor');
+  const start = cursor ? filtered.findIndex(product => product.id === cursor) + 1 : 0;
+  const limit = Number(query.get('limit')) || PAGE_SIZE;
+  const page = filtered.slice(start, start + limit);
+  const hasMore = start + limit < filtered.length;
+
+  return {
+    data: page,
+    metadata: {
+      count: page.length,
+      total: filtered.length,
+      hasMore,
+      nextCursor: hasMore ? page[page.length - 1].id : null,
+    },
+  };
+};
+
+const listCategories = () => {
+  const categories = new Map<string, { id: string; name: string; description: string; productCount: number }>();
+  products.forEach(({ category }) => {
+    const entry = categories.get(category.id) ?? { ...category, productCount: 0 };
+    entry.productCount++;
+    categories.set(category.id, entry);
+  });
+  return { data: Array.from(categories.values()) };
+};
+
+// A fixed set of receipts per supplier, spread around a supplier-specific mean
+const mockReceipts = (supplierId: string) => {
+  const base = 4 + Number(supplierId) * 2;
+  return Array.from({ length: 12 }, (_, i) => {
+    const days = base + ((i * 7 + Number(supplierId)) % 5) - 2 + (i % 4 === 0 ? 3 : 0);
+    const receivedAt = new Date(Date.now() - (12 - i) * 21 * 24 * 60 * 60 * 1000);
+    return {
+      orderNumber: `PO-MOCK-${supplierId}${String(i).padStart(3, '0')}`,
+      productId: products.find(p => p.supplier.id === supplierId)?.id ?? '',
+      quantity: 50 + i * 10,
+      submittedAt: new Date(receivedAt.getTime() - days * 24 * 60 * 60 * 1000).toISOString(),
+      receivedAt: receivedAt.toISOString(),
+      days,
+    };
+  });
+};
+
+const leadTimeStats = (supplierId: string) => {
+  const days = mockReceipts(supplierId).map(r => r.days).sort((a, b) => a - b);
+  const mean = days.reduce((sum, d) => sum + d, 0) / days.length;
+  const variance = days.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (days.length - 1);
+  return {
+    supplierId,
+    observations: days.length,
+    meanDays: Math.round(mean * 10) / 10,
+    stdDevDays: Math.round(Math.sqrt(variance) * 10) / 10,
+    minDays: days[0],
+    maxDays: days[days.length - 1],
+    p50Days: days[Math.floor(days.length / 2)],
+    p90Days: days[Math.ceil(days.length * 0.9) - 1],
+  };
+};
+
+const listSuppliers = () => {
+  const suppliers = new Map<string, { id: string; name: string; rating: number; productCount: number; leadTime: object }>();
+  products.forEach(({ supplier }) => {
+    const entry = suppliers.get(supplier.id) ?? {
+      id: supplier.id,
+      name: supplier.name,
+      rating: supplier.rating,
+      productCount: 0,
+      leadTime: leadTimeStats(supplier.id),
+    };
+    entry.productCount++;
+    suppliers.set(supplier.id, entry);
+  });
+  return { data: Array.from(suppliers.values()) };
+};
+
+const leadTimeDistribution = (supplierId: string) => {
+  if (!products.some(p => p.supplier.id === supplierId)) return null;
+
+  const receipts = mockReceipts(supplierId);
+  const stats = leadTimeStats(supplierId);
+  const histogram = Array.from({ length: stats.maxDays - stats.minDays + 1 }, (_, i) => ({
+    days: stats.minDays + i,
+    count: receipts.filter(r => r.days === stats.minDays + i).length,
+  }));
+
+  return { data: { ...stats, histogram, receipts: [...receipts].reverse() } };
+};
+
+// One stored set of terms per supplier, on the first product it supplies
+const supplierTerms = (supplierId: string) => {
+  if (!products.some(p => p.supplier.id === supplierId)) return null;
+
+  const data = products
+    .filter(p => p.supplier.id === supplierId)
+    .slice(0, 1)
+    .map(product => {
+      const unitCost = product.unitCost ?? product.unitPrice * 0.6;
+      return {
+        id: `terms-${supplierId}-${product.id}`,
+        supplierId,
+        product: { id: product.id, name: product.name, sku: product.sku, unitCost },
+        minOrderQuantity: 24,
+        packSize: 12,
+        priceBreaks: [{ minQuantity: 240, unitCost: Math.round(unitCost * 0.95 * 100) / 100 }],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+  return { data };
+};
+
+const findParameters = (scope: string, scopeId: string | null) =>
+  parameters.find(row => row.scope === scope && row.scopeId === scopeId);
+
+const upsertParameters = (scope: ParameterRow['scope'], scopeId: string | null, body: unknown) => {
+  const scopeName = scope === 'GLOBAL'
+    ? 'Global default'
+    : scope === 'ABC_CLASS'
+      ? ['A', 'B', 'C'].includes(scopeId ?? '') ? `Class ${scopeId}` : undefined
+      : scope === 'PRODUCT'
+      ? products.find(p => p.id === scopeId)?.name
+      : scope === 'SUPPLIER'
+        ? products.find(p => p.supplier.id === scopeId)?.supplier.name
+        : products.find(p => p.category.id === scopeId)?.category.name;
+  if (!scopeName) return null;
+
+  const values = body as Partial<Record<ParameterKey, number | string | null>>;
+  const row = findParameters(scope, scopeId) ?? {
+    id: `param-${scope}-${scopeId ?? 'global'}`,
+    scope,
+    scopeId,
+    scopeName,
+    orderingCost: null,
+    holdingCostRate: null,
+    leadTimeDays: null,
+    serviceLevel: null,
+    serviceLevelType: null,
+    safetyStockMethod: null,
+    updatedAt: '',
+  };
+  PARAMETER_KEYS.forEach(key => {
+    if (values[key] !== undefined) row[key] = values[key] ?? null;
+  });
+  row.updatedAt = new Date().toISOString();
+
+  parameters = [...parameters.filter(p => p.id !== row.id), row];
+  return { data: row, message: 'Optimization parameters updated' };
+};
+
+const resolveParameters = (product: typeof mockProducts[number]) => {
+  const rows = [
+    findParameters('PRODUCT', product.id),
+    findParameters('SUPPLIER', product.supplier.id),
+    findParameters('CATEGORY', product.category.id),
+    findParameters('ABC_CLASS', abcClassOf(product)),
+    findParameters('GLOBAL', null),
+  ].filter((row): row is ParameterRow => row !== undefined);
+
+  return Object.fromEntries(PARAMETER_KEYS.map(key => {
+    const row = rows.find(r => r[key] !== null);
+    return [key, row ? { value: row[key], source: row.scope } : { value: DEFAULT_PARAMETERS[key], source: 'DEFAULT' }];
+  }));
+};
+
+// Rough stand-in for the server's normal-distribution calculation
+const mockServiceLevel = (product: typeof mockProducts[number], target: number, type: string, method: string) => {
+  const safetyStock = Math.round(product.reorderPoint * 0.3);
+  return {
+    type,
+    target,
+    abcClass: abcClassOf(product),
+    method,
+    zScore: Math.round((target - 0.5) * 4 * 10000) / 10000,
+    safetyStock,
+    annualSafetyStockCost: Math.round(safetyStock * (product.unitCost ?? product.unitPrice * 0.6) * 0.25 * 100) / 100,
+    cycleServiceLevel: target,
+    expectedFillRate: Math.min(0.9999, Math.round((1 - (1 - target) / 4) * 10000) / 10000),
+    expectedStockoutsPerYear: Math.round((1 - target) * 12 * 100) / 100,
+    expectedStockoutDaysPerYear: Math.round((1 - target) * 40 * 10) / 10,
+  };
+};
+
+// Plain EOQ rounded up to whole packs of 12; the server also weighs price breaks and the MOQ
+const mockOrderQuantity = (product: typeof mockProducts[number]) => {
+  const unitCost = product.unitCost ?? product.unitPrice * 0.6;
+  const annualDemand = product.reorderPoint * 24;
+  const unitHoldingCost = Math.round(unitCost * 0.25 * 100) / 100;
+  const economicOrderQuantity = Math.round(Math.sqrt((2 * annualDemand * 50) / unitHoldingCost) * 100) / 100;
+  const orderQuantity = Math.ceil(economicOrderQuantity / 12) * 12;
+  const purchase = Math.round(annualDemand * unitCost * 100) / 100;
+  const ordering = Math.round((annualDemand / orderQuantity) * 50 * 100) / 100;
+  const holding = Math.round((orderQuantity / 2) * unitHoldingCost * 100) / 100;
+  return {
+    economicOrderQuantity,
+    orderQuantity,
+    unitCost,
+    unitHoldingCost,
+    priceBreak: null,
+    minOrderQuantity: 1,
+    packSize: 12,
+    annualCost: { purchase, ordering, holding, total: Math.round((purchase + ordering + holding) * 100) / 100 },
+    adjustments: [{
+      type: 'PACK_ROUNDING',
+      from: economicOrderQuantity,
+      to: orderQuantity,
+      reason: 'Rounded up to a whole number of 12-unit packs',
+    }],
+  };
+};
+
+const recommendations = () => ({
+  data: products
+    .filter(product => product.currentStock < product.reorderPoint)
+    .map(product => {
+      const parameters = resolveParameters(product);
+      return {
+        product: {
+          id: product.id,
+          name: product.name,
+          category: product.category.name,
+          supplier: product.supplier.name,
+        },
+        optimization: {
+          productId: product.id,
+          currentStock: product.currentStock,
+          optimalStock: product.optimalStock,
+          reorderPoint: product.reorderPoint,
+          expectedSavings: Math.round((product.optimalStock - product.currentStock) * product.unitPrice * 0.05),
+          riskLevel: product.riskLevel,
+          parameters,
+          serviceLevel: mockServiceLevel(
+            product,
+            Number(parameters.serviceLevel.value),
+            String(parameters.serviceLevelType.value),
+            String(parameters.safetyStockMethod.value),
+          ),
+          leadTime: {
+            meanDays: Number(parameters.leadTimeDays.value),
+            stdDevDays: 0,
+            observations: 0,
+          },
+          orderQuantity: mockOrderQuantity(product),
+        },
+        priority: product.riskLevel === 'HIGH' ? 'CRITICAL' : 'HIGH',
+      };
+    }),
+});
+
+// Any password is accepted; the role follows the email prefix (admin@..., user@..., anything else is MANAGER)
+const mockUser = (email: string) => ({
+  id: 'mock-user',
+  email,
+  name: 'Mock User',
+  role: email.startsWith('admin@') ? 'ADMIN' : email.startsWith('user@') ? 'USER' : 'MANAGER',
+});
+
+let currentUser = mockUser('manager@example.com');
+
+const mockSession = () => ({
+  data: {
+    user: currentUser,
+    accessToken: 'mock-access-token',
+    refreshToken: 'mock-refresh-token',
+    expiresIn: '15m',
+  },
+});
+
+const routes: MockRoute[] = [
+  {
+    method: 'POST',
+    pattern: /^\/auth\/login$/,
+    handle: (_params, _query, body) => {
+      currentUser = mockUser(String((body as { email?: string }).email ?? 'manager@example.com'));
+      return mockSession();
+    },
+  },
+  { method: 'POST', pattern: /^\/auth\/refresh$/, handle: () => mockSession() },
+  { method: 'POST', pattern: /^\/auth\/logout$/, handle: () => ({ message: 'Logged out successfully' }) },
+  { method: 'GET', pattern: /^\/auth\/me$/, handle: () => ({ data: currentUser }) },
+  { method: 'GET', pattern: /^\/products\/categories$/, handle: () => listCategories() },
+  { method: 'GET', pattern: /^\/products$/, handle: (_params, query) => listProducts(query) },
+  {
+    method: 'DELETE',
+    pattern: /^\/products\/([^/]+)$/,
+    handle: ([id]) => {
+      products = products.filter(product => product.id !== id);
+      return { message: 'Product deleted successfully' };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/alerts$/,
+    handle: () => ({
+      data: alerts.map(alert => ({
+        id: alert.id,
+        productId: alert.productId ?? null,
+        alertType: alert.type.toUpperCase(),
+        title: alert.title,
+        description: alert.description,
+        createdAt: alert.timestamp,
+      })),
+    }),
+  },
+  {
+    method: 'PATCH',
+    pattern: /^\/alerts\/([^/]+)\/dismiss$/,
+    handle: ([id]) => {
+      alerts = alerts.filter(alert => alert.id !== id);
+      return { message: 'Alert dismissed' };
+    },
+  },
+  { method: 'GET', pattern: /^\/suppliers$/, handle: () => listSuppliers() },
+  { method: 'GET', pattern: /^\/suppliers\/([^/]+)\/lead-times$/, handle: ([id]) => leadTimeDistribution(id) },
+  { method: 'GET', pattern: /^\/suppliers\/([^/]+)\/terms$/, handle: ([id]) => supplierTerms(id) },
+  { method: 'GET', pattern: /^\/inventory\/activity$/, handle: () => ({ data: mockActivityFeed }) },
+  { method: 'GET', pattern: /^\/analytics$/, handle: () => ({ data: mockAnalyticsData }) },
+  { method: 'GET', pattern: /^\/forecasting\/series$/, handle: () => ({ data: mockForecastData }) },
+  {
+    method: 'GET',
+    pattern: /^\/forecasting\/metrics$/,
+    handle: () => ({
+      data: [{ modelVersion: 'ALL', comparisons: 35, mae: 3.4, rmse: 3.9, mape: 0.024, wape: 0.022, bias: -3.4, accuracy: 0.978 }],
+    }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/calendar\/events$/,
+    handle: (_params, query) => {
+      const from = query.get('from') ?? '';
+      const to = query.get('to') ?? '';
+      const events = mockCalendarEvents.filter(event => event.endDate >= from && event.startDate <= to);
+      return { data: events, metadata: { from, to, region: null, count: events.length } };
+    },
+  },
+  { method: 'GET', pattern: /^\/ai\/optimize\/recommendations$/, handle: () => recommendations() },
+  {
+    method: 'POST',
+    pattern: /^\/ai\/optimize\/([^/]+)\/apply$/,
+    handle: ([id]) => {
+      const recommendation = recommendations().data.find(r => r.product.id === id);
+      return recommendation ? { data: recommendation.optimization, message: 'Optimization applied' } : null;
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/optimization-parameters$/,
+    handle: () => ({ data: parameters, metadata: { count: parameters.length } }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/optimization-parameters\/global$/,
+    handle: () => {
+      const row = findParameters('GLOBAL', null);
+      return {
+        data: Object.fromEntries(PARAMETER_KEYS.map(key => [key, row?.[key] ?? DEFAULT_PARAMETERS[key]])),
+        metadata: { defaults: DEFAULT_PARAMETERS },
+      };
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/optimization-parameters\/abc-classes$/,
+    handle: () => ({
+      data: ['A', 'B', 'C'].map(abcClass => ({
+        abcClass,
+        productCount: products.filter(p => abcClassOf(p) === abcClass).length,
+      })),
+    }),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/optimization-parameters\/global$/,
+    handle: (_params, _query, body) => upsertParameters('GLOBAL', null, body),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/optimization-parameters\/(abc-class|category|supplier|product)\/([^/]+)$/,
+    handle: ([scope, scopeId], _query, body) =>
+      upsertParameters(scope.replace('-', '_').toUpperCase() as ParameterRow['scope'], scopeId, body),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/optimization-parameters\/(abc-class|category|supplier|product)\/([^/]+)$/,
+    handle: ([scope, scopeId]) => {
+      const row = findParameters(scope.replace('-', '_').toUpperCase(), scopeId);
+      if (!row) return null;
+      parameters = parameters.filter(p => p.id !== row.id);
+      return { message: 'Optimization parameters removed' };
+    },
+  },
+];
+
+/**
+ * Serves the fixtures in mockData.ts under /api so the frontend can run without the backend.
+ * Only active for `vite serve` with VITE_USE_MOCK_API=true; production builds never include it.
+ */
+export const mockApiServer = (): Plugin => ({
+  name: 'iims-mock-api',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      // Connect strips the /api mount prefix from req.url
+      const { method, url = '/' } = req as { method?: string; url?: string };
+      const [pathname, search = ''] = url.split('?');
+      const route = routes.find(r => r.method === method && r.pattern.test(pathname));
+
+      if (!route) {
+        return next();
+      }
+
+      const params = pathname.match(route.pattern)!.slice(1);
+      const body = method === 'POST' || method === 'PUT' || method === 'PATCH' ? await readBody(req) : {};
+      const result = route.handle(params, parseQuery(search), body);
+
+      if (result === null) {
+        return send(res, 404, { error: 'Not found' });
+      }
+
+      send(res, 200, { success: true, ...result });
+    });
+  },
+});
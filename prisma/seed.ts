@@ -101,28 +101,32 @@ async function main() {
       data: {
         name: 'A-1-001',
         warehouse: 'Main Warehouse',
-        zone: 'A'
+        zone: 'A',
+        region: 'US-TX'
       }
     }),
     prisma.location.create({
       data: {
         name: 'B-2-015',
         warehouse: 'Main Warehouse',
-        zone: 'B'
+        zone: 'B',
+        region: 'US-TX'
       }
     }),
     prisma.location.create({
       data: {
         name: 'C-1-022',
         warehouse: 'Secondary Warehouse',
-        zone: 'C'
+        zone: 'C',
+        region: 'US-CA'
       }
     }),
     prisma.location.create({
       data: {
         name: 'D-3-008',
         warehouse: 'Main Warehouse',
-        zone: 'D'
+        zone: 'D',
+        region: 'US-TX'
       }
     })
   ]);
@@ -137,6 +141,7 @@ async function main() {
         reorderPoint: 50,
         optimalStock: 150,
         unitPrice: 89.99,
+        unitCost: 52.00,
         velocity: 'HIGH',
         riskLevel: 'HIGH',
         categoryId: categories[0].id, // Electronics
@@ -152,6 +157,7 @@ async function main() {
         reorderPoint: 75,
         optimalStock: 250,
         unitPrice: 24.99,
+        unitCost: 12.50,
         velocity: 'MEDIUM',
         riskLevel: 'LOW',
         categoryId: categories[2].id, // Home & Garden
@@ -167,6 +173,7 @@ async function main() {
         reorderPoint: 100,
         optimalStock: 300,
         unitPrice: 19.99,
+        unitCost: 8.75,
         velocity: 'HIGH',
         riskLevel: 'MEDIUM',
         categoryId: categories[1].id, // Clothing
@@ -182,6 +189,7 @@ async function main() {
         reorderPoint: 30,
         optimalStock: 75,
         unitPrice: 149.99,
+        unitCost: 78.00,
         velocity: 'LOW',
         riskLevel: 'MEDIUM',
         categoryId: categories[3].id, // Kitchen & Dining
@@ -197,6 +205,7 @@ async function main() {
         reorderPoint: 25,
         optimalStock: 120,
         unitPrice: 129.99,
+        unitCost: 71.50,
         velocity: 'HIGH',
         riskLevel: 'HIGH',
         categoryId: categories[0].id, // Electronics
@@ -206,6 +215,52 @@ async function main() {
     })
   ]);
 
+  // Starting prices for the price history, a week of forecast-visible promotion and one past discount
+  const historyStart = new Date();
+  historyStart.setDate(historyStart.getDate() - 30);
+  await prisma.priceChange.createMany({
+    data: products.map(product => ({
+      productId: product.id,
+      unitPrice: product.unitPrice ?? 0,
+      effectiveAt: historyStart,
+      changedBy: adminUser.id
+    }))
+  });
+
+  const promotionStart = new Date();
+  promotionStart.setDate(promotionStart.getDate() + 7);
+  const promotionEnd = new Date(promotionStart);
+  promotionEnd.setDate(promotionEnd.getDate() + 6);
+  const pastPromotionStart = new Date();
+  pastPromotionStart.setDate(pastPromotionStart.getDate() - 14);
+  const pastPromotionEnd = new Date(pastPromotionStart);
+  pastPromotionEnd.setDate(pastPromotionEnd.getDate() + 2);
+
+  await Promise.all([
+    prisma.promotion.create({
+      data: {
+        productId: products[0].id, // Wireless Bluetooth Headphones
+        name: 'Back to School Audio Deal',
+        promotionType: 'PRICE_DISCOUNT',
+        discountDepth: 0.2,
+        startDate: promotionStart,
+        endDate: promotionEnd,
+        createdBy: adminUser.id
+      }
+    }),
+    prisma.promotion.create({
+      data: {
+        productId: products[2].id, // Organic Cotton T-Shirt
+        name: 'Weekend Flyer',
+        promotionType: 'FLYER',
+        discountDepth: 0.1,
+        startDate: pastPromotionStart,
+        endDate: pastPromotionEnd,
+        createdBy: adminUser.id
+      }
+    })
+  ]);
+
   // Create sample stock movements
   const movements = [];
   for (const product of products) {
@@ -1,12 +1,17 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Layout } from './components/layout/Layout';
+import { ProtectedRoute } from './components/auth/ProtectedRoute';
+import { useAuthStore } from './store/useAuthStore';
+import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { Inventory } from './pages/Inventory';
 import { Forecasting } from './pages/Forecasting';
 import { Analytics } from './pages/Analytics';
+import { Suppliers } from './pages/Suppliers';
+import { Settings } from './pages/Settings';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -18,19 +23,35 @@ const queryClient = new QueryClient({
 });
 
 function App() {
+  const restoreSession = useAuthStore((state) => state.restoreSession);
+
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
+  // Logging out or losing the session must not leave the previous user's data in the cache
+  useEffect(() => useAuthStore.subscribe((state, previous) => {
+    if (previous.user && !state.user) {
+      queryClient.clear();
+    }
+  }), []);
+
   return (
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
         <Router>
           <Routes>
-            <Route path="/" element={<Layout />}>
+            <Route path="/login" element={<Login />} />
+            <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
               <Route index element={<Navigate to="/dashboard" replace />} />
               <Route path="dashboard" element={<Dashboard />} />
               <Route path="inventory" element={<Inventory />} />
               <Route path="forecasting" element={<Forecasting />} />
               <Route path="analytics" element={<Analytics />} />
+              <Route path="suppliers" element={<Suppliers />} />
+              <Route path="suppliers/:supplierId" element={<Suppliers />} />
               <Route path="reports" element={<div className="p-6"><h1 className="text-2xl font-bold text-gray-900 dark:text-white">Reports - Coming Soon</h1></div>} />
-              <Route path="settings" element={<div className="p-6"><h1 className="text-2xl font-bold text-gray-900 dark:text-white">Settings - Coming Soon</h1></div>} />
+              <Route path="settings" element={<Settings />} />
             </Route>
           </Routes>
         </Router>
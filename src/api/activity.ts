@@ -0,0 +1,11 @@
+import { api } from './client';
+import { ActivityFeedItem } from '../types';
+
+type ActivityDto = Omit<ActivityFeedItem, 'timestamp'> & { timestamp: string };
+
+export const activityApi = {
+  list: async (limit = 20): Promise<ActivityFeedItem[]> => {
+    const response = await api.get<ActivityDto[]>('/inventory/activity', { limit });
+    return response.data.map(item => ({ ...item, timestamp: new Date(item.timestamp) }));
+  },
+};
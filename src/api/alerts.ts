@@ -0,0 +1,31 @@
+import { api } from './client';
+import { Alert } from '../types';
+
+interface AlertDto {
+  id: string;
+  productId: string | null;
+  alertType: 'CRITICAL' | 'WARNING' | 'INFO';
+  title: string;
+  description: string;
+  createdAt: string;
+}
+
+const toAlert = (dto: AlertDto): Alert => ({
+  id: dto.id,
+  type: dto.alertType.toLowerCase() as Alert['type'],
+  title: dto.title,
+  description: dto.description,
+  timestamp: new Date(dto.createdAt),
+  productId: dto.productId ?? undefined,
+});
+
+export const alertsApi = {
+  list: async (): Promise<Alert[]> => {
+    const response = await api.get<AlertDto[]>('/alerts');
+    return response.data.map(toAlert);
+  },
+
+  dismiss: async (id: string): Promise<void> => {
+    await api.patch(`/alerts/${id}/dismiss`);
+  },
+};
@@ -0,0 +1,9 @@
+import { api } from './client';
+import { AnalyticsData, AnalyticsPeriod, ReconciliationMethod } from '../types';
+
+export const analyticsApi = {
+  get: async (period: AnalyticsPeriod, reconciliation: ReconciliationMethod): Promise<AnalyticsData> => {
+    const response = await api.get<AnalyticsData>('/analytics', { period, reconciliation });
+    return response.data;
+  },
+};
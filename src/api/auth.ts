@@ -0,0 +1,18 @@
+import { api } from './client';
+import { AuthSession, User } from '../types';
+
+export const authApi = {
+  login: async (email: string, password: string): Promise<AuthSession> => {
+    const response = await api.post<AuthSession>('/auth/login', { email, password });
+    return response.data;
+  },
+
+  logout: async (refreshToken: string): Promise<void> => {
+    await api.post('/auth/logout', { refreshToken });
+  },
+
+  me: async (): Promise<User> => {
+    const response = await api.get<User>('/auth/me');
+    return response.data;
+  },
+};
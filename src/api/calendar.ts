@@ -0,0 +1,9 @@
+import { api } from './client';
+import { CalendarEvent } from '../types';
+
+export const calendarApi = {
+  events: async (from: string, to: string): Promise<CalendarEvent[]> => {
+    const response = await api.get<CalendarEvent[]>('/calendar/events', { from, to });
+    return response.data;
+  },
+};
@@ -0,0 +1,137 @@
+import { tokenStorage } from './tokenStorage';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || '/api';
+
+interface ApiEnvelope<T> {
+  success: boolean;
+  data: T;
+  metadata?: Record<string, unknown>;
+  message?: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public reason?: string,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+type Query = Record<string, string | number | boolean | undefined | null>;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Query;
+  body?: unknown;
+  isRetry?: boolean;
+}
+
+// A 401 from these means bad credentials, not an expired access token
+const SESSION_PATHS = ['/auth/login', '/auth/refresh', '/auth/logout'];
+
+let refreshInFlight: Promise<boolean> | null = null;
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const onSessionExpired = (handler: () => void) => {
+  sessionExpiredHandler = handler;
+};
+
+const buildUrl = (path: string, query?: Query) => {
+  const url = `${API_BASE_URL}${path}`;
+  if (!query) return url;
+
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+
+  const search = params.toString();
+  return search ? `${url}?${search}` : url;
+};
+
+async function refreshTokens(): Promise<boolean> {
+  const refreshToken = tokenStorage.getRefreshToken();
+  if (!refreshToken) return false;
+
+  const response = await fetch(buildUrl('/auth/refresh'), {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refreshToken }),
+  }).catch(() => null);
+
+  // A network failure is not a rejected session; keep the tokens and let the caller fail
+  if (!response) return false;
+
+  if (!response.ok) {
+    tokenStorage.clear();
+    return false;
+  }
+
+  const payload = await response.json();
+  tokenStorage.setTokens(payload.data.accessToken, payload.data.refreshToken);
+  return true;
+}
+
+// Refresh tokens rotate on every use, so concurrent 401s must share a single refresh call
+const refreshSession = () => {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshTokens().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+};
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<ApiEnvelope<T>> {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  const accessToken = tokenStorage.getAccessToken();
+
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(buildUrl(path, options.query), {
+    method: options.method ?? 'GET',
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (response.status === 401 && !SESSION_PATHS.includes(path)) {
+    if (!options.isRetry && await refreshSession()) {
+      return request<T>(path, { ...options, isRetry: true });
+    }
+    if (!tokenStorage.getRefreshToken()) {
+      sessionExpiredHandler?.();
+    }
+  }
+
+  const payload = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      payload?.error ?? `Request failed with status ${response.status}`,
+      payload?.reason,
+      payload?.details,
+    );
+  }
+
+  return payload as ApiEnvelope<T>;
+}
+
+export const api = {
+  get: <T>(path: string, query?: Query) => request<T>(path, { query }),
+  post: <T>(path: string, body?: unknown) => request<T>(path, { method: 'POST', body }),
+  put: <T>(path: string, body?: unknown) => request<T>(path, { method: 'PUT', body }),
+  patch: <T>(path: string, body?: unknown) => request<T>(path, { method: 'PATCH', body }),
+  delete: <T>(path: string) => request<T>(path, { method: 'DELETE' }),
+};
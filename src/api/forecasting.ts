@@ -0,0 +1,24 @@
+import { api } from './client';
+import { ForecastData, ForecastErrorMetrics, OptimizationRecommendation, OptimizationResult } from '../types';
+
+export const forecastingApi = {
+  series: async (days: number, categoryId?: string): Promise<ForecastData[]> => {
+    const response = await api.get<ForecastData[]>('/forecasting/series', { days, categoryId });
+    return response.data;
+  },
+
+  metrics: async (days: number, categoryId?: string): Promise<ForecastErrorMetrics[]> => {
+    const response = await api.get<ForecastErrorMetrics[]>('/forecasting/metrics', { days, categoryId });
+    return response.data;
+  },
+
+  recommendations: async (): Promise<OptimizationRecommendation[]> => {
+    const response = await api.get<OptimizationRecommendation[]>('/ai/optimize/recommendations');
+    return response.data;
+  },
+
+  applyOptimization: async (productId: string): Promise<OptimizationResult> => {
+    const response = await api.post<OptimizationResult>(`/ai/optimize/${productId}/apply`);
+    return response.data;
+  },
+};
@@ -0,0 +1,43 @@
+import { api } from './client';
+import { AbcClassSummary, OptimizationParameter, ParameterKey, ParameterValues } from '../types';
+
+type OptimizationParameterDto = Omit<OptimizationParameter, 'updatedAt'> & { updatedAt: string };
+
+// null clears a stored value so it is inherited from the next scope up
+export type ParameterOverrides = { [K in ParameterKey]?: ParameterValues[K] | null };
+
+export type OverrideScope = 'abc-class' | 'category' | 'supplier' | 'product';
+
+const toParameter = (dto: OptimizationParameterDto): OptimizationParameter => ({
+  ...dto,
+  updatedAt: new Date(dto.updatedAt),
+});
+
+export const optimizationParametersApi = {
+  list: async (): Promise<OptimizationParameter[]> => {
+    const response = await api.get<OptimizationParameterDto[]>('/optimization-parameters');
+    return response.data.map(toParameter);
+  },
+
+  global: async (): Promise<ParameterValues> => {
+    const response = await api.get<ParameterValues>('/optimization-parameters/global');
+    return response.data;
+  },
+
+  abcClasses: async (): Promise<AbcClassSummary[]> => {
+    const response = await api.get<AbcClassSummary[]>('/optimization-parameters/abc-classes');
+    return response.data;
+  },
+
+  updateGlobal: async (values: ParameterOverrides): Promise<void> => {
+    await api.put('/optimization-parameters/global', values);
+  },
+
+  update: async ({ scope, scopeId, values }: { scope: OverrideScope; scopeId: string; values: ParameterOverrides }): Promise<void> => {
+    await api.put(`/optimization-parameters/${scope}/${scopeId}`, values);
+  },
+
+  remove: async ({ scope, scopeId }: { scope: OverrideScope; scopeId: string }): Promise<void> => {
+    await api.delete(`/optimization-parameters/${scope}/${scopeId}`);
+  },
+};
@@ -0,0 +1,31 @@
+import { api } from './client';
+import { CategorySummary, Page, Product, ProductFilters } from '../types';
+
+type ProductDto = Omit<Product, 'lastUpdated'> & { lastUpdated: string };
+
+const toProduct = (dto: ProductDto): Product => ({
+  ...dto,
+  lastUpdated: new Date(dto.lastUpdated),
+});
+
+export const productsApi = {
+  list: async (filters: ProductFilters, cursor?: string): Promise<Page<Product>> => {
+    const response = await api.get<ProductDto[]>('/products', { ...filters, cursor, limit: 50 });
+    const metadata = response.metadata as { total: number; nextCursor: string | null };
+
+    return {
+      items: response.data.map(toProduct),
+      total: metadata.total,
+      nextCursor: metadata.nextCursor,
+    };
+  },
+
+  categories: async (): Promise<CategorySummary[]> => {
+    const response = await api.get<CategorySummary[]>('/products/categories');
+    return response.data;
+  },
+
+  remove: async (id: string): Promise<void> => {
+    await api.delete(`/products/${id}`);
+  },
+};
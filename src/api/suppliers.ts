@@ -0,0 +1,33 @@
+import { api } from './client';
+import { LeadTimeDistribution, SupplierSummary, SupplierTerms } from '../types';
+
+type ReceiptDto = Omit<LeadTimeDistribution['receipts'][number], 'submittedAt' | 'receivedAt'> & {
+  submittedAt: string;
+  receivedAt: string;
+};
+type LeadTimeDistributionDto = Omit<LeadTimeDistribution, 'receipts'> & { receipts: ReceiptDto[] };
+type SupplierTermsDto = Omit<SupplierTerms, 'updatedAt'> & { updatedAt: string };
+
+export const suppliersApi = {
+  list: async (): Promise<SupplierSummary[]> => {
+    const response = await api.get<SupplierSummary[]>('/suppliers');
+    return response.data;
+  },
+
+  leadTimes: async (supplierId: string): Promise<LeadTimeDistribution> => {
+    const response = await api.get<LeadTimeDistributionDto>(`/suppliers/${supplierId}/lead-times`);
+    return {
+      ...response.data,
+      receipts: response.data.receipts.map(receipt => ({
+        ...receipt,
+        submittedAt: new Date(receipt.submittedAt),
+        receivedAt: new Date(receipt.receivedAt),
+      })),
+    };
+  },
+
+  terms: async (supplierId: string): Promise<SupplierTerms[]> => {
+    const response = await api.get<SupplierTermsDto[]>(`/suppliers/${supplierId}/terms`);
+    return response.data.map(terms => ({ ...terms, updatedAt: new Date(terms.updatedAt) }));
+  },
+};
@@ -13,6 +13,13 @@ import { inventoryRoutes } from './routes/inventoryRoutes';
 import { forecastingRoutes } from './routes/forecastingRoutes';
 import { analyticsRoutes } from './routes/analyticsRoutes';
 import { aiRoutes } from './routes/aiRoutes';
+import { userRoutes } from './routes/userRoutes';
+import { alertRoutes } from './routes/alertRoutes';
+import { purchaseOrderRoutes } from './routes/purchaseOrderRoutes';
+import { optimizationParameterRoutes } from './routes/optimizationParameterRoutes';
+import { supplierRoutes } from './routes/supplierRoutes';
+import { calendarRoutes } from './routes/calendarRoutes';
+import { promotionRoutes } from './routes/promotionRoutes';
 
 import { SocketHandler } from './websocket/socketHandler';
 import { AIScheduler } from './services/aiScheduler';
@@ -21,6 +28,11 @@ import { authenticateToken } from './middleware/auth';
 
 dotenv.config();
 
+if (!process.env.JWT_SECRET) {
+  console.error('❌ JWT_SECRET is not set. Refusing to start without a signing secret.');
+  process.exit(1);
+}
+
 const app = express();
 const server = createServer(app);
 const io = new Server(server, {
@@ -45,6 +57,7 @@ app.use(limiter);
 
 // Initialize WebSocket handler
 const socketHandler = new SocketHandler(io);
+app.set('socketHandler', socketHandler);
 
 // Initialize AI Scheduler
 const aiScheduler = new AIScheduler(socketHandler);
@@ -57,6 +70,13 @@ app.use('/api/inventory', authenticateToken, inventoryRoutes);
 app.use('/api/forecasting', authenticateToken, forecastingRoutes);
 app.use('/api/analytics', authenticateToken, analyticsRoutes);
 app.use('/api/ai', authenticateToken, aiRoutes);
+app.use('/api/users', authenticateToken, userRoutes);
+app.use('/api/alerts', authenticateToken, alertRoutes);
+app.use('/api/purchase-orders', authenticateToken, purchaseOrderRoutes);
+app.use('/api/optimization-parameters', authenticateToken, optimizationParameterRoutes);
+app.use('/api/suppliers', authenticateToken, supplierRoutes);
+app.use('/api/calendar', authenticateToken, calendarRoutes);
+app.use('/api/promotions', authenticateToken, promotionRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
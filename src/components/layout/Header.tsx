@@ -1,10 +1,23 @@
-import React from 'react';
-import { Bell, Search, Sun, Moon, User } from 'lucide-react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Search, Sun, Moon, User, LogOut } from 'lucide-react';
 import { useInventoryStore } from '../../store/useInventoryStore';
+import { useAuthStore } from '../../store/useAuthStore';
+import { useAlerts } from '../../hooks/useAlerts';
 
 export const Header: React.FC = () => {
-  const { darkMode, toggleDarkMode, alerts } = useInventoryStore();
+  const { darkMode, toggleDarkMode } = useInventoryStore();
+  const { data: alerts = [] } = useAlerts();
   const unreadAlerts = alerts.filter(alert => alert.type === 'critical').length;
+  const { user, logout } = useAuthStore();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const navigate = useNavigate();
+
+  const handleLogout = async () => {
+    setMenuOpen(false);
+    await logout();
+    navigate('/login', { replace: true });
+  };
 
   return (
     <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-6 py-4">
@@ -49,18 +62,36 @@ export const Header: React.FC = () => {
           </button>
 
           {/* User Menu */}
-          <div className="flex items-center gap-3">
+          <div className="relative flex items-center gap-3">
             <div className="hidden sm:block text-right">
               <div className="text-sm font-medium text-gray-900 dark:text-white">
-                Admin User
+                {user?.name ?? user?.email}
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400">
-                administrator
+                {user?.role.toLowerCase()}
               </div>
             </div>
-            <button className="flex items-center justify-center w-8 h-8 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors">
+            <button
+              onClick={() => setMenuOpen(!menuOpen)}
+              className="flex items-center justify-center w-8 h-8 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition-colors"
+            >
               <User className="w-4 h-4" />
             </button>
+
+            {menuOpen && (
+              <div className="absolute right-0 top-10 z-50 w-48 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1">
+                <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700 truncate">
+                  {user?.email}
+                </div>
+                <button
+                  onClick={handleLogout}
+                  className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Sign out
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -6,6 +6,7 @@ import {
   TrendingUp, 
   PieChart, 
   Settings, 
+  Truck,
   ChevronLeft,
   Home
 } from 'lucide-react';
@@ -16,6 +17,7 @@ const navigation = [
   { name: 'Inventory', href: '/inventory', icon: Package },
   { name: 'Forecasting', href: '/forecasting', icon: TrendingUp },
   { name: 'Analytics', href: '/analytics', icon: PieChart },
+  { name: 'Suppliers', href: '/suppliers', icon: Truck },
   { name: 'Reports', href: '/reports', icon: BarChart3 },
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
@@ -1,7 +1,7 @@
 import React from 'react';
 import { AlertTriangle, AlertCircle, Info, X } from 'lucide-react';
 import { Alert } from '../../types';
-import { useInventoryStore } from '../../store/useInventoryStore';
+import { useDismissAlert } from '../../hooks/useAlerts';
 
 interface AlertPanelProps {
   alerts: Alert[];
@@ -9,7 +9,7 @@ interface AlertPanelProps {
 }
 
 export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, maxItems = 5 }) => {
-  const { dismissAlert } = useInventoryStore();
+  const dismissAlert = useDismissAlert();
 
   const getAlertIcon = (type: Alert['type']) => {
     switch (type) {
@@ -77,7 +77,7 @@ export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, maxItems = 5 })
                 </p>
               </div>
               <button
-                onClick={() => dismissAlert(alert.id)}
+                onClick={() => dismissAlert.mutate(alert.id)}
                 className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-200 dark:hover:bg-gray-600 rounded transition-all"
               >
                 <X className="w-4 h-4 text-gray-500" />
@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { ApiError } from '../../api/client';
+
+interface LoadingStateProps {
+  message?: string;
+  className?: string;
+}
+
+export const LoadingState: React.FC<LoadingStateProps> = ({ message = 'Loading...', className = '' }) => {
+  return (
+    <div className={`flex items-center justify-center gap-2 py-8 text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+      <Loader2 className="w-4 h-4 animate-spin" />
+      <span>{message}</span>
+    </div>
+  );
+};
+
+interface ErrorStateProps {
+  error: unknown;
+  onRetry?: () => void;
+  className?: string;
+}
+
+export const ErrorState: React.FC<ErrorStateProps> = ({ error, onRetry, className = '' }) => {
+  const message = error instanceof ApiError
+    ? error.reason ?? error.message
+    : 'Could not reach the server';
+
+  return (
+    <div className={`flex flex-col items-center justify-center gap-3 py-8 text-center ${className}`}>
+      <div className="w-10 h-10 bg-red-100 dark:bg-red-900/20 rounded-full flex items-center justify-center">
+        <AlertTriangle className="w-5 h-5 text-red-600 dark:text-red-400" />
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{message}</p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="inline-flex items-center gap-2 text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
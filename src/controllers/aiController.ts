@@ -1,14 +1,75 @@
 import { Request, Response } from 'express';
 import { AIService } from '../services/aiService';
+import { ModelTrainingService } from '../services/modelTrainingService';
+import { ModelRegistryService } from '../services/modelRegistryService';
 import { PrismaClient } from '@prisma/client';
 import { z } from 'zod';
 
 const prisma = new PrismaClient();
 const aiService = new AIService();
+const modelTrainingService = new ModelTrainingService();
+const modelRegistryService = new ModelRegistryService();
 
 // Validation schemas
+const FORECAST_MODELS = ['STATISTICAL', 'HOLT_WINTERS', 'NEURAL_NETWORK', 'CROSTON', 'SBA', 'TSB'] as const;
+
 const forecastSchema = z.object({
-  days: z.number().min(1).max(365).optional().default(30)
+  // Coerced, since GET passes it in the query string
+  days: z.coerce.number().int().min(1).max(365).optional().default(30),
+  // Omitted, the model follows from the product's sales history
+  modelType: z.enum(FORECAST_MODELS).optional(),
+  // exclude forecasts the baseline, as if none of the planned promotions ran
+  promotions: z.enum(['include', 'exclude']).optional().default('include'),
+  // Levels of the forecast quantiles, comma-separated in a query string; P10, P50 and P90 when omitted
+  quantiles: z.union([
+    z.string().transform(levels => levels.split(',').map(level => Number(level.trim()))),
+    z.array(z.number())
+  ])
+    .pipe(z.array(z.number().gt(0).lt(1)).min(1).max(19))
+    .transform(levels => Array.from(new Set(levels)).sort((a, b) => a - b))
+    .optional()
+});
+
+// What-if service target; omitted fields use the stored parameters
+const optimizationQuerySchema = z.object({
+  serviceLevel: z.coerce.number().min(0.5).max(0.9999).optional(),
+  serviceLevelType: z.enum(['CYCLE', 'FILL_RATE']).optional(),
+  safetyStockMethod: z.enum(['NORMAL', 'QUANTILE']).optional()
+});
+
+// Backtested unless `models` names others; the neural network retrains before every origin, so it is opt-in
+const DEFAULT_BACKTEST_MODELS = FORECAST_MODELS.filter(model => model !== 'NEURAL_NETWORK');
+
+// Stored backtest results; `models` is a comma-separated subset of the model types
+const backtestQuerySchema = z.object({
+  models: z.string().optional()
+    .transform(models => models ? models.split(',').map(m => m.trim()) : [...DEFAULT_BACKTEST_MODELS])
+    .pipe(z.array(z.enum(FORECAST_MODELS)).min(1))
+});
+
+// Rolling-origin backtest run
+const backtestSchema = z.object({
+  horizon: z.number().int().min(1).max(28).optional().default(7),
+  origins: z.number().int().min(1).max(12).optional().default(6),
+  models: z.array(z.enum(FORECAST_MODELS)).min(1).optional().default([...DEFAULT_BACKTEST_MODELS]),
+  refresh: z.boolean().optional().default(false)
+});
+
+const modelSelectionSchema = z.object({
+  metric: z.enum(['mase', 'smape', 'mape', 'wape', 'pinballLoss']).optional(),
+  refresh: z.boolean().optional().default(false)
+});
+
+const retrainSchema = z.object({
+  // Omitted, every category is retrained
+  categoryId: z.string().optional()
+});
+
+// Comma-separated versions of one category's model, shown side by side in the order given
+const compareVersionsSchema = z.object({
+  versions: z.string()
+    .transform(versions => versions.split(',').map(v => v.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(2).max(5))
 });
 
 const bulkForecastSchema = z.object({
@@ -20,7 +81,7 @@ export class AIController {
   async getForecast(req: Request, res: Response) {
     try {
       const { productId } = req.params;
-      const { days } = forecastSchema.parse(req.query);
+      const { days, modelType, promotions, quantiles } = forecastSchema.parse(req.query);
 
       // Check if product exists
       const product = await prisma.product.findUnique({
@@ -31,7 +92,7 @@ export class AIController {
         return res.status(404).json({ error: 'Product not found' });
       }
 
-      const forecast = await aiService.generateDemandForecast(productId, days);
+      const forecast = await aiService.generateDemandForecast(productId, days, modelType, promotions === 'include', quantiles);
       
       res.json({
         success: true,
@@ -39,10 +100,14 @@ export class AIController {
         metadata: {
           productId,
           generatedAt: new Date(),
-          forecastDays: days
+          forecastDays: days,
+          promotions
         }
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
       console.error('Error getting forecast:', error);
       res.status(500).json({ 
         error: 'Failed to generate forecast',
@@ -54,9 +119,9 @@ export class AIController {
   async generateForecast(req: Request, res: Response) {
     try {
       const { productId } = req.params;
-      const { days } = forecastSchema.parse(req.body);
+      const { days, modelType, promotions, quantiles } = forecastSchema.parse(req.body);
 
-      const forecast = await aiService.generateDemandForecast(productId, days);
+      const forecast = await aiService.generateDemandForecast(productId, days, modelType, promotions === 'include', quantiles);
       
       // Save forecast to database
       await this.saveForecastToDatabase(forecast);
@@ -67,6 +132,9 @@ export class AIController {
         message: 'Forecast generated and saved successfully'
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
       console.error('Error generating forecast:', error);
       res.status(500).json({ error: 'Failed to generate forecast' });
     }
@@ -75,53 +143,139 @@ export class AIController {
   async getForecastAccuracy(req: Request, res: Response) {
     try {
       const { productId } = req.params;
+      const { models } = backtestQuerySchema.parse(req.query);
 
-      // Get recent forecasts and actual demand
-      const forecasts = await prisma.forecast.findMany({
-        where: {
+      const backtest = await aiService.getBacktestResults(productId, models);
+
+      res.json({
+        success: true,
+        data: {
           productId,
-          forecastDate: {
-            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
-          }
+          bestModel: backtest.bestModel,
+          results: backtest.results
         },
-        orderBy: { forecastDate: 'desc' }
+        metadata: {
+          running: backtest.running
+        }
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Product not found') {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      console.error('Error getting forecast accuracy:', error);
+      res.status(500).json({ error: 'Failed to get forecast accuracy' });
+    }
+  }
 
-      // Get actual demand for the same period
-      const movements = await prisma.stockMovement.findMany({
-        where: {
+  async runForecastBacktest(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { horizon, origins, models, refresh } = backtestSchema.parse(req.body);
+
+      const started = await aiService.startBacktest(productId, { horizon, origins, modelTypes: models, refresh });
+      // The results stored so far, replaced once the run finishes
+      const backtest = await aiService.getBacktestResults(productId, models);
+
+      res.status(202).json({
+        success: true,
+        data: {
           productId,
-          movementType: 'OUT',
-          createdAt: {
-            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
-          }
-        }
+          bestModel: backtest.bestModel,
+          results: backtest.results
+        },
+        metadata: {
+          horizon,
+          running: backtest.running
+        },
+        message: started ? 'Backtest started' : 'A backtest is already running for this product'
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Product not found') {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      console.error('Error starting forecast backtest:', error);
+      res.status(500).json({ error: 'Failed to start forecast backtest' });
+    }
+  }
 
-      // Calculate accuracy metrics
-      const accuracy = this.calculateForecastAccuracy(forecasts, movements);
+  async getModelSelection(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { selection, running } = await aiService.getForecastModelSelection(productId);
+
+      // While a selection runs the current one, if any, is returned so the request can be polled
+      if (!selection && !running) {
+        return res.status(404).json({ error: 'No forecasting model has been selected for this product' });
+      }
 
       res.json({
         success: true,
-        data: accuracy
+        data: selection,
+        metadata: {
+          running
+        }
       });
     } catch (error) {
-      console.error('Error getting forecast accuracy:', error);
-      res.status(500).json({ error: 'Failed to get forecast accuracy' });
+      console.error('Error getting model selection:', error);
+      res.status(500).json({ error: 'Failed to get model selection' });
+    }
+  }
+
+  async selectModel(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { metric, refresh } = modelSelectionSchema.parse(req.body);
+
+      // Every candidate is backtested from several origins, the neural network training at each, so the
+      // selection runs in the background and GET /model reports when it is done
+      const started = await aiService.startModelSelection(productId, { metric, refresh });
+      if (!started) {
+        return res.status(409).json({ error: 'A backtest is already running for this product' });
+      }
+
+      const { selection, running } = await aiService.getForecastModelSelection(productId);
+
+      res.status(202).json({
+        success: true,
+        data: selection,
+        metadata: {
+          running
+        },
+        message: 'Model selection started'
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      if (error instanceof Error && error.message === 'Product not found') {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      console.error('Error starting model selection:', error);
+      res.status(500).json({ error: 'Failed to start model selection' });
     }
   }
 
   async getOptimization(req: Request, res: Response) {
     try {
       const { productId } = req.params;
+      const serviceTarget = optimizationQuerySchema.parse(req.query);
 
-      const optimization = await aiService.optimizeStockLevels(productId);
+      const optimization = await aiService.optimizeStockLevels(productId, serviceTarget);
 
       res.json({
         success: true,
         data: optimization
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
       console.error('Error getting optimization:', error);
       res.status(500).json({ error: 'Failed to get optimization recommendations' });
     }
@@ -419,35 +573,39 @@ export class AIController {
 
   async retrainModels(req: Request, res: Response) {
     try {
-      const { categoryId } = req.body;
+      const { categoryId } = retrainSchema.parse(req.body);
 
       if (categoryId) {
+        const category = await prisma.category.findUnique({ where: { id: categoryId } });
+        if (!category) {
+          return res.status(404).json({ error: 'Category not found' });
+        }
+
         // Retrain specific category model
-        await aiService.saveModel(categoryId);
+        const report = await modelTrainingService.trainCategory(categoryId);
+        if (!report) {
+          return res.status(422).json({ error: 'Not enough demand history in this category to train a model' });
+        }
+
         res.json({
           success: true,
-          message: `Model retrained for category: ${categoryId}`
+          data: report,
+          message: `Model ${report.version} trained for category: ${category.name}${report.promoted ? ' and promoted to active' : ''}`
         });
       } else {
         // Retrain all models
-        const categories = await prisma.category.findMany();
-        let retrainedCount = 0;
-
-        for (const category of categories) {
-          try {
-            await aiService.saveModel(category.id);
-            retrainedCount++;
-          } catch (error) {
-            console.error(`Error retraining model for category ${category.id}:`, error);
-          }
-        }
+        const { reports, skipped } = await modelTrainingService.trainAll();
 
         res.json({
           success: true,
-          message: `${retrainedCount}/${categories.length} models retrained successfully`
+          data: { reports, skipped },
+          message: `${reports.length}/${reports.length + skipped.length} models retrained successfully`
         });
       }
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
       console.error('Error retraining models:', error);
       res.status(500).json({ error: 'Failed to retrain models' });
     }
@@ -472,13 +630,23 @@ export class AIController {
           }
         });
 
+        const versions = await modelRegistryService.list(category.id);
+        const active = versions.find(v => v.status === 'ACTIVE');
+
         modelStatus.push({
           categoryId: category.id,
           categoryName: category.name,
           productCount,
           recentForecasts,
-          status: recentForecasts > 0 ? 'ACTIVE' : 'INACTIVE',
-          lastUpdated: new Date() // This would be actual last update time in production
+          status: !active ? 'UNTRAINED' : recentForecasts > 0 ? 'ACTIVE' : 'INACTIVE',
+          activeVersion: active?.version ?? null,
+          // Most recently trained, which may still be a candidate
+          latestVersion: versions[0]?.version ?? null,
+          versionCount: versions.length,
+          holdout: active?.holdout ?? null,
+          lastTrained: active?.trainedAt ?? null,
+          // When the active version was promoted, i.e. when forecasts last switched model
+          lastUpdated: active?.promotedAt ?? null
         });
       }
 
@@ -492,6 +660,85 @@ export class AIController {
     }
   }
 
+  async getModelVersions(req: Request, res: Response) {
+    try {
+      const { categoryId } = req.params;
+      const versions = await modelRegistryService.list(categoryId);
+
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error) {
+      console.error('Error getting model versions:', error);
+      res.status(500).json({ error: 'Failed to get model versions' });
+    }
+  }
+
+  async compareModelVersions(req: Request, res: Response) {
+    try {
+      const { categoryId } = req.params;
+      const { versions } = compareVersionsSchema.parse(req.query);
+
+      const comparison = await modelRegistryService.compare(categoryId, versions);
+      const missing = versions.filter(version => !comparison.versions.some(v => v.version === version));
+      if (missing.length > 0) {
+        return res.status(404).json({ error: 'Model version not found', details: missing });
+      }
+
+      res.json({
+        success: true,
+        data: comparison
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      console.error('Error comparing model versions:', error);
+      res.status(500).json({ error: 'Failed to compare model versions' });
+    }
+  }
+
+  async promoteModelVersion(req: Request, res: Response) {
+    try {
+      const { categoryId, version } = req.params;
+      const promoted = await modelRegistryService.promote(categoryId, version);
+
+      if (!promoted) {
+        return res.status(404).json({ error: 'Model version not found' });
+      }
+
+      res.json({
+        success: true,
+        data: promoted,
+        message: `Model ${version} is now active`
+      });
+    } catch (error) {
+      console.error('Error promoting model version:', error);
+      res.status(500).json({ error: 'Failed to promote model version' });
+    }
+  }
+
+  async rollbackModel(req: Request, res: Response) {
+    try {
+      const { categoryId } = req.params;
+      const restored = await modelRegistryService.rollback(categoryId);
+
+      if (!restored) {
+        return res.status(422).json({ error: 'No earlier active model version to roll back to' });
+      }
+
+      res.json({
+        success: true,
+        data: restored,
+        message: `Rolled back to model ${restored.version}`
+      });
+    } catch (error) {
+      console.error('Error rolling back model:', error);
+      res.status(500).json({ error: 'Failed to roll back model' });
+    }
+  }
+
   async bulkForecast(req: Request, res: Response) {
     try {
       const { productIds, days } = bulkForecastSchema.parse(req.body);
@@ -597,42 +844,6 @@ export class AIController {
     }
   }
 
-  private calculateForecastAccuracy(forecasts: any[], movements: any[]) {
-    // Group movements by date
-    const actualDemand = new Map();
-    movements.forEach(movement => {
-      const date = movement.createdAt.toISOString().split('T')[0];
-      const current = actualDemand.get(date) || 0;
-      actualDemand.set(date, current + Math.abs(movement.quantity));
-    });
-
-    // Calculate accuracy metrics
-    let totalError = 0;
-    let validComparisons = 0;
-
-    forecasts.forEach(forecast => {
-      const date = forecast.forecastDate.toISOString().split('T')[0];
-      const actual = actualDemand.get(date);
-      
-      if (actual !== undefined) {
-        const error = Math.abs(forecast.predictedDemand - actual);
-        const percentageError = actual === 0 ? 0 : error / actual;
-        totalError += percentageError;
-        validComparisons++;
-      }
-    });
-
-    const mape = validComparisons > 0 ? totalError / validComparisons : 0;
-    const accuracy = Math.max(0, 1 - mape);
-
-    return {
-      accuracy: Math.round(accuracy * 100) / 100,
-      mape: Math.round(mape * 100) / 100,
-      validComparisons,
-      totalForecasts: forecasts.length
-    };
-  }
-
   private calculateOptimizationPriority(optimization: any, percentageDifference: number): string {
     if (optimization.riskLevel === 'HIGH') return 'CRITICAL';
     if (optimization.expectedSavings > 500 || percentageDifference > 50) return 'HIGH';
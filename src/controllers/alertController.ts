@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { Alert, AlertType, Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const listAlertsSchema = z.object({
+  productId: z.string().optional(),
+  alertType: z.enum(['CRITICAL', 'WARNING', 'INFO']).optional(),
+  includeDismissed: z.enum(['true', 'false']).optional().default('false'),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50)
+});
+
+export class AlertController {
+  async getAlerts(req: Request, res: Response) {
+    try {
+      const { productId, alertType, includeDismissed, limit } = listAlertsSchema.parse(req.query);
+
+      const whereClause: Prisma.AlertWhereInput = {};
+      if (productId) whereClause.productId = productId;
+      if (alertType) whereClause.alertType = alertType;
+      if (includeDismissed === 'false') whereClause.isDismissed = false;
+
+      const alerts = await prisma.alert.findMany({
+        where: whereClause,
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      // Critical alerts first, newest first within each type
+      const typeOrder: Record<AlertType, number> = { CRITICAL: 0, WARNING: 1, INFO: 2 };
+      alerts.sort((a: Alert, b: Alert) => typeOrder[a.alertType] - typeOrder[b.alertType]);
+
+      res.json({
+        success: true,
+        data: alerts,
+        metadata: {
+          count: alerts.length,
+          critical: alerts.filter(a => a.alertType === 'CRITICAL').length
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      }
+      console.error('Error getting alerts:', error);
+      res.status(500).json({ error: 'Failed to get alerts' });
+    }
+  }
+
+  async dismissAlert(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const alert = await prisma.alert.update({
+        where: { id },
+        data: { isDismissed: true }
+      });
+
+      res.json({
+        success: true,
+        data: alert,
+        message: 'Alert dismissed'
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return res.status(404).json({ error: 'Alert not found' });
+      }
+      console.error('Error dismissing alert:', error);
+      res.status(500).json({ error: 'Failed to dismiss alert' });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AnalyticsService } from '../services/analyticsService';
+
+const analyticsService = new AnalyticsService();
+
+// Validation schemas
+const periodSchema = z.object({
+  period: z.enum(['30d', '90d', '1y']).optional().default('30d')
+});
+
+const reconciliationSchema = z.object({
+  // How the category and warehouse forecasts are made to add up to the total
+  reconciliation: z.enum(['BOTTOM_UP', 'TOP_DOWN', 'MINT']).optional().default('MINT')
+});
+
+const analyticsSchema = periodSchema.merge(reconciliationSchema);
+
+export class AnalyticsController {
+  async getAnalytics(req: Request, res: Response) {
+    try {
+      const { period, reconciliation } = analyticsSchema.parse(req.query);
+
+      const analytics = await analyticsService.getAnalytics(period, reconciliation);
+
+      res.json({
+        success: true,
+        data: analytics,
+        metadata: {
+          period,
+          reconciliation,
+          ...analyticsService.getPeriodRange(period),
+          generatedAt: new Date()
+        }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get analytics');
+    }
+  }
+
+  async getCategoryDistribution(_req: Request, res: Response) {
+    try {
+      const distribution = await analyticsService.getCategoryDistribution();
+
+      res.json({
+        success: true,
+        data: distribution
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get category distribution');
+    }
+  }
+
+  async getTurnoverMetrics(req: Request, res: Response) {
+    try {
+      const { period } = periodSchema.parse(req.query);
+
+      const metrics = await analyticsService.getTurnoverMetrics(period);
+
+      res.json({
+        success: true,
+        data: metrics,
+        metadata: { period }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get turnover metrics');
+    }
+  }
+
+  async getPerformanceScores(req: Request, res: Response) {
+    try {
+      const { period } = periodSchema.parse(req.query);
+
+      const scores = await analyticsService.getPerformanceScores(period);
+
+      res.json({
+        success: true,
+        data: scores,
+        metadata: { period }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get performance scores');
+    }
+  }
+
+  async getDemandForecast(req: Request, res: Response) {
+    try {
+      const { reconciliation } = reconciliationSchema.parse(req.query);
+
+      const forecast = await analyticsService.getDemandForecast(reconciliation);
+
+      res.json({
+        success: true,
+        data: forecast,
+        metadata: { reconciliation }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get demand forecast');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,122 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { AuthError, AuthService } from '../services/authService';
+
+const authService = new AuthService();
+
+// Validation schemas
+const registerSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8).max(128),
+  name: z.string().min(1).max(100).optional()
+});
+
+const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+const logoutSchema = refreshSchema.extend({
+  allSessions: z.boolean().optional().default(false)
+});
+
+export class AuthController {
+  async register(req: AuthRequest, res: Response) {
+    try {
+      const { email, password, name } = registerSchema.parse(req.body);
+
+      const user = await authService.register(email, password, name);
+
+      if (!user) {
+        return res.status(409).json({ error: 'A user with this email already exists' });
+      }
+
+      res.status(201).json({
+        success: true,
+        data: user,
+        message: 'User registered successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to register user');
+    }
+  }
+
+  async login(req: AuthRequest, res: Response) {
+    try {
+      const { email, password } = loginSchema.parse(req.body);
+
+      const session = await authService.login(email, password);
+
+      res.json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to log in');
+    }
+  }
+
+  async refresh(req: AuthRequest, res: Response) {
+    try {
+      const { refreshToken } = refreshSchema.parse(req.body);
+
+      const session = await authService.refresh(refreshToken);
+
+      res.json({
+        success: true,
+        data: session
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to refresh token');
+    }
+  }
+
+  async logout(req: AuthRequest, res: Response) {
+    try {
+      const { refreshToken, allSessions } = logoutSchema.parse(req.body);
+
+      await authService.logout(refreshToken, allSessions);
+
+      res.json({
+        success: true,
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to log out');
+    }
+  }
+
+  async me(req: AuthRequest, res: Response) {
+    try {
+      const user = req.user ? await authService.getUser(req.user.id) : null;
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get current user');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error instanceof AuthError) {
+      return res.status(401).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
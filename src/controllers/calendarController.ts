@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { CalendarEventError, CalendarService } from '../services/calendarService';
+
+const calendarService = new CalendarService();
+
+// Validation schemas
+const listEventsSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  // Omitted, custom events of every region are listed
+  region: z.string().optional()
+}).refine(data => data.to >= data.from, { message: 'to must not be before from' });
+
+const eventFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  eventType: z.enum(['HOLIDAY', 'PAYDAY', 'STORE_EVENT']),
+  // null or omitted applies to every region
+  region: z.string().min(1).max(50).nullable().optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  leadDays: z.number().int().min(0).max(60).optional(),
+  lagDays: z.number().int().min(0).max(60).optional(),
+  recursAnnually: z.boolean().optional()
+});
+
+const createEventSchema = eventFieldsSchema.refine(
+  data => data.endDate >= data.startDate,
+  { message: 'endDate must not be before startDate' }
+);
+
+const updateEventSchema = eventFieldsSchema.partial().refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  { message: 'endDate must not be before startDate' }
+);
+
+export class CalendarController {
+  async getEvents(req: Request, res: Response) {
+    try {
+      const { from, to, region } = listEventsSchema.parse(req.query);
+
+      const events = await calendarService.listEvents(from, to, region);
+
+      res.json({
+        success: true,
+        data: events,
+        metadata: { from, to, region: region ?? null, count: events.length }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get calendar events');
+    }
+  }
+
+  async createEvent(req: AuthRequest, res: Response) {
+    try {
+      const input = createEventSchema.parse(req.body);
+
+      const event = await calendarService.createEvent(input, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: event,
+        message: 'Calendar event created'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create calendar event');
+    }
+  }
+
+  async updateEvent(req: AuthRequest, res: Response) {
+    try {
+      const input = updateEventSchema.parse(req.body);
+
+      const event = await calendarService.updateEvent(req.params.id, input);
+
+      if (!event) {
+        return res.status(404).json({ error: 'Calendar event not found' });
+      }
+
+      res.json({
+        success: true,
+        data: event,
+        message: 'Calendar event updated'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update calendar event');
+    }
+  }
+
+  async deleteEvent(req: AuthRequest, res: Response) {
+    try {
+      const deleted = await calendarService.deleteEvent(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Calendar event not found' });
+      }
+
+      res.json({
+        success: true,
+        message: 'Calendar event removed'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete calendar event');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    if (error instanceof CalendarEventError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
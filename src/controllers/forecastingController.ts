@@ -0,0 +1,198 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { ForecastingService } from '../services/forecastingService';
+import { ForecastReconciliationService } from '../services/forecastReconciliationService';
+
+const prisma = new PrismaClient();
+const forecastingService = new ForecastingService();
+const reconciliationService = new ForecastReconciliationService();
+
+// Validation schemas
+const historySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  modelVersion: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(365)
+});
+
+const seriesSchema = z.object({
+  categoryId: z.string().optional(),
+  modelVersion: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(365).optional().default(30),
+  horizon: z.coerce.number().int().min(0).max(365).optional().default(14)
+});
+
+const metricsSchema = z.object({
+  categoryId: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(365).optional().default(30)
+});
+
+const hierarchySchema = z.object({
+  method: z.enum(['BOTTOM_UP', 'TOP_DOWN', 'MINT']).optional().default('MINT'),
+  horizon: z.coerce.number().int().min(1).max(90).optional().default(30)
+});
+
+export class ForecastingController {
+  async getHistory(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const options = historySchema.parse(req.query);
+
+      if (!(await this.productExists(productId))) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const history = await forecastingService.getHistory(productId, options);
+
+      res.json({
+        success: true,
+        data: history,
+        metadata: { productId, count: history.length }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast history');
+    }
+  }
+
+  async getVersions(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+
+      if (!(await this.productExists(productId))) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const versions = await forecastingService.getVersions(productId);
+
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast versions');
+    }
+  }
+
+  async getProductSeries(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { modelVersion, days, horizon } = seriesSchema.parse(req.query);
+
+      if (!(await this.productExists(productId))) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const { from, to } = this.seriesRange(days, horizon);
+      const series = await forecastingService.getSeries({ productId }, from, to, modelVersion);
+
+      res.json({
+        success: true,
+        data: series,
+        metadata: { productId, from, to }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast series');
+    }
+  }
+
+  async getSeries(req: Request, res: Response) {
+    try {
+      const { categoryId, modelVersion, days, horizon } = seriesSchema.parse(req.query);
+
+      const { from, to } = this.seriesRange(days, horizon);
+      const series = await forecastingService.getSeries({ categoryId }, from, to, modelVersion);
+
+      res.json({
+        success: true,
+        data: series,
+        metadata: { categoryId: categoryId ?? null, from, to }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast series');
+    }
+  }
+
+  async getProductMetrics(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+      const { days } = metricsSchema.parse(req.query);
+
+      if (!(await this.productExists(productId))) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const { from, to } = this.seriesRange(days, 0);
+      const metrics = await forecastingService.getErrorMetrics({ productId }, from, to);
+
+      res.json({
+        success: true,
+        data: metrics,
+        metadata: { productId, from, to }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast metrics');
+    }
+  }
+
+  async getMetrics(req: Request, res: Response) {
+    try {
+      const { categoryId, days } = metricsSchema.parse(req.query);
+
+      const { from, to } = this.seriesRange(days, 0);
+      const metrics = await forecastingService.getErrorMetrics({ categoryId }, from, to);
+
+      res.json({
+        success: true,
+        data: metrics,
+        metadata: { categoryId: categoryId ?? null, from, to }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get forecast metrics');
+    }
+  }
+
+  async getHierarchy(req: Request, res: Response) {
+    try {
+      const { method, horizon } = hierarchySchema.parse(req.query);
+
+      const forecast = await reconciliationService.getReconciledForecast(method, horizon);
+
+      res.json({
+        success: true,
+        data: forecast,
+        metadata: {
+          method,
+          horizon,
+          categories: forecast.categories.length,
+          warehouses: forecast.warehouses.length,
+          products: forecast.products.length
+        }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get reconciled forecast');
+    }
+  }
+
+  private async productExists(productId: string): Promise<boolean> {
+    const count = await prisma.product.count({ where: { id: productId } });
+    return count > 0;
+  }
+
+  private seriesRange(days: number, horizon: number) {
+    const from = new Date();
+    from.setDate(from.getDate() - days);
+    const to = new Date();
+    to.setDate(to.getDate() + horizon);
+    return { from, to };
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,256 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { forbidden, hasPermission } from '../middleware/authorize';
+import { SocketHandler } from '../websocket/socketHandler';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const movementSchema = z.object({
+  productId: z.string().min(1),
+  movementType: z.enum(['IN', 'OUT', 'ADJUSTMENT']),
+  quantity: z.number().int(),
+  referenceNumber: z.string().max(100).optional(),
+  notes: z.string().max(500).optional(),
+  allowNegative: z.boolean().optional().default(false)
+}).superRefine((data, ctx) => {
+  // IN/OUT carry a positive quantity; ADJUSTMENT carries a signed delta
+  if (data.movementType !== 'ADJUSTMENT' && data.quantity <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['quantity'],
+      message: 'Quantity must be positive for IN and OUT movements'
+    });
+  }
+  if (data.movementType === 'ADJUSTMENT' && data.quantity === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['quantity'],
+      message: 'Adjustment quantity must not be zero'
+    });
+  }
+});
+
+const listMovementsSchema = z.object({
+  productId: z.string().optional(),
+  movementType: z.enum(['IN', 'OUT', 'ADJUSTMENT']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(50)
+});
+
+const activitySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().default(20)
+});
+
+class InsufficientStockError extends Error {
+  constructor(public productId: string, public currentStock: number, public resultingStock: number) {
+    super(`Movement would leave product ${productId} with negative stock (${resultingStock})`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
+export class InventoryController {
+  async getMovements(req: Request, res: Response) {
+    try {
+      const { productId, movementType, from, to, cursor, limit } = listMovementsSchema.parse(req.query);
+
+      const whereClause: Prisma.StockMovementWhereInput = {};
+      if (productId) whereClause.productId = productId;
+      if (movementType) whereClause.movementType = movementType;
+      if (from || to) {
+        whereClause.createdAt = {
+          ...(from ? { gte: from } : {}),
+          ...(to ? { lte: to } : {})
+        };
+      }
+
+      const movements = await prisma.stockMovement.findMany({
+        where: whereClause,
+        include: {
+          product: { select: { id: true, name: true, sku: true } },
+          user: { select: { id: true, name: true, email: true } }
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+        take: limit + 1,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+      });
+
+      const hasMore = movements.length > limit;
+      const page = hasMore ? movements.slice(0, limit) : movements;
+
+      res.json({
+        success: true,
+        data: page,
+        metadata: {
+          count: page.length,
+          hasMore,
+          nextCursor: hasMore ? page[page.length - 1].id : null
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      }
+      console.error('Error getting stock movements:', error);
+      res.status(500).json({ error: 'Failed to get stock movements' });
+    }
+  }
+
+  async getStockLevel(req: Request, res: Response) {
+    try {
+      const { productId } = req.params;
+
+      const product = await prisma.product.findUnique({
+        where: { id: productId },
+        select: { id: true, name: true, sku: true, currentStock: true, reorderPoint: true, optimalStock: true }
+      });
+
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const recentMovements = await prisma.stockMovement.findMany({
+        where: { productId },
+        orderBy: { createdAt: 'desc' },
+        take: 10
+      });
+
+      res.json({
+        success: true,
+        data: {
+          ...product,
+          belowReorderPoint: product.currentStock <= product.reorderPoint,
+          recentMovements
+        }
+      });
+    } catch (error) {
+      console.error('Error getting stock level:', error);
+      res.status(500).json({ error: 'Failed to get stock level' });
+    }
+  }
+
+  async getActivity(req: Request, res: Response) {
+    try {
+      const { limit } = activitySchema.parse(req.query);
+
+      // Sales are too frequent to be useful in the feed; deliveries and adjustments are what operators track
+      const movements = await prisma.stockMovement.findMany({
+        where: { movementType: { in: ['IN', 'ADJUSTMENT'] } },
+        include: { product: { select: { name: true } } },
+        orderBy: { createdAt: 'desc' },
+        take: limit
+      });
+
+      const activity = movements.map(m => m.movementType === 'IN'
+        ? {
+            id: m.id,
+            type: 'delivery',
+            title: 'Shipment Received',
+            description: `${m.product.name} - ${m.quantity} units received${m.referenceNumber ? ` (${m.referenceNumber})` : ''}`,
+            timestamp: m.createdAt,
+            status: 'success'
+          }
+        : {
+            id: m.id,
+            type: 'adjustment',
+            title: 'Stock Adjustment',
+            description: m.notes || `${m.product.name} - ${m.quantity > 0 ? '+' : ''}${m.quantity} units`,
+            timestamp: m.createdAt,
+            status: m.quantity < 0 ? 'warning' : 'info'
+          });
+
+      res.json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      }
+      console.error('Error getting activity feed:', error);
+      res.status(500).json({ error: 'Failed to get activity feed' });
+    }
+  }
+
+  async recordMovement(req: AuthRequest, res: Response) {
+    try {
+      const { allowNegative, ...movement } = movementSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (movement.movementType === 'ADJUSTMENT' && !hasPermission(req.user, 'inventory:adjust')) {
+        return forbidden(res, req.user, 'inventory:adjust');
+      }
+      if (allowNegative && !hasPermission(req.user, 'inventory:override-negative')) {
+        return forbidden(res, req.user, 'inventory:override-negative');
+      }
+
+      const delta = movement.movementType === 'OUT' ? -movement.quantity : movement.quantity;
+
+      // Increment in the same transaction as the ledger row so concurrent movements cannot lose updates
+      const result = await prisma.$transaction(async (tx) => {
+        const product = await tx.product.update({
+          where: { id: movement.productId },
+          data: { currentStock: { increment: delta } },
+          select: { id: true, name: true, currentStock: true, reorderPoint: true, optimalStock: true }
+        });
+
+        if (product.currentStock < 0 && !allowNegative) {
+          throw new InsufficientStockError(product.id, product.currentStock - delta, product.currentStock);
+        }
+
+        const stockMovement = await tx.stockMovement.create({
+          data: {
+            ...movement,
+            createdBy: userId
+          }
+        });
+
+        return { product, stockMovement };
+      });
+
+      const socketHandler: SocketHandler | undefined = req.app.get('socketHandler');
+      socketHandler?.broadcastStockUpdate(result.product.id, {
+        productName: result.product.name,
+        movementId: result.stockMovement.id,
+        movementType: result.stockMovement.movementType,
+        quantity: result.stockMovement.quantity,
+        previousStock: result.product.currentStock - delta,
+        currentStock: result.product.currentStock,
+        reorderPoint: result.product.reorderPoint,
+        belowReorderPoint: result.product.currentStock <= result.product.reorderPoint
+      });
+
+      res.status(201).json({
+        success: true,
+        data: {
+          movement: result.stockMovement,
+          currentStock: result.product.currentStock
+        },
+        message: 'Stock movement recorded successfully'
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({
+          error: 'Insufficient stock',
+          details: {
+            productId: error.productId,
+            currentStock: error.currentStock,
+            resultingStock: error.resultingStock
+          }
+        });
+      }
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+      console.error('Error recording stock movement:', error);
+      res.status(500).json({ error: 'Failed to record stock movement' });
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import {
+  DEFAULT_PARAMETERS,
+  OptimizationParameterError,
+  OptimizationParameterService
+} from '../services/optimizationParameterService';
+import { ServiceLevelService } from '../services/serviceLevelService';
+
+const parameterService = new OptimizationParameterService();
+const serviceLevelService = new ServiceLevelService();
+
+// Validation schemas
+// null clears an override so the value is inherited again
+const parameterValuesSchema = z.object({
+  orderingCost: z.number().nonnegative().max(100000).nullable().optional(),
+  holdingCostRate: z.number().positive().max(5).nullable().optional(),
+  leadTimeDays: z.number().int().min(1).max(365).nullable().optional(),
+  serviceLevel: z.number().min(0.5).max(0.9999).nullable().optional(),
+  serviceLevelType: z.enum(['CYCLE', 'FILL_RATE']).nullable().optional(),
+  safetyStockMethod: z.enum(['NORMAL', 'QUANTILE']).nullable().optional()
+}).refine(
+  data => Object.keys(data).length > 0,
+  { message: 'At least one parameter must be provided' }
+);
+
+const scopeSchema = z.enum(['abc-class', 'category', 'supplier', 'product']).transform(
+  scope => scope.replace('-', '_').toUpperCase() as 'ABC_CLASS' | 'CATEGORY' | 'SUPPLIER' | 'PRODUCT'
+);
+
+const listParametersSchema = z.object({
+  scope: z.enum(['GLOBAL', 'ABC_CLASS', 'CATEGORY', 'SUPPLIER', 'PRODUCT']).optional()
+});
+
+export class OptimizationParameterController {
+  async getParameters(req: Request, res: Response) {
+    try {
+      const { scope } = listParametersSchema.parse(req.query);
+
+      const parameters = await parameterService.list(scope);
+
+      res.json({
+        success: true,
+        data: parameters,
+        metadata: { count: parameters.length }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get optimization parameters');
+    }
+  }
+
+  async getGlobalParameters(_req: Request, res: Response) {
+    try {
+      const values = await parameterService.getGlobal();
+
+      res.json({
+        success: true,
+        data: values,
+        metadata: { defaults: DEFAULT_PARAMETERS }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get global optimization parameters');
+    }
+  }
+
+  async getAbcClasses(_req: Request, res: Response) {
+    try {
+      const summary = await serviceLevelService.getAbcSummary();
+
+      res.json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get ABC classes');
+    }
+  }
+
+  async resolveParameters(req: Request, res: Response) {
+    try {
+      const parameters = await parameterService.resolve(req.params.productId);
+
+      res.json({
+        success: true,
+        data: parameters
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to resolve optimization parameters');
+    }
+  }
+
+  async updateGlobalParameters(req: AuthRequest, res: Response) {
+    try {
+      const overrides = parameterValuesSchema.parse(req.body);
+
+      const parameters = await parameterService.upsert('GLOBAL', '', overrides, req.user?.id);
+
+      res.json({
+        success: true,
+        data: parameters,
+        message: 'Global optimization parameters updated'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update global optimization parameters');
+    }
+  }
+
+  async updateParameters(req: AuthRequest, res: Response) {
+    try {
+      const scope = scopeSchema.parse(req.params.scope);
+      const overrides = parameterValuesSchema.parse(req.body);
+
+      const parameters = await parameterService.upsert(scope, req.params.scopeId, overrides, req.user?.id);
+
+      res.json({
+        success: true,
+        data: parameters,
+        message: 'Optimization parameters updated'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update optimization parameters');
+    }
+  }
+
+  async deleteParameters(req: AuthRequest, res: Response) {
+    try {
+      const scope = scopeSchema.parse(req.params.scope);
+
+      const deleted = await parameterService.remove(scope, req.params.scopeId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'No parameters stored for this scope' });
+      }
+
+      res.json({
+        success: true,
+        message: 'Optimization parameters removed'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete optimization parameters');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error instanceof OptimizationParameterError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,363 @@
+import { Request, Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { PromotionService } from '../services/promotionService';
+import { ColdStartService } from '../services/coldStartService';
+
+const prisma = new PrismaClient();
+const promotionService = new PromotionService();
+const coldStartService = new ColdStartService();
+
+// Validation schemas
+const productSchema = z.object({
+  name: z.string().min(1).max(200),
+  sku: z.string().min(1).max(64),
+  currentStock: z.number().int().min(0).optional().default(0),
+  reorderPoint: z.number().int().min(0),
+  optimalStock: z.number().int().min(0),
+  unitPrice: z.number().nonnegative().nullable().optional(),
+  unitCost: z.number().nonnegative().nullable().optional(),
+  velocity: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+  riskLevel: z.enum(['HIGH', 'MEDIUM', 'LOW']),
+  categoryId: z.string().min(1),
+  supplierId: z.string().min(1),
+  locationId: z.string().min(1),
+  // Product whose launch demand this one's forecasts start from while it is new; null for automatic matching
+  likeItemId: z.string().min(1).nullable().optional()
+});
+
+// Stock only changes through inventory movements, so the ledger, alerts and stock broadcasts see every change
+const updateProductSchema = productSchema.omit({ currentStock: true }).partial().refine(
+  data => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+const listProductsSchema = z.object({
+  category: z.string().optional(),
+  supplier: z.string().optional(),
+  location: z.string().optional(),
+  velocity: z.enum(['HIGH', 'MEDIUM', 'LOW']).optional(),
+  riskLevel: z.enum(['HIGH', 'MEDIUM', 'LOW']).optional(),
+  demandPattern: z.enum(['SMOOTH', 'ERRATIC', 'INTERMITTENT', 'LUMPY']).optional(),
+  search: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(25),
+  sortBy: z.enum([
+    'name', 'sku', 'currentStock', 'reorderPoint', 'optimalStock', 'unitPrice', 'createdAt', 'updatedAt'
+  ]).optional().default('name'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc')
+});
+
+// Only upcoming forecasts count towards predicted demand
+const productInclude = () => ({
+  category: true,
+  supplier: true,
+  location: true,
+  forecasts: {
+    where: { forecastDate: { gte: new Date() } },
+    orderBy: { forecastDate: 'asc' as const },
+    take: 30
+  }
+});
+
+type ProductWithRelations = Prisma.ProductGetPayload<{ include: ReturnType<typeof productInclude> }>;
+
+export class ProductController {
+  async getProducts(req: Request, res: Response) {
+    try {
+      const {
+        category, supplier, location, velocity, riskLevel, demandPattern, search, cursor, limit, sortBy, sortOrder
+      } = listProductsSchema.parse(req.query);
+
+      const whereClause: Prisma.ProductWhereInput = {};
+      if (category) whereClause.categoryId = category;
+      if (supplier) whereClause.supplierId = supplier;
+      if (location) whereClause.locationId = location;
+      if (velocity) whereClause.velocity = velocity;
+      if (riskLevel) whereClause.riskLevel = riskLevel;
+      if (demandPattern) whereClause.demandPattern = demandPattern;
+      if (search) {
+        whereClause.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { sku: { contains: search, mode: 'insensitive' } }
+        ];
+      }
+
+      // Fetch one extra row to know whether another page exists
+      const [products, total] = await Promise.all([
+        prisma.product.findMany({
+          where: whereClause,
+          include: productInclude(),
+          orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+          take: limit + 1,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+        }),
+        prisma.product.count({ where: whereClause })
+      ]);
+
+      const hasMore = products.length > limit;
+      const page = hasMore ? products.slice(0, limit) : products;
+
+      res.json({
+        success: true,
+        data: page.map(product => this.formatProduct(product)),
+        metadata: {
+          count: page.length,
+          total,
+          hasMore,
+          nextCursor: hasMore ? page[page.length - 1].id : null,
+          sortBy,
+          sortOrder
+        }
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid query parameters', details: error.errors });
+      }
+      console.error('Error getting products:', error);
+      res.status(500).json({ error: 'Failed to get products' });
+    }
+  }
+
+  async getCategories(_req: Request, res: Response) {
+    try {
+      const categories = await prisma.category.findMany({
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { products: true } } }
+      });
+
+      res.json({
+        success: true,
+        data: categories.map(c => ({
+          id: c.id,
+          name: c.name,
+          description: c.description ?? '',
+          productCount: c._count.products
+        }))
+      });
+    } catch (error) {
+      console.error('Error getting categories:', error);
+      res.status(500).json({ error: 'Failed to get categories' });
+    }
+  }
+
+  async getProduct(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const product = await prisma.product.findUnique({
+        where: { id },
+        include: productInclude()
+      });
+
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      res.json({
+        success: true,
+        data: this.formatProduct(product)
+      });
+    } catch (error) {
+      console.error('Error getting product:', error);
+      res.status(500).json({ error: 'Failed to get product' });
+    }
+  }
+
+  async createProduct(req: AuthRequest, res: Response) {
+    try {
+      const data = productSchema.parse(req.body);
+
+      // Opening stock is booked as an adjustment, so the ledger adds up to the stock from the start
+      const product = await prisma.$transaction(async tx => {
+        const created = await tx.product.create({
+          data,
+          include: productInclude()
+        });
+
+        if (data.currentStock > 0) {
+          await tx.stockMovement.create({
+            data: {
+              productId: created.id,
+              movementType: 'ADJUSTMENT',
+              quantity: data.currentStock,
+              notes: 'Opening stock',
+              createdBy: req.user?.id
+            }
+          });
+        }
+
+        return created;
+      });
+
+      if (data.unitPrice != null) {
+        await promotionService.recordPriceChange(product.id, data.unitPrice, req.user?.id);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: this.formatProduct(product),
+        message: 'Product created successfully'
+      });
+    } catch (error) {
+      this.handleWriteError(res, error, 'Failed to create product');
+    }
+  }
+
+  async updateProduct(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+
+      if (req.body && typeof req.body === 'object' && 'currentStock' in req.body) {
+        return res.status(400).json({ error: 'Stock cannot be set directly; record an inventory movement instead' });
+      }
+
+      const data = updateProductSchema.parse(req.body);
+
+      if (data.likeItemId === id) {
+        return res.status(400).json({ error: 'A product cannot be its own like item' });
+      }
+
+      const previous = data.unitPrice != null
+        ? await prisma.product.findUnique({ where: { id }, select: { unitPrice: true } })
+        : null;
+
+      const product = await prisma.product.update({
+        where: { id },
+        data,
+        include: productInclude()
+      });
+
+      // Every change of the regular price is kept, since forecasts learn price elasticity from it
+      if (previous && data.unitPrice != null && (previous.unitPrice === null || Number(previous.unitPrice) !== data.unitPrice)) {
+        await promotionService.recordPriceChange(id, data.unitPrice, req.user?.id);
+      }
+
+      if (data.likeItemId !== undefined) {
+        await coldStartService.likeItemChanged(id);
+      }
+
+      res.json({
+        success: true,
+        data: this.formatProduct(product),
+        message: 'Product updated successfully'
+      });
+    } catch (error) {
+      this.handleWriteError(res, error, 'Failed to update product');
+    }
+  }
+
+  async getPriceHistory(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const product = await prisma.product.findUnique({ where: { id }, select: { id: true } });
+      if (!product) {
+        return res.status(404).json({ error: 'Product not found' });
+      }
+
+      const prices = await promotionService.getPriceHistory(id);
+
+      res.json({
+        success: true,
+        data: prices,
+        metadata: { productId: id, count: prices.length }
+      });
+    } catch (error) {
+      console.error('Error getting price history:', error);
+      res.status(500).json({ error: 'Failed to get price history' });
+    }
+  }
+
+  async deleteProduct(req: Request, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const [movementCount, purchaseOrderLineCount] = await Promise.all([
+        prisma.stockMovement.count({ where: { productId: id } }),
+        prisma.purchaseOrderLine.count({ where: { productId: id } })
+      ]);
+
+      // Stock movements and purchase orders are the audit trail, so they are never deleted implicitly
+      if (movementCount > 0 || purchaseOrderLineCount > 0) {
+        return res.status(409).json({
+          error: 'Product has stock movement or purchase order history and cannot be deleted',
+          details: { stockMovements: movementCount, purchaseOrderLines: purchaseOrderLineCount }
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.forecast.deleteMany({ where: { productId: id } }),
+        prisma.alert.deleteMany({ where: { productId: id } }),
+        prisma.product.delete({ where: { id } })
+      ]);
+
+      res.json({
+        success: true,
+        message: 'Product deleted successfully'
+      });
+    } catch (error) {
+      this.handleWriteError(res, error, 'Failed to delete product');
+    }
+  }
+
+  private formatProduct(product: ProductWithRelations) {
+    const unitPrice = product.unitPrice ? Number(product.unitPrice) : 0;
+
+    return {
+      id: product.id,
+      name: product.name,
+      sku: product.sku,
+      category: {
+        id: product.category.id,
+        name: product.category.name,
+        description: product.category.description ?? ''
+      },
+      currentStock: product.currentStock,
+      predictedDemand: Math.round(product.forecasts.reduce((sum, f) => sum + f.predictedDemand, 0)),
+      reorderPoint: product.reorderPoint,
+      optimalStock: product.optimalStock,
+      supplier: {
+        id: product.supplier.id,
+        name: product.supplier.name,
+        contactInfo: product.supplier.contactEmail ?? product.supplier.contactPhone ?? '',
+        rating: product.supplier.rating
+      },
+      location: {
+        id: product.location.id,
+        name: product.location.name,
+        warehouse: product.location.warehouse,
+        zone: product.location.zone
+      },
+      velocity: product.velocity,
+      riskLevel: product.riskLevel,
+      demandPattern: product.demandPattern,
+      lastUpdated: product.updatedAt,
+      unitPrice,
+      unitCost: product.unitCost ? Number(product.unitCost) : null,
+      likeItemId: product.likeItemId,
+      totalValue: Math.round(product.currentStock * unitPrice * 100) / 100
+    };
+  }
+
+  private handleWriteError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      switch (error.code) {
+        case 'P2002':
+          return res.status(409).json({ error: 'A product with this SKU already exists' });
+        case 'P2003':
+          return res.status(400).json({ error: 'Referenced category, supplier, location or like item does not exist' });
+        case 'P2025':
+          return res.status(404).json({ error: 'Product not found' });
+      }
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,124 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { PromotionError, PromotionService } from '../services/promotionService';
+
+const promotionService = new PromotionService();
+
+// Validation schemas
+const listPromotionsSchema = z.object({
+  productId: z.string().optional(),
+  // Either bound may be left out; promotions overlapping the range are listed
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+const promotionFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  promotionType: z.enum(['PRICE_DISCOUNT', 'MULTI_BUY', 'DISPLAY', 'FLYER']),
+  // Share of the regular price taken off, e.g. 0.2 for 20% off
+  discountDepth: z.number().min(0).max(0.9).optional(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date()
+});
+
+const createPromotionSchema = promotionFieldsSchema.extend({
+  productId: z.string().min(1)
+}).refine(
+  data => data.endDate >= data.startDate,
+  { message: 'endDate must not be before startDate' }
+);
+
+const updatePromotionSchema = promotionFieldsSchema.partial().refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  { message: 'endDate must not be before startDate' }
+);
+
+export class PromotionController {
+  async getPromotions(req: Request, res: Response) {
+    try {
+      const filters = listPromotionsSchema.parse(req.query);
+
+      const promotions = await promotionService.listPromotions(filters);
+
+      res.json({
+        success: true,
+        data: promotions,
+        metadata: { ...filters, count: promotions.length }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get promotions');
+    }
+  }
+
+  async createPromotion(req: AuthRequest, res: Response) {
+    try {
+      const input = createPromotionSchema.parse(req.body);
+
+      const promotion = await promotionService.createPromotion(input, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: promotion,
+        message: 'Promotion created'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create promotion');
+    }
+  }
+
+  async updatePromotion(req: AuthRequest, res: Response) {
+    try {
+      const input = updatePromotionSchema.parse(req.body);
+
+      const promotion = await promotionService.updatePromotion(req.params.id, input);
+
+      if (!promotion) {
+        return res.status(404).json({ error: 'Promotion not found' });
+      }
+
+      res.json({
+        success: true,
+        data: promotion,
+        message: 'Promotion updated'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update promotion');
+    }
+  }
+
+  async deletePromotion(req: AuthRequest, res: Response) {
+    try {
+      const deleted = await promotionService.deletePromotion(req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Promotion not found' });
+      }
+
+      res.json({
+        success: true,
+        message: 'Promotion removed'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete promotion');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+      return res.status(400).json({ error: 'Referenced product does not exist' });
+    }
+
+    if (error instanceof PromotionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,203 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { PurchaseOrderError, PurchaseOrderService } from '../services/purchaseOrderService';
+import { SocketHandler } from '../websocket/socketHandler';
+
+const purchaseOrderService = new PurchaseOrderService();
+
+// Validation schemas
+const lineSchema = z.object({
+  productId: z.string().min(1),
+  quantity: z.number().int().positive(),
+  unitCost: z.number().nonnegative().optional()
+});
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1),
+  expectedDate: z.coerce.date().optional(),
+  notes: z.string().max(500).optional(),
+  lines: z.array(lineSchema).min(1).max(200)
+});
+
+const updatePurchaseOrderSchema = createPurchaseOrderSchema.omit({ supplierId: true }).partial().refine(
+  data => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+const transitionSchema = z.object({
+  status: z.enum(['SUBMITTED', 'CONFIRMED', 'CLOSED'])
+});
+
+const receiveSchema = z.object({
+  lines: z.array(z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().positive()
+  })).min(1).max(200)
+});
+
+const listPurchaseOrdersSchema = z.object({
+  status: z.enum(['DRAFT', 'SUBMITTED', 'CONFIRMED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED']).optional(),
+  supplierId: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(25)
+});
+
+export class PurchaseOrderController {
+  async getPurchaseOrders(req: Request, res: Response) {
+    try {
+      const filters = listPurchaseOrdersSchema.parse(req.query);
+
+      const { orders, hasMore, nextCursor } = await purchaseOrderService.list(filters);
+
+      res.json({
+        success: true,
+        data: orders,
+        metadata: {
+          count: orders.length,
+          hasMore,
+          nextCursor
+        }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get purchase orders');
+    }
+  }
+
+  async getPurchaseOrder(req: Request, res: Response) {
+    try {
+      const order = await purchaseOrderService.get(req.params.id);
+
+      res.json({
+        success: true,
+        data: order
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get purchase order');
+    }
+  }
+
+  async createPurchaseOrder(req: AuthRequest, res: Response) {
+    try {
+      const input = createPurchaseOrderSchema.parse(req.body);
+
+      const order = await purchaseOrderService.createDraft(input, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: order,
+        message: 'Purchase order created successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to create purchase order');
+    }
+  }
+
+  async updatePurchaseOrder(req: AuthRequest, res: Response) {
+    try {
+      const input = updatePurchaseOrderSchema.parse(req.body);
+
+      const order = await purchaseOrderService.updateDraft(req.params.id, input);
+
+      res.json({
+        success: true,
+        data: order,
+        message: 'Purchase order updated successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update purchase order');
+    }
+  }
+
+  async deletePurchaseOrder(req: AuthRequest, res: Response) {
+    try {
+      await purchaseOrderService.deleteDraft(req.params.id);
+
+      res.json({
+        success: true,
+        message: 'Purchase order deleted successfully'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete purchase order');
+    }
+  }
+
+  async updateStatus(req: AuthRequest, res: Response) {
+    try {
+      const { status } = transitionSchema.parse(req.body);
+
+      const order = await purchaseOrderService.transition(req.params.id, status);
+
+      res.json({
+        success: true,
+        data: order,
+        message: `Purchase order ${status.toLowerCase()}`
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update purchase order status');
+    }
+  }
+
+  async receivePurchaseOrder(req: AuthRequest, res: Response) {
+    try {
+      const { lines } = receiveSchema.parse(req.body);
+
+      const { order, received } = await purchaseOrderService.receive(req.params.id, lines, req.user?.id);
+
+      const socketHandler: SocketHandler | undefined = req.app.get('socketHandler');
+      received.forEach(item => {
+        socketHandler?.broadcastStockUpdate(item.productId, {
+          productName: item.productName,
+          movementId: item.movementId,
+          movementType: 'IN',
+          quantity: item.quantity,
+          previousStock: item.currentStock - item.quantity,
+          currentStock: item.currentStock,
+          reorderPoint: item.reorderPoint,
+          belowReorderPoint: item.currentStock <= item.reorderPoint
+        });
+      });
+
+      res.json({
+        success: true,
+        data: order,
+        message: order.status === 'RECEIVED' ? 'Purchase order fully received' : 'Partial receipt recorded'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to receive purchase order');
+    }
+  }
+
+  async generateDrafts(req: AuthRequest, res: Response) {
+    try {
+      const { orders, skipped } = await purchaseOrderService.generateDrafts(req.user?.id);
+
+      res.status(orders.length > 0 ? 201 : 200).json({
+        success: true,
+        data: orders,
+        metadata: {
+          created: orders.length,
+          lines: orders.reduce((sum, o) => sum + o.lines.length, 0),
+          skipped
+        },
+        message: orders.length > 0
+          ? `Generated ${orders.length} draft purchase orders`
+          : 'No products need reordering'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to generate purchase orders');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error instanceof PurchaseOrderError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
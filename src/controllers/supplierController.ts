@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { LeadTimeService } from '../services/leadTimeService';
+import { SupplierTermsError, SupplierTermsService } from '../services/supplierTermsService';
+
+const prisma = new PrismaClient();
+const leadTimeService = new LeadTimeService();
+const supplierTermsService = new SupplierTermsService();
+
+// Validation schemas
+const termsSchema = z.object({
+  minOrderQuantity: z.number().int().min(1).max(1000000).optional().default(1),
+  packSize: z.number().int().min(1).max(100000).optional().default(1),
+  priceBreaks: z.array(z.object({
+    minQuantity: z.number().int().min(2),
+    unitCost: z.number().nonnegative()
+  })).max(20).optional().default([])
+});
+
+export class SupplierController {
+  async getSuppliers(_req: Request, res: Response) {
+    try {
+      const suppliers = await prisma.supplier.findMany({
+        orderBy: { name: 'asc' },
+        include: { _count: { select: { products: true } } }
+      });
+
+      const leadTimes = await Promise.all(suppliers.map(s => leadTimeService.getSupplierLeadTime(s.id)));
+
+      res.json({
+        success: true,
+        data: suppliers.map((s, i) => ({
+          id: s.id,
+          name: s.name,
+          rating: s.rating,
+          productCount: s._count.products,
+          leadTime: leadTimes[i]
+        }))
+      });
+    } catch (error) {
+      console.error('Error getting suppliers:', error);
+      res.status(500).json({ error: 'Failed to get suppliers' });
+    }
+  }
+
+  async getSupplier(req: Request, res: Response) {
+    try {
+      const supplier = await prisma.supplier.findUnique({
+        where: { id: req.params.id },
+        include: { _count: { select: { products: true } } }
+      });
+
+      if (!supplier) {
+        return res.status(404).json({ error: 'Supplier not found' });
+      }
+
+      const { _count, ...details } = supplier;
+
+      res.json({
+        success: true,
+        data: { ...details, productCount: _count.products }
+      });
+    } catch (error) {
+      console.error('Error getting supplier:', error);
+      res.status(500).json({ error: 'Failed to get supplier' });
+    }
+  }
+
+  async getLeadTimes(req: Request, res: Response) {
+    try {
+      const supplier = await prisma.supplier.findUnique({
+        where: { id: req.params.id },
+        select: { id: true }
+      });
+
+      if (!supplier) {
+        return res.status(404).json({ error: 'Supplier not found' });
+      }
+
+      const distribution = await leadTimeService.getDistribution(supplier.id);
+
+      res.json({
+        success: true,
+        data: distribution
+      });
+    } catch (error) {
+      console.error('Error getting supplier lead times:', error);
+      res.status(500).json({ error: 'Failed to get supplier lead times' });
+    }
+  }
+
+  async getTerms(req: Request, res: Response) {
+    try {
+      const terms = await supplierTermsService.list(req.params.id);
+
+      res.json({
+        success: true,
+        data: terms,
+        metadata: { count: terms.length }
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to get supplier terms');
+    }
+  }
+
+  async updateTerms(req: Request, res: Response) {
+    try {
+      const input = termsSchema.parse(req.body);
+
+      const terms = await supplierTermsService.upsert(req.params.id, req.params.productId, input);
+
+      res.json({
+        success: true,
+        data: terms,
+        message: 'Supplier terms updated'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to update supplier terms');
+    }
+  }
+
+  async deleteTerms(req: Request, res: Response) {
+    try {
+      const deleted = await supplierTermsService.remove(req.params.id, req.params.productId);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'No terms stored for this product' });
+      }
+
+      res.json({
+        success: true,
+        message: 'Supplier terms removed'
+      });
+    } catch (error) {
+      this.handleError(res, error, 'Failed to delete supplier terms');
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Validation error', details: error.errors });
+    }
+    if (error instanceof SupplierTermsError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+
+    console.error(`${message}:`, error);
+    res.status(500).json({ error: message });
+  }
+}
@@ -0,0 +1,105 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { AuthRequest } from '../middleware/auth';
+import { forbidden, hasPermission } from '../middleware/authorize';
+
+const prisma = new PrismaClient();
+
+// Validation schemas
+const updateRoleSchema = z.object({
+  role: z.enum(['USER', 'MANAGER', 'ADMIN'])
+});
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  createdAt: true,
+  updatedAt: true
+};
+
+export class UserController {
+  async getUsers(_req: AuthRequest, res: Response) {
+    try {
+      const users = await prisma.user.findMany({
+        select: userSelect,
+        orderBy: { email: 'asc' }
+      });
+
+      res.json({
+        success: true,
+        data: users
+      });
+    } catch (error) {
+      console.error('Error getting users:', error);
+      res.status(500).json({ error: 'Failed to get users' });
+    }
+  }
+
+  async getUser(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: userSelect
+      });
+
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json({
+        success: true,
+        data: user
+      });
+    } catch (error) {
+      console.error('Error getting user:', error);
+      res.status(500).json({ error: 'Failed to get user' });
+    }
+  }
+
+  async updateRole(req: AuthRequest, res: Response) {
+    try {
+      const { id } = req.params;
+      const { role } = updateRoleSchema.parse(req.body);
+
+      if (req.user?.id === id) {
+        return res.status(403).json({ error: 'Forbidden', reason: 'Users cannot change their own role' });
+      }
+
+      const target = await prisma.user.findUnique({ where: { id }, select: userSelect });
+      if (!target) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      // Granting or revoking ADMIN is reserved for admins
+      if ((role === 'ADMIN' || target.role === 'ADMIN') && !hasPermission(req.user, 'users:assign-admin')) {
+        return forbidden(res, req.user, 'users:assign-admin');
+      }
+
+      // Revoke sessions so the new role applies once the current access token expires
+      const [user] = await prisma.$transaction([
+        prisma.user.update({ where: { id }, data: { role }, select: userSelect }),
+        prisma.refreshToken.updateMany({
+          where: { userId: id, revokedAt: null },
+          data: { revokedAt: new Date() }
+        })
+      ]);
+
+      res.json({
+        success: true,
+        data: user,
+        message: `Role updated to ${role}`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Validation error', details: error.errors });
+      }
+      console.error('Error updating user role:', error);
+      res.status(500).json({ error: 'Failed to update user role' });
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { AnalyticsPeriod, ProductFilters, ReconciliationMethod } from '../types';
+
+export const queryKeys = {
+  products: {
+    all: ['products'] as const,
+    list: (filters: ProductFilters) => ['products', 'list', filters] as const,
+    categories: ['products', 'categories'] as const,
+  },
+  suppliers: {
+    all: ['suppliers'] as const,
+    leadTimes: (supplierId: string) => ['suppliers', supplierId, 'lead-times'] as const,
+    terms: (supplierId: string) => ['suppliers', supplierId, 'terms'] as const,
+  },
+  alerts: ['alerts'] as const,
+  activity: ['activity'] as const,
+  analytics: (period: AnalyticsPeriod, reconciliation: ReconciliationMethod) => ['analytics', period, reconciliation] as const,
+  forecasting: {
+    all: ['forecasting'] as const,
+    series: (days: number, categoryId?: string) => ['forecasting', 'series', days, categoryId ?? 'all'] as const,
+    metrics: (days: number, categoryId?: string) => ['forecasting', 'metrics', days, categoryId ?? 'all'] as const,
+    recommendations: ['forecasting', 'recommendations'] as const,
+  },
+  calendar: {
+    events: (from: string, to: string) => ['calendar', 'events', from, to] as const,
+  },
+  optimizationParameters: {
+    all: ['optimization-parameters'] as const,
+    global: ['optimization-parameters', 'global'] as const,
+    abcClasses: ['optimization-parameters', 'abc-classes'] as const,
+  },
+};
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { activityApi } from '../api/activity';
+import { queryKeys } from './queryKeys';
+
+export const useActivityFeed = () => {
+  return useQuery({
+    queryKey: queryKeys.activity,
+    queryFn: () => activityApi.list(),
+    refetchInterval: 60 * 1000,
+  });
+};
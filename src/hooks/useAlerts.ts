@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { alertsApi } from '../api/alerts';
+import { Alert } from '../types';
+import { queryKeys } from './queryKeys';
+
+export const useAlerts = () => {
+  return useQuery({
+    queryKey: queryKeys.alerts,
+    queryFn: alertsApi.list,
+    refetchInterval: 60 * 1000,
+  });
+};
+
+export const useDismissAlert = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: alertsApi.dismiss,
+    // Remove the alert immediately and restore it if the server rejects the dismissal
+    onMutate: async (id: string) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.alerts });
+      const previous = queryClient.getQueryData<Alert[]>(queryKeys.alerts);
+      queryClient.setQueryData<Alert[]>(queryKeys.alerts, (alerts) => alerts?.filter(alert => alert.id !== id));
+      return { previous };
+    },
+    onError: (_error, _id, context) => {
+      queryClient.setQueryData(queryKeys.alerts, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts });
+    },
+  });
+};
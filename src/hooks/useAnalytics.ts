@@ -0,0 +1,14 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { analyticsApi } from '../api/analytics';
+import { AnalyticsPeriod, ReconciliationMethod } from '../types';
+import { queryKeys } from './queryKeys';
+
+export const useAnalytics = (period: AnalyticsPeriod, reconciliation: ReconciliationMethod = 'MINT') => {
+  return useQuery({
+    queryKey: queryKeys.analytics(period, reconciliation),
+    queryFn: () => analyticsApi.get(period, reconciliation),
+    staleTime: 5 * 60 * 1000,
+    // Keep the current charts on screen while another period loads
+    placeholderData: keepPreviousData,
+  });
+};
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { calendarApi } from '../api/calendar';
+import { queryKeys } from './queryKeys';
+
+// Events whose window overlaps the range; disabled until the range is known
+export const useCalendarEvents = (from?: string, to?: string) => {
+  return useQuery({
+    queryKey: queryKeys.calendar.events(from ?? '', to ?? ''),
+    queryFn: () => calendarApi.events(from!, to!),
+    enabled: Boolean(from && to),
+    staleTime: 60 * 60 * 1000,
+  });
+};
@@ -0,0 +1,38 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { forecastingApi } from '../api/forecasting';
+import { queryKeys } from './queryKeys';
+
+export const useForecastSeries = (days: number, categoryId?: string) => {
+  return useQuery({
+    queryKey: queryKeys.forecasting.series(days, categoryId),
+    queryFn: () => forecastingApi.series(days, categoryId),
+  });
+};
+
+export const useForecastMetrics = (days: number, categoryId?: string) => {
+  return useQuery({
+    queryKey: queryKeys.forecasting.metrics(days, categoryId),
+    queryFn: () => forecastingApi.metrics(days, categoryId),
+  });
+};
+
+export const useOptimizationRecommendations = () => {
+  return useQuery({
+    queryKey: queryKeys.forecasting.recommendations,
+    queryFn: forecastingApi.recommendations,
+    staleTime: 15 * 60 * 1000,
+  });
+};
+
+export const useApplyOptimization = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: forecastingApi.applyOptimization,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.forecasting.recommendations });
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.activity });
+    },
+  });
+};
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { optimizationParametersApi } from '../api/optimizationParameters';
+import { queryKeys } from './queryKeys';
+
+export const useOptimizationParameters = () => {
+  return useQuery({
+    queryKey: queryKeys.optimizationParameters.all,
+    queryFn: optimizationParametersApi.list,
+  });
+};
+
+export const useGlobalParameters = () => {
+  return useQuery({
+    queryKey: queryKeys.optimizationParameters.global,
+    queryFn: optimizationParametersApi.global,
+  });
+};
+
+export const useAbcClasses = () => {
+  return useQuery({
+    queryKey: queryKeys.optimizationParameters.abcClasses,
+    queryFn: optimizationParametersApi.abcClasses,
+    staleTime: 60 * 60 * 1000,
+  });
+};
+
+// Any change can move optimal stock, so recommendations are refetched too
+const useParameterMutation = <T,>(mutationFn: (input: T) => Promise<void>) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.optimizationParameters.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.forecasting.recommendations });
+    },
+  });
+};
+
+export const useUpdateGlobalParameters = () => useParameterMutation(optimizationParametersApi.updateGlobal);
+
+export const useUpdateParameters = () => useParameterMutation(optimizationParametersApi.update);
+
+export const useDeleteParameters = () => useParameterMutation(optimizationParametersApi.remove);
@@ -0,0 +1,30 @@
+import { useAuthStore } from '../store/useAuthStore';
+import { Role, User } from '../types';
+
+// Mirrors the server-side map in src/middleware/authorize.ts. This only decides what the UI
+// offers; the API still enforces every permission.
+const permissions = {
+  'ai:optimize:apply': ['MANAGER', 'ADMIN'],
+  'ai:models:manage': ['MANAGER', 'ADMIN'],
+  'inventory:adjust': ['MANAGER', 'ADMIN'],
+  'products:manage': ['MANAGER', 'ADMIN'],
+  'purchasing:manage': ['MANAGER', 'ADMIN'],
+  'optimization:configure': ['MANAGER', 'ADMIN'],
+  'calendar:manage': ['MANAGER', 'ADMIN'],
+  'promotions:manage': ['MANAGER', 'ADMIN'],
+  'users:read': ['MANAGER', 'ADMIN'],
+  'users:manage': ['MANAGER', 'ADMIN'],
+  'users:assign-admin': ['ADMIN'],
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const hasPermission = (user: User | null, permission: Permission): boolean => {
+  if (!user) return false;
+  return (permissions[permission] as Role[]).includes(user.role);
+};
+
+export const usePermission = (permission: Permission): boolean => {
+  const user = useAuthStore((state) => state.user);
+  return hasPermission(user, permission);
+};
@@ -0,0 +1,33 @@
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { productsApi } from '../api/products';
+import { ProductFilters } from '../types';
+import { queryKeys } from './queryKeys';
+
+export const useProducts = (filters: ProductFilters = {}) => {
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.list(filters),
+    queryFn: ({ pageParam }) => productsApi.list(filters, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+};
+
+export const useCategories = () => {
+  return useQuery({
+    queryKey: queryKeys.products.categories,
+    queryFn: productsApi.categories,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useDeleteProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: productsApi.remove,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+    },
+  });
+};
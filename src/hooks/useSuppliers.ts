@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { suppliersApi } from '../api/suppliers';
+import { queryKeys } from './queryKeys';
+
+export const useSuppliers = () => {
+  return useQuery({
+    queryKey: queryKeys.suppliers.all,
+    queryFn: suppliersApi.list,
+    staleTime: 10 * 60 * 1000,
+  });
+};
+
+export const useSupplierLeadTimes = (supplierId?: string) => {
+  return useQuery({
+    queryKey: queryKeys.suppliers.leadTimes(supplierId ?? ''),
+    queryFn: () => suppliersApi.leadTimes(supplierId!),
+    enabled: Boolean(supplierId),
+  });
+};
+
+export const useSupplierTerms = (supplierId?: string) => {
+  return useQuery({
+    queryKey: queryKeys.suppliers.terms(supplierId ?? ''),
+    queryFn: () => suppliersApi.terms(supplierId!),
+    enabled: Boolean(supplierId),
+  });
+};
@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, AuthUser } from './auth';
+
+type Role = AuthUser['role'];
+
+// Roles allowed to perform each permission. Routes reference permissions, never raw roles.
+export const permissions = {
+  'ai:optimize:apply': ['MANAGER', 'ADMIN'],
+  'ai:models:manage': ['MANAGER', 'ADMIN'],
+  'inventory:adjust': ['MANAGER', 'ADMIN'],
+  'inventory:override-negative': ['MANAGER', 'ADMIN'],
+  'products:manage': ['MANAGER', 'ADMIN'],
+  'purchasing:manage': ['MANAGER', 'ADMIN'],
+  'optimization:configure': ['MANAGER', 'ADMIN'],
+  'calendar:manage': ['MANAGER', 'ADMIN'],
+  'promotions:manage': ['MANAGER', 'ADMIN'],
+  'users:read': ['MANAGER', 'ADMIN'],
+  'users:manage': ['MANAGER', 'ADMIN'],
+  'users:assign-admin': ['ADMIN']
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const hasPermission = (user: AuthUser | undefined, permission: Permission): boolean => {
+  if (!user) return false;
+  return (permissions[permission] as Role[]).includes(user.role);
+};
+
+export const describeDenial = (user: AuthUser | undefined, permission: Permission): string => {
+  const allowed = (permissions[permission] as Role[]).join(' or ');
+  return `Permission '${permission}' requires role ${allowed}; current role is ${user?.role ?? 'none'}`;
+};
+
+export const forbidden = (res: Response, user: AuthUser | undefined, permission: Permission) => {
+  return res.status(403).json({
+    error: 'Forbidden',
+    reason: describeDenial(user, permission),
+    permission
+  });
+};
+
+export const requirePermission = (permission: Permission) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Access token required' });
+    }
+
+    if (!hasPermission(req.user, permission)) {
+      return forbidden(res, req.user, permission);
+    }
+
+    next();
+  };
+};
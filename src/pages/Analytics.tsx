@@ -1,19 +1,28 @@
-import React, { useEffect } from 'react';
-import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import React, { useState } from 'react';
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { TrendingUp, DollarSign, Package, Activity } from 'lucide-react';
 import { ChartContainer } from '../components/ui/ChartContainer';
-import { useInventoryStore } from '../store/useInventoryStore';
-import { mockAnalyticsData } from '../data/mockData';
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { AnalyticsPeriod, HierarchyNode, ReconciliationMethod } from '../types';
+
+const RECONCILIATION_LABELS: Record<ReconciliationMethod, string> = {
+  MINT: 'MinT (minimum trace)',
+  BOTTOM_UP: 'Bottom-up',
+  TOP_DOWN: 'Top-down',
+};
 
 export const Analytics: React.FC = () => {
-  const { analyticsData, setAnalyticsData } = useInventoryStore();
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+  const [reconciliation, setReconciliation] = useState<ReconciliationMethod>('MINT');
+  const { data: analyticsData, isPending, isError, error, refetch } = useAnalytics(period, reconciliation);
 
-  useEffect(() => {
-    setAnalyticsData(mockAnalyticsData);
-  }, [setAnalyticsData]);
+  if (isPending) {
+    return <LoadingState message="Loading analytics..." />;
+  }
 
-  if (!analyticsData) {
-    return <div>Loading...</div>;
+  if (isError) {
+    return <ErrorState error={error} onRetry={() => refetch()} />;
   }
 
   const performanceCards = [
@@ -47,6 +56,40 @@ export const Analytics: React.FC = () => {
     },
   ];
 
+  const { demandForecast } = analyticsData;
+  const forecastBars = (nodes: HierarchyNode[]) => nodes.map(node => ({
+    name: node.name,
+    recent: node.recentTotal,
+    base: node.baseTotal,
+    reconciled: node.reconciledTotal,
+  }));
+  const forecastChange = demandForecast.total.recentTotal > 0
+    ? (demandForecast.total.reconciledTotal / demandForecast.total.recentTotal - 1) * 100
+    : null;
+
+  const renderForecastChart = (nodes: HierarchyNode[]) => (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart data={forecastBars(nodes)}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+        <XAxis dataKey="name" stroke="#6B7280" fontSize={12} />
+        <YAxis stroke="#6B7280" fontSize={12} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: '#FFFFFF',
+            border: '1px solid #E5E7EB',
+            borderRadius: '8px',
+            fontSize: '12px'
+          }}
+          formatter={(value) => [`${Number(value).toLocaleString()} units`, '']}
+        />
+        <Legend />
+        <Bar dataKey="recent" fill="#9CA3AF" name={`Last ${demandForecast.horizon} days`} />
+        <Bar dataKey="base" fill="#93C5FD" name="Base forecast" />
+        <Bar dataKey="reconciled" fill="#3B82F6" name="Reconciled forecast" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+
   return (
     <div className="space-y-6">
       {/* Page Header */}
@@ -61,10 +104,14 @@ export const Analytics: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-3">
-          <select className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-            <option>Last 30 Days</option>
-            <option>Last 90 Days</option>
-            <option>Last Year</option>
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="30d">Last 30 Days</option>
+            <option value="90d">Last 90 Days</option>
+            <option value="1y">Last Year</option>
           </select>
           <button className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
             Generate Report
@@ -148,6 +195,40 @@ export const Analytics: React.FC = () => {
         </ChartContainer>
       </div>
 
+      {/* Demand Forecast, reconciled so that categories and warehouses add up to the total */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Demand Forecast — Next {demandForecast.horizon} Days
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {Math.round(demandForecast.total.reconciledTotal).toLocaleString()} units across all products
+              {forecastChange !== null && ` (${forecastChange >= 0 ? '+' : ''}${forecastChange.toFixed(1)}% vs last ${demandForecast.horizon} days)`}
+            </p>
+          </div>
+          <select
+            value={reconciliation}
+            onChange={(e) => setReconciliation(e.target.value as ReconciliationMethod)}
+            className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            {(Object.keys(RECONCILIATION_LABELS) as ReconciliationMethod[]).map(method => (
+              <option key={method} value={method}>{RECONCILIATION_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartContainer title="Forecast by Category">
+          {renderForecastChart(demandForecast.categories)}
+        </ChartContainer>
+
+        <ChartContainer title="Forecast by Warehouse">
+          {renderForecastChart(demandForecast.warehouses)}
+        </ChartContainer>
+      </div>
+
       {/* Detailed Analytics */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Top Performing Products */}
@@ -1,31 +1,72 @@
-import React, { useEffect } from 'react';
+import React, { useState } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { MetricCard } from '../components/ui/MetricCard';
 import { AlertPanel } from '../components/ui/AlertPanel';
 import { ActivityFeed } from '../components/ui/ActivityFeed';
 import { ChartContainer } from '../components/ui/ChartContainer';
-import { useInventoryStore } from '../store/useInventoryStore';
-import { mockKPIMetrics, mockAlerts, mockActivityFeed } from '../data/mockData';
-
-// Mock KPI data for the chart
-const kpiChartData = [
-  { time: '00:00', value: 85 },
-  { time: '04:00', value: 78 },
-  { time: '08:00', value: 92 },
-  { time: '12:00', value: 88 },
-  { time: '16:00', value: 95 },
-  { time: '20:00', value: 91 },
-  { time: '24:00', value: 89 },
-];
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
+import { useAlerts } from '../hooks/useAlerts';
+import { useActivityFeed } from '../hooks/useActivity';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { useProducts } from '../hooks/useProducts';
+import { useOptimizationRecommendations } from '../hooks/useForecasting';
+import { usePermission } from '../hooks/usePermission';
+import { AnalyticsPeriod, KPIMetric } from '../types';
 
 export const Dashboard: React.FC = () => {
-  const { setAlerts, setActivityFeed, alerts, activityFeed } = useInventoryStore();
+  const [period, setPeriod] = useState<AnalyticsPeriod>('30d');
+
+  const products = useProducts();
+  const alerts = useAlerts();
+  const activity = useActivityFeed();
+  const analytics = useAnalytics(period);
+  const recommendations = useOptimizationRecommendations();
+  const canManageModels = usePermission('ai:models:manage');
+
+  const inventoryValue = analytics.data?.categoryDistribution.reduce((sum, c) => sum + c.value, 0) ?? 0;
+  const reorderCount = recommendations.data?.filter(r => r.priority === 'CRITICAL' || r.priority === 'HIGH').length ?? 0;
+  const demandForecast = analytics.data?.demandForecast;
+  const forecastChange = demandForecast && demandForecast.total.recentTotal > 0
+    ? (demandForecast.total.reconciledTotal / demandForecast.total.recentTotal - 1) * 100
+    : null;
 
-  useEffect(() => {
-    // Load initial data
-    setAlerts(mockAlerts);
-    setActivityFeed(mockActivityFeed);
-  }, [setAlerts, setActivityFeed]);
+  const kpiMetrics: KPIMetric[] = [
+    {
+      label: 'Total Products',
+      value: products.data ? products.data.pages[0].total.toLocaleString() : '—',
+      change: recommendations.data ? `${reorderCount} to reorder` : '',
+      trend: 'neutral',
+      icon: 'Package',
+    },
+    {
+      label: 'Critical Alerts',
+      value: alerts.data ? String(alerts.data.filter(a => a.type === 'critical').length) : '—',
+      change: alerts.data ? `${alerts.data.length} open` : '',
+      trend: 'neutral',
+      icon: 'AlertTriangle',
+    },
+    {
+      label: 'Inventory Value',
+      value: analytics.data ? `$${Math.round(inventoryValue).toLocaleString()}` : '—',
+      change: analytics.data ? `${analytics.data.categoryDistribution.length} categories` : '',
+      trend: 'neutral',
+      icon: 'DollarSign',
+    },
+    {
+      label: 'Forecast Accuracy',
+      value: analytics.data ? `${analytics.data.performanceScores.accuracy}%` : '—',
+      change: period,
+      trend: 'neutral',
+      icon: 'Target',
+    },
+    {
+      label: `Forecast Demand (${demandForecast?.horizon ?? 30}d)`,
+      value: demandForecast ? `${Math.round(demandForecast.total.reconciledTotal).toLocaleString()} units` : '—',
+      change: forecastChange !== null ? `${forecastChange >= 0 ? '+' : ''}${forecastChange.toFixed(1)}% vs last ${demandForecast!.horizon}d` : '',
+      trend: forecastChange === null ? 'neutral' : forecastChange >= 0 ? 'up' : 'down',
+      icon: 'TrendingUp',
+    },
+  ];
 
   return (
     <div className="space-y-6">
@@ -40,8 +81,8 @@ export const Dashboard: React.FC = () => {
       </div>
 
       {/* KPI Metrics */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        {mockKPIMetrics.map((metric, index) => (
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {kpiMetrics.map((metric, index) => (
           <MetricCard
             key={index}
             label={metric.label}
@@ -58,17 +99,26 @@ export const Dashboard: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* KPI Chart */}
         <ChartContainer
-          title="Performance Overview (Last 24 Hours)"
+          title="Revenue Overview"
           actions={
-            <select className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-              <option>Last 24 Hours</option>
-              <option>Last 7 Days</option>
-              <option>Last 30 Days</option>
+            <select
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as AnalyticsPeriod)}
+              className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="30d">Last 30 Days</option>
+              <option value="90d">Last 90 Days</option>
+              <option value="1y">Last Year</option>
             </select>
           }
         >
+          {analytics.isPending ? (
+            <LoadingState className="h-full" />
+          ) : analytics.isError ? (
+            <ErrorState error={analytics.error} onRetry={() => analytics.refetch()} className="h-full" />
+          ) : (
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={kpiChartData}>
+            <AreaChart data={analytics.data.turnoverMetrics}>
               <defs>
                 <linearGradient id="colorGradient" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#3B82F6" stopOpacity={0.8}/>
@@ -77,7 +127,7 @@ export const Dashboard: React.FC = () => {
               </defs>
               <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
               <XAxis 
-                dataKey="time" 
+                dataKey="period" 
                 stroke="#6B7280"
                 fontSize={12}
               />
@@ -95,7 +145,7 @@ export const Dashboard: React.FC = () => {
               />
               <Area
                 type="monotone"
-                dataKey="value"
+                dataKey="revenue"
                 stroke="#3B82F6"
                 strokeWidth={2}
                 fillOpacity={1}
@@ -103,6 +153,7 @@ export const Dashboard: React.FC = () => {
               />
             </AreaChart>
           </ResponsiveContainer>
+          )}
         </ChartContainer>
 
         {/* Quick Actions */}
@@ -117,18 +168,20 @@ export const Dashboard: React.FC = () => {
                 Generate Reorder Report
               </span>
               <span className="text-xs text-gray-500 dark:text-gray-400">
-                34 items below threshold
+                {reorderCount} items below threshold
               </span>
             </button>
             
-            <button className="w-full flex items-center justify-between p-3 text-left border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
-              <span className="text-sm font-medium text-gray-900 dark:text-white">
-                Update Forecast Model
-              </span>
-              <span className="text-xs text-gray-500 dark:text-gray-400">
-                Last updated 2h ago
-              </span>
-            </button>
+            {canManageModels && (
+              <button className="w-full flex items-center justify-between p-3 text-left border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  Update Forecast Model
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  Last updated 2h ago
+                </span>
+              </button>
+            )}
             
             <button className="w-full flex items-center justify-between p-3 text-left border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
               <span className="text-sm font-medium text-gray-900 dark:text-white">
@@ -153,8 +206,16 @@ export const Dashboard: React.FC = () => {
 
       {/* Alerts and Activity Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        <AlertPanel alerts={alerts} />
-        <ActivityFeed activities={activityFeed} />
+        {alerts.isError ? (
+          <ErrorState error={alerts.error} onRetry={() => alerts.refetch()} />
+        ) : (
+          <AlertPanel alerts={alerts.data ?? []} />
+        )}
+        {activity.isError ? (
+          <ErrorState error={activity.error} onRetry={() => activity.refetch()} />
+        ) : (
+          <ActivityFeed activities={activity.data ?? []} />
+        )}
       </div>
     </div>
   );
@@ -1,50 +1,86 @@
-import React, { useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { TrendingUp, Target, Calendar, Download } from 'lucide-react';
+import React, { useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceArea, ReferenceLine } from 'recharts';
+import { Target, Download } from 'lucide-react';
 import { ChartContainer } from '../components/ui/ChartContainer';
-import { useInventoryStore } from '../store/useInventoryStore';
-import { mockForecastData } from '../data/mockData';
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
+import { useCategories } from '../hooks/useProducts';
+import {
+  useApplyOptimization,
+  useForecastMetrics,
+  useForecastSeries,
+  useOptimizationRecommendations,
+} from '../hooks/useForecasting';
+import { useCalendarEvents } from '../hooks/useCalendar';
+import { usePermission } from '../hooks/usePermission';
+import { CalendarEvent, OptimizationRecommendation } from '../types';
+
+const formatPercent = (ratio: number | null) => ratio !== null ? `${(ratio * 100).toFixed(1)}%` : 'n/a';
+
+const addDays = (day: string, days: number) =>
+  new Date(Date.parse(day) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const EVENT_COLORS: Record<CalendarEvent['eventType'], string> = {
+  HOLIDAY: '#EF4444',
+  PAYDAY: '#9CA3AF',
+  STORE_EVENT: '#8B5CF6',
+};
+
+const STOCKOUT_COLOR = '#6B7280';
+
+// How far ahead the upcoming events card looks
+const UPCOMING_EVENT_DAYS = 90;
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000));
 
 export const Forecasting: React.FC = () => {
-  const { forecastData, setForecastData } = useInventoryStore();
+  const [days, setDays] = useState(30);
+  const [categoryId, setCategoryId] = useState('');
+
+  const series = useForecastSeries(days, categoryId || undefined);
+  const firstDay = series.data?.[0]?.date;
+  const lastDay = series.data?.[series.data.length - 1]?.date;
+  const events = useCalendarEvents(firstDay, lastDay);
+  const today = new Date().toISOString().split('T')[0];
+  const upcoming = useCalendarEvents(today, addDays(today, UPCOMING_EVENT_DAYS));
+  const metrics = useForecastMetrics(days, categoryId || undefined);
+  const recommendations = useOptimizationRecommendations();
+  const categories = useCategories();
+  const applyOptimization = useApplyOptimization();
+  const canApply = usePermission('ai:optimize:apply');
 
-  useEffect(() => {
-    setForecastData(mockForecastData);
-  }, [setForecastData]);
+  // The first row aggregates every model version
+  const overall = metrics.data?.[0];
 
   const accuracyMetrics = [
-    { label: 'Overall Accuracy', value: '94.2%', change: '+2.1%', trend: 'up' as const },
-    { label: 'Mean Absolute Error', value: '3.8%', change: '-0.5%', trend: 'down' as const },
-    { label: 'Forecast Bias', value: '1.2%', change: '+0.3%', trend: 'up' as const },
-    { label: 'Seasonal Index', value: '1.15', change: '+0.05', trend: 'up' as const },
+    { label: 'Overall Accuracy', value: overall ? formatPercent(overall.accuracy) : '—', detail: '1 - WAPE' },
+    { label: 'Mean Absolute Error', value: overall ? `${overall.mae} units` : '—', detail: 'per product-day' },
+    { label: 'Forecast Bias', value: overall ? `${overall.bias > 0 ? '+' : ''}${overall.bias} units` : '—', detail: 'positive = over-forecast' },
+    { label: 'Scored Forecasts', value: overall ? overall.comparisons.toLocaleString() : '—', detail: `last ${days} days` },
   ];
 
-  const aiRecommendations = [
-    {
-      id: '1',
-      type: 'optimization',
-      title: 'Stock Level Optimization',
-      description: 'Reduce Wireless Bluetooth Headphones inventory by 15% to improve turnover',
-      impact: 'Cost savings: $4,200',
-      confidence: 94,
-    },
-    {
-      id: '2',
-      type: 'reorder',
-      title: 'Reorder Point Adjustment',
-      description: 'Increase Smart Fitness Tracker reorder point from 25 to 35 units',
-      impact: 'Service level: +5.2%',
-      confidence: 89,
-    },
-    {
-      id: '3',
-      type: 'seasonal',
-      title: 'Seasonal Demand Pattern',
-      description: 'Prepare for 40% increase in Organic Cotton T-Shirt demand next month',
-      impact: 'Revenue opportunity: $12,800',
-      confidence: 96,
-    },
-  ];
+  // Clipped to the chart, since reference areas need x values that are on the axis
+  const clip = (day: string) => day < firstDay! ? firstDay! : day > lastDay! ? lastDay! : day;
+  // Events come back when any part of their window is on the chart; their own days may not be
+  const onChart = (event: CalendarEvent) => event.endDate >= firstDay! && event.startDate <= lastDay!;
+  const overlays = events.data?.filter(event => event.eventType !== 'PAYDAY') ?? [];
+  const paydays = events.data?.filter(event => event.eventType === 'PAYDAY' && onChart(event)) ?? [];
+  // Paydays recur every couple of weeks, so only holidays and store events are listed
+  const upcomingEvents = upcoming.data
+    ?.filter(event => event.eventType !== 'PAYDAY' && event.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate)) ?? [];
+  // History days on which some product was out of stock, so their actual demand is censored
+  const stockoutDays = series.data?.filter(point => (point.censoredProducts ?? 0) > 0) ?? [];
+
+  const getPriorityColor = (priority: OptimizationRecommendation['priority']) => {
+    switch (priority) {
+      case 'CRITICAL':
+        return 'text-red-600 dark:text-red-400';
+      case 'HIGH':
+        return 'text-amber-600 dark:text-amber-400';
+      default:
+        return 'text-green-600 dark:text-green-400';
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -60,10 +96,14 @@ export const Forecasting: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-3">
-          <select className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-            <option>Last 7 Days</option>
-            <option>Last 30 Days</option>
-            <option>Last 90 Days</option>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value={7}>Last 7 Days</option>
+            <option value={30}>Last 30 Days</option>
+            <option value={90}>Last 90 Days</option>
           </select>
           <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
             <Download className="w-4 h-4" />
@@ -85,14 +125,9 @@ export const Forecasting: React.FC = () => {
                   {metric.value}
                 </p>
               </div>
-              <div className={`flex items-center gap-1 text-sm font-medium ${
-                metric.trend === 'up' 
-                  ? 'text-green-600 dark:text-green-400' 
-                  : 'text-red-600 dark:text-red-400'
-              }`}>
-                <TrendingUp className={`w-4 h-4 ${metric.trend === 'down' ? 'rotate-180' : ''}`} />
-                <span>{metric.change}</span>
-              </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {metric.detail}
+              </span>
             </div>
           </div>
         ))}
@@ -102,22 +137,25 @@ export const Forecasting: React.FC = () => {
       <ChartContainer
         title="Demand Forecast Analysis"
         actions={
-          <div className="flex items-center gap-2">
-            <button className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors">
-              <Calendar className="w-4 h-4" />
-              Date Range
-            </button>
-            <select className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white">
-              <option>All Products</option>
-              <option>Electronics</option>
-              <option>Clothing</option>
-              <option>Home & Garden</option>
-            </select>
-          </div>
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          >
+            <option value="">All Products</option>
+            {categories.data?.map(category => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
         }
       >
+        {series.isPending ? (
+          <LoadingState className="h-full" />
+        ) : series.isError ? (
+          <ErrorState error={series.error} onRetry={() => series.refetch()} className="h-full" />
+        ) : (
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={forecastData}>
+          <LineChart data={series.data}>
             <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
             <XAxis 
               dataKey="date" 
@@ -137,6 +175,55 @@ export const Forecasting: React.FC = () => {
               }}
             />
             <Legend />
+            {overlays.filter(event => event.leadDays + event.lagDays > 0).map(event => (
+              <ReferenceArea
+                key={`${event.name}-${event.startDate}-window`}
+                x1={clip(addDays(event.startDate, -event.leadDays))}
+                x2={clip(addDays(event.endDate, event.lagDays))}
+                fill={EVENT_COLORS[event.eventType]}
+                fillOpacity={0.06}
+                ifOverflow="hidden"
+              />
+            ))}
+            {overlays.filter(onChart).map(event => {
+              const label = { value: event.name, position: 'insideTop' as const, fontSize: 11, fill: EVENT_COLORS[event.eventType] };
+              // Single days have no width on the date axis, so they are drawn as lines
+              return event.startDate === event.endDate ? (
+                <ReferenceLine
+                  key={`${event.name}-${event.startDate}`}
+                  x={event.startDate}
+                  stroke={EVENT_COLORS[event.eventType]}
+                  label={label}
+                />
+              ) : (
+                <ReferenceArea
+                  key={`${event.name}-${event.startDate}`}
+                  x1={clip(event.startDate)}
+                  x2={clip(event.endDate)}
+                  fill={EVENT_COLORS[event.eventType]}
+                  fillOpacity={0.18}
+                  ifOverflow="hidden"
+                  label={label}
+                />
+              );
+            })}
+            {paydays.map(event => (
+              <ReferenceLine
+                key={`payday-${event.startDate}`}
+                x={event.startDate}
+                stroke={EVENT_COLORS.PAYDAY}
+                strokeDasharray="2 4"
+              />
+            ))}
+            {stockoutDays.map(point => (
+              <ReferenceLine
+                key={`stockout-${point.date}`}
+                x={point.date}
+                stroke={STOCKOUT_COLOR}
+                strokeOpacity={0.2}
+                strokeWidth={10}
+              />
+            ))}
             <Line
               type="monotone"
               dataKey="actual"
@@ -145,6 +232,15 @@ export const Forecasting: React.FC = () => {
               name="Actual Demand"
               dot={{ fill: '#10B981', strokeWidth: 2, r: 4 }}
             />
+            <Line
+              type="monotone"
+              dataKey="estimated"
+              stroke="#10B981"
+              strokeWidth={2}
+              strokeDasharray="3 3"
+              name="Estimated Demand (stockout days)"
+              dot={{ fill: '#FFFFFF', stroke: '#10B981', strokeWidth: 2, r: 4 }}
+            />
             <Line
               type="monotone"
               dataKey="predicted"
@@ -164,9 +260,10 @@ export const Forecasting: React.FC = () => {
             />
           </LineChart>
         </ResponsiveContainer>
+        )}
       </ChartContainer>
 
-      {/* AI Recommendations and Seasonal Analysis */}
+      {/* AI Recommendations and Upcoming Events */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* AI Recommendations */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
@@ -176,123 +273,139 @@ export const Forecasting: React.FC = () => {
             </h3>
             <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
               <Target className="w-4 h-4" />
-              <span>Updated 1h ago</span>
+              <span>{recommendations.data ? `${recommendations.data.length} opportunities` : 'Analyzing...'}</span>
             </div>
           </div>
-          
+
+          {recommendations.isPending && <LoadingState message="Running stock optimization..." />}
+          {recommendations.isError && (
+            <ErrorState error={recommendations.error} onRetry={() => recommendations.refetch()} />
+          )}
+          {applyOptimization.isError && (
+            <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+              {applyOptimization.error.message}
+            </p>
+          )}
+          {recommendations.isSuccess && recommendations.data.length === 0 && (
+            <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              Stock levels are already close to optimal
+            </p>
+          )}
+
           <div className="space-y-4">
-            {aiRecommendations.map((recommendation) => (
-              <div key={recommendation.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
+            {recommendations.data?.map(({ product, optimization, priority }) => (
+              <div key={product.id} className="border border-gray-200 dark:border-gray-600 rounded-lg p-4">
                 <div className="flex items-start justify-between mb-2">
                   <h4 className="text-sm font-medium text-gray-900 dark:text-white">
-                    {recommendation.title}
+                    {product.name}
                   </h4>
                   <div className="flex items-center gap-1 text-xs">
-                    <span className="text-gray-500 dark:text-gray-400">Confidence:</span>
-                    <span className="font-medium text-green-600 dark:text-green-400">
-                      {recommendation.confidence}%
+                    <span className="text-gray-500 dark:text-gray-400">Priority:</span>
+                    <span className={`font-medium ${getPriorityColor(priority)}`}>
+                      {priority}
                     </span>
                   </div>
                 </div>
                 
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                  {recommendation.description}
+                  Adjust stock from {optimization.currentStock} to {optimization.optimalStock} units and reorder at {optimization.reorderPoint}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  Class {optimization.serviceLevel.abcClass}
+                  {' · '}{formatPercent(optimization.serviceLevel.target)} {optimization.serviceLevel.type === 'FILL_RATE' ? 'fill rate' : 'cycle service'} target
+                  {' · '}{optimization.leadTime.meanDays} ± {optimization.leadTime.stdDevDays}d lead time
+                  {optimization.parameters.leadTimeDays.source === 'OBSERVED' && ` (${optimization.leadTime.observations} receipts)`}
+                  {' · '}${optimization.parameters.orderingCost.value} per order
+                  {' · '}{formatPercent(optimization.parameters.holdingCostRate.value)} holding
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  Safety stock {optimization.serviceLevel.safetyStock} units (${optimization.serviceLevel.annualSafetyStockCost.toLocaleString()}/yr)
+                  {optimization.serviceLevel.method === 'QUANTILE' && ' from the lead-time demand quantile'}
+                  {' · '}expected fill rate {formatPercent(optimization.serviceLevel.expectedFillRate)}
+                  {' · '}{optimization.serviceLevel.expectedStockoutDaysPerYear} stockout days/yr
                 </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                  Order {optimization.orderQuantity.orderQuantity} units at ${optimization.orderQuantity.unitCost}
+                  {' '}(EOQ {optimization.orderQuantity.economicOrderQuantity})
+                  {' · '}${optimization.orderQuantity.annualCost.total.toLocaleString()}/yr total cost
+                </p>
+                {optimization.orderQuantity.adjustments.length > 0 && (
+                  <ul className="text-xs text-gray-500 dark:text-gray-400 mb-2 list-disc list-inside">
+                    {optimization.orderQuantity.adjustments.map((adjustment, index) => (
+                      <li key={index}>
+                        {adjustment.from} → {adjustment.to}: {adjustment.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
                 
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-blue-600 dark:text-blue-400">
-                    {recommendation.impact}
+                    Cost savings: ${optimization.expectedSavings.toLocaleString()}
                   </span>
-                  <button className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium">
-                    Apply
-                  </button>
+                  {canApply && (
+                    <button
+                      onClick={() => applyOptimization.mutate(product.id)}
+                      disabled={applyOptimization.isPending}
+                      className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-50"
+                    >
+                      Apply
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         </div>
 
-        {/* Seasonal Analysis */}
+        {/* Upcoming Events */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
-            Seasonal Analysis
-          </h3>
-          
-          <div className="space-y-6">
-            <div>
-              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
-                Upcoming Seasonal Trends
-              </h4>
-              <div className="space-y-3">
-                <div className="flex items-center justify-between p-3 bg-blue-50 dark:bg-blue-900/10 rounded-lg">
-                  <div>
-                    <div className="text-sm font-medium text-gray-900 dark:text-white">
-                      Electronics
-                    </div>
-                    <div className="text-xs text-gray-600 dark:text-gray-400">
-                      Black Friday preparation
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm font-bold text-green-600 dark:text-green-400">
-                      +65%
-                    </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      Nov 2024
-                    </div>
-                  </div>
-                </div>
-                
-                <div className="flex items-center justify-between p-3 bg-amber-50 dark:bg-amber-900/10 rounded-lg">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Upcoming Events
+            </h3>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              Next {UPCOMING_EVENT_DAYS} days
+            </span>
+          </div>
+
+          {upcoming.isPending && <LoadingState message="Loading calendar..." />}
+          {upcoming.isError && <ErrorState error={upcoming.error} onRetry={() => upcoming.refetch()} />}
+          {upcoming.isSuccess && upcomingEvents.length === 0 && (
+            <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              No holidays or store events coming up
+            </p>
+          )}
+
+          <div className="space-y-3">
+            {upcomingEvents.map(event => (
+              <div
+                key={`${event.source}:${event.id ?? event.name}:${event.startDate}`}
+                className="flex items-center justify-between p-3 border border-gray-200 dark:border-gray-600 rounded-lg"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: EVENT_COLORS[event.eventType] }} />
                   <div>
                     <div className="text-sm font-medium text-gray-900 dark:text-white">
-                      Clothing
+                      {event.name}
                     </div>
                     <div className="text-xs text-gray-600 dark:text-gray-400">
-                      Winter season demand
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-sm font-bold text-green-600 dark:text-green-400">
-                      +25%
-                    </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400">
-                      Dec 2024
+                      {event.eventType === 'HOLIDAY' ? 'Holiday' : 'Store event'}
+                      {event.region && ` · ${event.region}`}
+                      {(event.leadDays > 0 || event.lagDays > 0) && ` · affects ${event.leadDays}d before to ${event.lagDays}d after`}
                     </div>
                   </div>
                 </div>
-              </div>
-            </div>
-
-            <div>
-              <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
-                Historical Patterns
-              </h4>
-              <div className="grid grid-cols-2 gap-3">
-                <div className="text-center p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
-                  <div className="text-lg font-bold text-gray-900 dark:text-white">
-                    Q4
-                  </div>
-                  <div className="text-xs text-gray-600 dark:text-gray-400">
-                    Peak Season
-                  </div>
-                  <div className="text-sm font-medium text-green-600 dark:text-green-400">
-                    +45%
-                  </div>
-                </div>
-                <div className="text-center p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
-                  <div className="text-lg font-bold text-gray-900 dark:text-white">
-                    Q1
+                <div className="text-right">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white">
+                    {event.startDate === event.endDate ? event.startDate : `${event.startDate} – ${event.endDate}`}
                   </div>
-                  <div className="text-xs text-gray-600 dark:text-gray-400">
-                    Low Season
-                  </div>
-                  <div className="text-sm font-medium text-red-600 dark:text-red-400">
-                    -20%
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {event.startDate <= today ? 'Under way' : `In ${daysBetween(today, event.startDate)} days`}
                   </div>
                 </div>
               </div>
-            </div>
+            ))}
           </div>
         </div>
       </div>
@@ -1,13 +1,14 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { Search, Filter, Download, Plus, Edit, Trash2 } from 'lucide-react';
 import { useInventoryStore } from '../store/useInventoryStore';
-import { mockProducts } from '../data/mockData';
+import { useCategories, useDeleteProduct, useProducts } from '../hooks/useProducts';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePermission } from '../hooks/usePermission';
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
 import { Product } from '../types';
 
 export const Inventory: React.FC = () => {
   const { 
-    products, 
-    setProducts, 
     selectedProducts, 
     setSelectedProducts,
     filterOptions,
@@ -18,24 +19,30 @@ export const Inventory: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
 
-  useEffect(() => {
-    setProducts(mockProducts);
-  }, [setProducts]);
+  // Filtering happens on the server; debounce the search so typing does not refetch on every keystroke
+  const search = useDebouncedValue(searchQuery.trim());
+  const products = useProducts({
+    category: filterOptions.category || undefined,
+    supplier: filterOptions.supplier || undefined,
+    velocity: filterOptions.velocity || undefined,
+    riskLevel: filterOptions.riskLevel || undefined,
+    search: search || undefined,
+  });
+  const categories = useCategories();
+  const deleteProduct = useDeleteProduct();
+  const canManageProducts = usePermission('products:manage');
 
-  // Filter products based on search and filters
-  const filteredProducts = products.filter(product => {
-    const matchesSearch = product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         product.category.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         product.supplier.name.toLowerCase().includes(searchQuery.toLowerCase());
+  const filteredProducts = products.data?.pages.flatMap(page => page.items) ?? [];
+  const totalProducts = products.data?.pages[0].total ?? 0;
 
-    const matchesFilters = 
-      (!filterOptions.category || product.category.name === filterOptions.category) &&
-      (!filterOptions.velocity || product.velocity === filterOptions.velocity) &&
-      (!filterOptions.riskLevel || product.riskLevel === filterOptions.riskLevel) &&
-      (!filterOptions.supplier || product.supplier.name === filterOptions.supplier);
+  const handleDelete = (product: Product) => {
+    if (!window.confirm(`Delete ${product.name}?`)) return;
 
-    return matchesSearch && matchesFilters;
-  });
+    deleteProduct.mutate(product.id, {
+      onSuccess: () => setSelectedProducts(selectedProducts.filter(id => id !== product.id)),
+      onError: (error) => window.alert(error.message),
+    });
+  };
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
@@ -84,7 +91,7 @@ export const Inventory: React.FC = () => {
             Inventory Management
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">
-            {filteredProducts.length} products • {selectedProducts.length} selected
+            {totalProducts} products • {selectedProducts.length} selected
           </p>
         </div>
         
@@ -93,10 +100,12 @@ export const Inventory: React.FC = () => {
             <Download className="w-4 h-4" />
             Export
           </button>
-          <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
-            <Plus className="w-4 h-4" />
-            Add Product
-          </button>
+          {canManageProducts && (
+            <button className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+              <Plus className="w-4 h-4" />
+              Add Product
+            </button>
+          )}
         </div>
       </div>
 
@@ -132,10 +141,9 @@ export const Inventory: React.FC = () => {
               className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
             >
               <option value="">All Categories</option>
-              <option value="Electronics">Electronics</option>
-              <option value="Clothing">Clothing</option>
-              <option value="Home & Garden">Home & Garden</option>
-              <option value="Kitchen & Dining">Kitchen & Dining</option>
+              {categories.data?.map(category => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
             </select>
 
             <select
@@ -268,6 +276,11 @@ export const Inventory: React.FC = () => {
                       <div className="text-sm text-gray-500 dark:text-gray-400">
                         Optimal: {product.optimalStock}
                       </div>
+                      {product.demandPattern && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400 capitalize">
+                          {product.demandPattern.toLowerCase()} demand
+                        </div>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4">
@@ -291,20 +304,46 @@ export const Inventory: React.FC = () => {
                     </div>
                   </td>
                   <td className="px-6 py-4 text-right">
-                    <div className="flex items-center justify-end gap-2">
-                      <button className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
-                        <Edit className="w-4 h-4" />
-                      </button>
-                      <button className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors">
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
+                    {canManageProducts && (
+                      <div className="flex items-center justify-end gap-2">
+                        <button className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors">
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(product)}
+                          disabled={deleteProduct.isPending}
+                          className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
+
+        {products.isPending && <LoadingState message="Loading products..." />}
+        {products.isError && <ErrorState error={products.error} onRetry={() => products.refetch()} />}
+        {products.isSuccess && filteredProducts.length === 0 && (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No products match the current filters
+          </p>
+        )}
+
+        {products.hasNextPage && (
+          <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 text-center">
+            <button
+              onClick={() => products.fetchNextPage()}
+              disabled={products.isFetchingNextPage}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium disabled:opacity-50"
+            >
+              {products.isFetchingNextPage ? 'Loading...' : `Load more (${filteredProducts.length} of ${totalProducts})`}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,407 @@
+import React, { useEffect, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
+import { useCategories, useProducts } from '../hooks/useProducts';
+import { useSuppliers } from '../hooks/useSuppliers';
+import {
+  useAbcClasses,
+  useDeleteParameters,
+  useGlobalParameters,
+  useOptimizationParameters,
+  useUpdateGlobalParameters,
+  useUpdateParameters,
+} from '../hooks/useOptimizationParameters';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { usePermission } from '../hooks/usePermission';
+import { OverrideScope, ParameterOverrides } from '../api/optimizationParameters';
+import { OptimizationParameter, ParameterKey, SafetyStockMethod, ServiceLevelType } from '../types';
+
+type NumericKey = Exclude<ParameterKey, 'serviceLevelType' | 'safetyStockMethod'>;
+
+// Rates are stored as fractions but edited as percentages
+const FIELDS: Array<{ key: NumericKey; label: string; unit: string; percent: boolean; step: string }> = [
+  { key: 'orderingCost', label: 'Ordering cost', unit: '$ per order', percent: false, step: '0.01' },
+  { key: 'holdingCostRate', label: 'Holding cost rate', unit: '% of unit cost per year', percent: true, step: '0.1' },
+  { key: 'leadTimeDays', label: 'Lead time', unit: 'days', percent: false, step: '1' },
+  { key: 'serviceLevel', label: 'Service level target', unit: '% of cycles or of demand', percent: true, step: '0.1' },
+];
+
+const SERVICE_LEVEL_TYPES: Record<ServiceLevelType, string> = {
+  CYCLE: 'Cycle service level',
+  FILL_RATE: 'Fill rate',
+};
+
+const SAFETY_STOCK_METHODS: Record<SafetyStockMethod, string> = {
+  NORMAL: 'Normal (z × std. dev.)',
+  QUANTILE: 'Forecast quantile',
+};
+
+type FormValues = Record<ParameterKey, string>;
+
+const EMPTY_FORM: FormValues = {
+  orderingCost: '',
+  holdingCostRate: '',
+  leadTimeDays: '',
+  serviceLevel: '',
+  serviceLevelType: '',
+  safetyStockMethod: '',
+};
+
+const toInput = (key: NumericKey, value: number | null) => {
+  if (value === null) return '';
+  const field = FIELDS.find(f => f.key === key);
+  return field?.percent ? String(Number((value * 100).toFixed(2))) : String(value);
+};
+
+const toForm = (
+  values: Record<NumericKey, number | null> & { serviceLevelType: ServiceLevelType | null; safetyStockMethod: SafetyStockMethod | null }
+): FormValues => ({
+  orderingCost: toInput('orderingCost', values.orderingCost),
+  holdingCostRate: toInput('holdingCostRate', values.holdingCostRate),
+  leadTimeDays: toInput('leadTimeDays', values.leadTimeDays),
+  serviceLevel: toInput('serviceLevel', values.serviceLevel),
+  serviceLevelType: values.serviceLevelType ?? '',
+  safetyStockMethod: values.safetyStockMethod ?? '',
+});
+
+// Blank inputs map to null so the value is inherited from the next scope up
+const toOverrides = (form: FormValues): ParameterOverrides => {
+  const overrides: ParameterOverrides = {};
+  FIELDS.forEach(({ key, percent }) => {
+    const raw = form[key].trim();
+    overrides[key] = raw === '' ? null : percent ? Number(raw) / 100 : Number(raw);
+  });
+  overrides.serviceLevelType = form.serviceLevelType === '' ? null : form.serviceLevelType as ServiceLevelType;
+  overrides.safetyStockMethod = form.safetyStockMethod === '' ? null : form.safetyStockMethod as SafetyStockMethod;
+  return overrides;
+};
+
+const formatValue = (key: NumericKey, value: number | null) => {
+  if (value === null) return 'inherited';
+  const field = FIELDS.find(f => f.key === key);
+  if (field?.percent) return `${toInput(key, value)}%`;
+  return key === 'orderingCost' ? `$${value}` : `${value} days`;
+};
+
+const toOverrideScope = (scope: OptimizationParameter['scope']) =>
+  scope.toLowerCase().replace('_', '-') as OverrideScope;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-60';
+
+const ParameterInputs: React.FC<{
+  values: FormValues;
+  onChange: (values: FormValues) => void;
+  placeholders?: Partial<Record<ParameterKey, string>>;
+  disabled: boolean;
+}> = ({ values, onChange, placeholders, disabled }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+    {FIELDS.map(field => (
+      <label key={field.key} className="block">
+        <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">{field.label}</span>
+        <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">{field.unit}</span>
+        <input
+          type="number"
+          min="0"
+          step={field.step}
+          value={values[field.key]}
+          placeholder={placeholders?.[field.key]}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...values, [field.key]: e.target.value })}
+          className={inputClass}
+        />
+      </label>
+    ))}
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Target type</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">how the target is measured</span>
+      <select
+        value={values.serviceLevelType}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...values, serviceLevelType: e.target.value })}
+        className={inputClass}
+      >
+        <option value="">
+          {placeholders?.serviceLevelType
+            ? `Inherit (${SERVICE_LEVEL_TYPES[placeholders.serviceLevelType as ServiceLevelType]})`
+            : 'Default'}
+        </option>
+        {Object.entries(SERVICE_LEVEL_TYPES).map(([type, label]) => (
+          <option key={type} value={type}>{label}</option>
+        ))}
+      </select>
+    </label>
+    <label className="block">
+      <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">Safety stock method</span>
+      <span className="block text-xs text-gray-500 dark:text-gray-400 mb-1">how lead-time demand is buffered</span>
+      <select
+        value={values.safetyStockMethod}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...values, safetyStockMethod: e.target.value })}
+        className={inputClass}
+      >
+        <option value="">
+          {placeholders?.safetyStockMethod
+            ? `Inherit (${SAFETY_STOCK_METHODS[placeholders.safetyStockMethod as SafetyStockMethod]})`
+            : 'Default'}
+        </option>
+        {Object.entries(SAFETY_STOCK_METHODS).map(([method, label]) => (
+          <option key={method} value={method}>{label}</option>
+        ))}
+      </select>
+    </label>
+  </div>
+);
+
+export const Settings: React.FC = () => {
+  const canConfigure = usePermission('optimization:configure');
+
+  const globalParameters = useGlobalParameters();
+  const parameters = useOptimizationParameters();
+  const updateGlobal = useUpdateGlobalParameters();
+  const updateParameters = useUpdateParameters();
+  const deleteParameters = useDeleteParameters();
+
+  const [globalForm, setGlobalForm] = useState<FormValues>(EMPTY_FORM);
+  const [overrideForm, setOverrideForm] = useState<FormValues>(EMPTY_FORM);
+  const [scope, setScope] = useState<OverrideScope>('category');
+  const [scopeId, setScopeId] = useState('');
+  const [productSearch, setProductSearch] = useState('');
+  const debouncedSearch = useDebouncedValue(productSearch, 300);
+
+  const abcClasses = useAbcClasses();
+  const categories = useCategories();
+  const suppliers = useSuppliers();
+  const products = useProducts({ search: debouncedSearch || undefined });
+
+  useEffect(() => {
+    if (globalParameters.data) setGlobalForm(toForm(globalParameters.data));
+  }, [globalParameters.data]);
+
+  const targets = scope === 'abc-class'
+    ? abcClasses.data?.map(c => ({ id: c.abcClass, name: `Class ${c.abcClass} (${c.productCount} products)` })) ?? []
+    : scope === 'category'
+      ? categories.data?.map(c => ({ id: c.id, name: c.name })) ?? []
+      : scope === 'supplier'
+        ? suppliers.data?.map(s => ({ id: s.id, name: s.name })) ?? []
+        : products.data?.pages.flatMap(page => page.items).map(p => ({ id: p.id, name: `${p.name} (${p.sku})` })) ?? [];
+
+  const overrides = parameters.data?.filter(p => p.scope !== 'GLOBAL') ?? [];
+
+  const globalPlaceholders = globalParameters.data && toForm(globalParameters.data);
+
+  const mutationError = updateGlobal.error ?? updateParameters.error ?? deleteParameters.error;
+
+  const handleSaveGlobal = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateGlobal.mutate(toOverrides(globalForm));
+  };
+
+  const handleSaveOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!scopeId) return;
+    updateParameters.mutate(
+      { scope, scopeId, values: toOverrides(overrideForm) },
+      { onSuccess: () => setOverrideForm(EMPTY_FORM) }
+    );
+  };
+
+  const handleEdit = (row: OptimizationParameter) => {
+    if (row.scope === 'GLOBAL' || !row.scopeId) return;
+    setScope(toOverrideScope(row.scope));
+    setScopeId(row.scopeId);
+    if (row.scope === 'PRODUCT') setProductSearch(row.scopeName ?? '');
+    setOverrideForm(toForm(row));
+  };
+
+  const handleDelete = (row: OptimizationParameter) => {
+    if (row.scope === 'GLOBAL' || !row.scopeId) return;
+    if (!window.confirm(`Remove the ${toOverrideScope(row.scope).replace('-', ' ')} override for ${row.scopeName ?? row.scopeId}?`)) return;
+    deleteParameters.mutate({ scope: toOverrideScope(row.scope), scopeId: row.scopeId });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Settings
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Cost and lead-time parameters used by stock optimization. Each value resolves product → supplier → category → ABC class → global default.
+        </p>
+      </div>
+
+      {mutationError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{mutationError.message}</p>
+      )}
+
+      {/* Global Defaults */}
+      <form onSubmit={handleSaveGlobal} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Global Defaults
+          </h3>
+          {canConfigure && (
+            <button
+              type="submit"
+              disabled={updateGlobal.isPending || !globalParameters.data}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              Save Defaults
+            </button>
+          )}
+        </div>
+
+        {globalParameters.isPending && <LoadingState />}
+        {globalParameters.isError && (
+          <ErrorState error={globalParameters.error} onRetry={() => globalParameters.refetch()} />
+        )}
+        {globalParameters.isSuccess && (
+          <ParameterInputs values={globalForm} onChange={setGlobalForm} disabled={!canConfigure} />
+        )}
+      </form>
+
+      {/* Overrides */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+          Overrides
+        </h3>
+
+        {parameters.isPending && <LoadingState />}
+        {parameters.isError && (
+          <ErrorState error={parameters.error} onRetry={() => parameters.refetch()} />
+        )}
+        {parameters.isSuccess && overrides.length === 0 && (
+          <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+            Every product uses the global defaults
+          </p>
+        )}
+
+        {overrides.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Scope</th>
+                  <th className="py-2 pr-4 font-medium">Applies to</th>
+                  {FIELDS.map(field => (
+                    <th key={field.key} className="py-2 pr-4 font-medium">{field.label}</th>
+                  ))}
+                  <th className="py-2 pr-4 font-medium">Target type</th>
+                  <th className="py-2 pr-4 font-medium">Safety stock method</th>
+                  {canConfigure && <th className="py-2 font-medium" />}
+                </tr>
+              </thead>
+              <tbody>
+                {overrides.map(row => (
+                  <tr key={row.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                    <td className="py-2 pr-4 text-xs font-medium text-gray-500 dark:text-gray-400">{row.scope}</td>
+                    <td className="py-2 pr-4">{row.scopeName ?? row.scopeId}</td>
+                    {FIELDS.map(field => (
+                      <td
+                        key={field.key}
+                        className={`py-2 pr-4 ${row[field.key] === null ? 'text-gray-400 dark:text-gray-500 italic' : ''}`}
+                      >
+                        {formatValue(field.key, row[field.key])}
+                      </td>
+                    ))}
+                    <td className={`py-2 pr-4 ${row.serviceLevelType === null ? 'text-gray-400 dark:text-gray-500 italic' : ''}`}>
+                      {row.serviceLevelType ? SERVICE_LEVEL_TYPES[row.serviceLevelType] : 'inherited'}
+                    </td>
+                    <td className={`py-2 pr-4 ${row.safetyStockMethod === null ? 'text-gray-400 dark:text-gray-500 italic' : ''}`}>
+                      {row.safetyStockMethod ? SAFETY_STOCK_METHODS[row.safetyStockMethod] : 'inherited'}
+                    </td>
+                    {canConfigure && (
+                      <td className="py-2 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => handleEdit(row)}
+                          className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium mr-3"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(row)}
+                          disabled={deleteParameters.isPending}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                          aria-label="Remove override"
+                        >
+                          <Trash2 className="w-4 h-4 inline" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canConfigure && (
+          <form onSubmit={handleSaveOverride} className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 space-y-4">
+            <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+              Add or update an override
+            </h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <select
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.target.value as OverrideScope);
+                  setScopeId('');
+                }}
+                className={inputClass}
+              >
+                <option value="abc-class">ABC class</option>
+                <option value="category">Category</option>
+                <option value="supplier">Supplier</option>
+                <option value="product">Product</option>
+              </select>
+
+              {scope === 'product' && (
+                <input
+                  type="text"
+                  placeholder="Search products..."
+                  value={productSearch}
+                  onChange={(e) => setProductSearch(e.target.value)}
+                  className={inputClass}
+                />
+              )}
+
+              <select
+                value={scopeId}
+                onChange={(e) => setScopeId(e.target.value)}
+                required
+                className={inputClass}
+              >
+                <option value="">Select {scope.replace('-', ' ')}...</option>
+                {targets.map(target => (
+                  <option key={target.id} value={target.id}>{target.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leave a field blank to inherit it.
+            </p>
+            <ParameterInputs
+              values={overrideForm}
+              onChange={setOverrideForm}
+              placeholders={globalPlaceholders}
+              disabled={false}
+            />
+
+            <button
+              type="submit"
+              disabled={updateParameters.isPending || !scopeId}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              Save Override
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Star } from 'lucide-react';
+import { ChartContainer } from '../components/ui/ChartContainer';
+import { ErrorState, LoadingState } from '../components/ui/QueryState';
+import { useSupplierLeadTimes, useSupplierTerms, useSuppliers } from '../hooks/useSuppliers';
+import { LeadTimeStats } from '../types';
+
+const formatDays = (days: number | null) => days !== null ? `${days}d` : '—';
+
+const formatLeadTime = (leadTime: LeadTimeStats) =>
+  leadTime.meanDays !== null ? `${leadTime.meanDays} ± ${leadTime.stdDevDays}d` : 'No receipts yet';
+
+export const Suppliers: React.FC = () => {
+  const { supplierId } = useParams<{ supplierId: string }>();
+  const navigate = useNavigate();
+
+  const suppliers = useSuppliers();
+  const leadTimes = useSupplierLeadTimes(supplierId);
+  const terms = useSupplierTerms(supplierId);
+  const selected = suppliers.data?.find(s => s.id === supplierId);
+
+  const stats = leadTimes.data && [
+    { label: 'Mean', value: formatDays(leadTimes.data.meanDays) },
+    { label: 'Std. deviation', value: formatDays(leadTimes.data.stdDevDays) },
+    { label: 'Median', value: formatDays(leadTimes.data.p50Days) },
+    { label: '90th percentile', value: formatDays(leadTimes.data.p90Days) },
+    { label: 'Range', value: leadTimes.data.minDays !== null ? `${leadTimes.data.minDays}–${leadTimes.data.maxDays}d` : '—' },
+    { label: 'Receipts', value: leadTimes.data.observations.toLocaleString() },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          Suppliers
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400 mt-1">
+          Lead times measured from purchase order submission to receipt over the last year
+        </p>
+      </div>
+
+      {/* Supplier List */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+        {suppliers.isPending && <LoadingState />}
+        {suppliers.isError && (
+          <ErrorState error={suppliers.error} onRetry={() => suppliers.refetch()} />
+        )}
+
+        {suppliers.isSuccess && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Supplier</th>
+                  <th className="py-2 pr-4 font-medium">Rating</th>
+                  <th className="py-2 pr-4 font-medium">Products</th>
+                  <th className="py-2 pr-4 font-medium">Lead time</th>
+                  <th className="py-2 pr-4 font-medium">90th percentile</th>
+                  <th className="py-2 font-medium">Receipts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {suppliers.data.map(supplier => (
+                  <tr
+                    key={supplier.id}
+                    onClick={() => navigate(`/suppliers/${supplier.id}`)}
+                    className={`border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 ${
+                      supplier.id === supplierId ? 'bg-blue-50 dark:bg-blue-900/10' : ''
+                    }`}
+                  >
+                    <td className="py-2 pr-4 font-medium">{supplier.name}</td>
+                    <td className="py-2 pr-4">
+                      <span className="inline-flex items-center gap-1">
+                        <Star className="w-3 h-3 text-amber-500" />
+                        {supplier.rating.toFixed(1)}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{supplier.productCount}</td>
+                    <td className="py-2 pr-4">{formatLeadTime(supplier.leadTime)}</td>
+                    <td className="py-2 pr-4">{formatDays(supplier.leadTime.p90Days)}</td>
+                    <td className="py-2">{supplier.leadTime.observations}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Lead-Time Distribution */}
+      {supplierId && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <ChartContainer
+            title={`Lead-Time Distribution${selected ? ` — ${selected.name}` : ''}`}
+            className="lg:col-span-2"
+          >
+            {leadTimes.isPending ? (
+              <LoadingState className="h-full" />
+            ) : leadTimes.isError ? (
+              <ErrorState error={leadTimes.error} onRetry={() => leadTimes.refetch()} className="h-full" />
+            ) : leadTimes.data.histogram.length === 0 ? (
+              <p className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                No purchase orders from this supplier have been received yet
+              </p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={leadTimes.data.histogram}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis
+                    dataKey="days"
+                    stroke="#6B7280"
+                    fontSize={12}
+                    tickFormatter={(days) => `${days}d`}
+                  />
+                  <YAxis
+                    stroke="#6B7280"
+                    fontSize={12}
+                    allowDecimals={false}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: '#FFFFFF',
+                      border: '1px solid #E5E7EB',
+                      borderRadius: '8px',
+                      fontSize: '12px'
+                    }}
+                    labelFormatter={(days) => `${days}–${Number(days) + 1} days`}
+                  />
+                  <Bar dataKey="count" fill="#3B82F6" name="Receipts" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </ChartContainer>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+              Lead-Time Statistics
+            </h3>
+
+            {stats && (
+              <div className="grid grid-cols-2 gap-3 mb-6">
+                {stats.map(stat => (
+                  <div key={stat.label} className="p-3 border border-gray-200 dark:border-gray-600 rounded-lg">
+                    <div className="text-xs text-gray-600 dark:text-gray-400">{stat.label}</div>
+                    <div className="text-lg font-bold text-gray-900 dark:text-white">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {leadTimes.data && leadTimes.data.receipts.length > 0 && (
+              <>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+                  Recent Receipts
+                </h4>
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {leadTimes.data.receipts.map((receipt, index) => (
+                    <div key={index} className="flex items-center justify-between text-sm">
+                      <div>
+                        <div className="text-gray-900 dark:text-white">{receipt.orderNumber}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {receipt.receivedAt.toLocaleDateString()} · {receipt.lines} {receipt.lines === 1 ? 'line' : 'lines'} · {receipt.quantity} units
+                        </div>
+                      </div>
+                      <span className="font-medium text-gray-900 dark:text-white">{receipt.days}d</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Ordering Terms */}
+      {supplierId && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+            Ordering Terms
+          </h3>
+
+          {terms.isPending && <LoadingState />}
+          {terms.isError && (
+            <ErrorState error={terms.error} onRetry={() => terms.refetch()} />
+          )}
+          {terms.isSuccess && terms.data.length === 0 && (
+            <p className="py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+              No minimum order quantities, pack sizes or price breaks recorded for this supplier
+            </p>
+          )}
+
+          {terms.data && terms.data.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Minimum order</th>
+                    <th className="py-2 pr-4 font-medium">Pack size</th>
+                    <th className="py-2 font-medium">Price breaks</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {terms.data.map(row => (
+                    <tr key={row.id} className="border-b border-gray-100 dark:border-gray-700/50 text-gray-900 dark:text-white">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{row.product.name}</div>
+                        <div className="text-xs text-gray-500 dark:text-gray-400">{row.product.sku}</div>
+                      </td>
+                      <td className="py-2 pr-4">{row.minOrderQuantity} units</td>
+                      <td className="py-2 pr-4">{row.packSize} units</td>
+                      <td className="py-2">
+                        {row.priceBreaks.length === 0
+                          ? <span className="text-gray-400 dark:text-gray-500 italic">none</span>
+                          : (
+                            <div className="flex flex-wrap gap-2">
+                              {row.product.unitCost !== null && (
+                                <span className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs">
+                                  1+ @ ${row.product.unitCost}
+                                </span>
+                              )}
+                              {row.priceBreaks.map(priceBreak => (
+                                <span key={priceBreak.minQuantity} className="px-2 py-0.5 rounded bg-blue-50 dark:bg-blue-900/20 text-xs">
+                                  {priceBreak.minQuantity}+ @ ${priceBreak.unitCost}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { AIController } from '../controllers/aiController';
+import { requirePermission } from '../middleware/authorize';
 
 const router = Router();
 const aiController = new AIController();
@@ -8,11 +9,15 @@ const aiController = new AIController();
 router.get('/forecast/:productId', aiController.getForecast.bind(aiController));
 router.post('/forecast/:productId/generate', aiController.generateForecast.bind(aiController));
 router.get('/forecast/:productId/accuracy', aiController.getForecastAccuracy.bind(aiController));
+router.post('/forecast/:productId/accuracy', aiController.runForecastBacktest.bind(aiController));
+router.get('/forecast/:productId/model', aiController.getModelSelection.bind(aiController));
+router.post('/forecast/:productId/model/select', requirePermission('ai:models:manage'), aiController.selectModel.bind(aiController));
 
 // Stock optimization endpoints
-router.get('/optimize/:productId', aiController.getOptimization.bind(aiController));
-router.post('/optimize/:productId/apply', aiController.applyOptimization.bind(aiController));
+// Static paths must precede '/optimize/:productId' or they are captured as a product id
 router.get('/optimize/recommendations', aiController.getOptimizationRecommendations.bind(aiController));
+router.get('/optimize/:productId', aiController.getOptimization.bind(aiController));
+router.post('/optimize/:productId/apply', requirePermission('ai:optimize:apply'), aiController.applyOptimization.bind(aiController));
 
 // Anomaly detection endpoints
 router.get('/anomalies/:productId', aiController.getAnomalies.bind(aiController));
@@ -23,8 +28,12 @@ router.get('/insights/:productId', aiController.getInsights.bind(aiController));
 router.get('/insights', aiController.getDashboardInsights.bind(aiController));
 
 // Model management
-router.post('/models/retrain', aiController.retrainModels.bind(aiController));
+router.post('/models/retrain', requirePermission('ai:models:manage'), aiController.retrainModels.bind(aiController));
 router.get('/models/status', aiController.getModelStatus.bind(aiController));
+router.get('/models/:categoryId/versions', aiController.getModelVersions.bind(aiController));
+router.get('/models/:categoryId/versions/compare', aiController.compareModelVersions.bind(aiController));
+router.post('/models/:categoryId/versions/:version/promote', requirePermission('ai:models:manage'), aiController.promoteModelVersion.bind(aiController));
+router.post('/models/:categoryId/rollback', requirePermission('ai:models:manage'), aiController.rollbackModel.bind(aiController));
 
 // Bulk operations
 router.post('/forecast/bulk', aiController.bulkForecast.bind(aiController));
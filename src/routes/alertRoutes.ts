@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { AlertController } from '../controllers/alertController';
+
+const router = Router();
+const alertController = new AlertController();
+
+router.get('/', alertController.getAlerts.bind(alertController));
+router.patch('/:id/dismiss', alertController.dismissAlert.bind(alertController));
+
+export { router as alertRoutes };
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { AnalyticsController } from '../controllers/analyticsController';
+
+const router = Router();
+const analyticsController = new AnalyticsController();
+
+// Full AnalyticsData payload for the Analytics page
+router.get('/', analyticsController.getAnalytics.bind(analyticsController));
+
+// Individual sections
+router.get('/category-distribution', analyticsController.getCategoryDistribution.bind(analyticsController));
+router.get('/turnover', analyticsController.getTurnoverMetrics.bind(analyticsController));
+router.get('/performance', analyticsController.getPerformanceScores.bind(analyticsController));
+router.get('/demand-forecast', analyticsController.getDemandForecast.bind(analyticsController));
+
+export { router as analyticsRoutes };
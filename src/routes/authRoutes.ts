@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/authController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+const authController = new AuthController();
+
+// Session endpoints
+router.post('/register', authController.register.bind(authController));
+router.post('/login', authController.login.bind(authController));
+router.post('/refresh', authController.refresh.bind(authController));
+router.post('/logout', authController.logout.bind(authController));
+
+// Current user
+router.get('/me', authenticateToken, authController.me.bind(authController));
+
+export { router as authRoutes };
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { CalendarController } from '../controllers/calendarController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const calendarController = new CalendarController();
+
+// Built-in holidays and paydays together with custom events
+router.get('/events', calendarController.getEvents.bind(calendarController));
+router.post('/events', requirePermission('calendar:manage'), calendarController.createEvent.bind(calendarController));
+router.put('/events/:id', requirePermission('calendar:manage'), calendarController.updateEvent.bind(calendarController));
+router.delete('/events/:id', requirePermission('calendar:manage'), calendarController.deleteEvent.bind(calendarController));
+
+export { router as calendarRoutes };
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { ForecastingController } from '../controllers/forecastingController';
+
+const router = Router();
+const forecastingController = new ForecastingController();
+
+// Aggregate series and metrics (optionally per category)
+router.get('/series', forecastingController.getSeries.bind(forecastingController));
+router.get('/metrics', forecastingController.getMetrics.bind(forecastingController));
+
+// Total, category and warehouse forecasts reconciled with the product forecasts
+router.get('/hierarchy', forecastingController.getHierarchy.bind(forecastingController));
+
+// Per-product forecast history
+router.get('/products/:productId/history', forecastingController.getHistory.bind(forecastingController));
+router.get('/products/:productId/versions', forecastingController.getVersions.bind(forecastingController));
+router.get('/products/:productId/series', forecastingController.getProductSeries.bind(forecastingController));
+router.get('/products/:productId/metrics', forecastingController.getProductMetrics.bind(forecastingController));
+
+export { router as forecastingRoutes };
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { InventoryController } from '../controllers/inventoryController';
+
+const router = Router();
+const inventoryController = new InventoryController();
+
+// Stock movement ledger
+router.get('/movements', inventoryController.getMovements.bind(inventoryController));
+router.post('/movements', inventoryController.recordMovement.bind(inventoryController));
+
+// Recent deliveries and adjustments for the dashboard feed
+router.get('/activity', inventoryController.getActivity.bind(inventoryController));
+
+// Current stock levels
+router.get('/stock/:productId', inventoryController.getStockLevel.bind(inventoryController));
+
+export { router as inventoryRoutes };
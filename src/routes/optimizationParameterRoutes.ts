@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { OptimizationParameterController } from '../controllers/optimizationParameterController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const parameterController = new OptimizationParameterController();
+
+// Stored parameters
+router.get('/', parameterController.getParameters.bind(parameterController));
+router.get('/global', parameterController.getGlobalParameters.bind(parameterController));
+router.get('/abc-classes', parameterController.getAbcClasses.bind(parameterController));
+router.put('/global', requirePermission('optimization:configure'), parameterController.updateGlobalParameters.bind(parameterController));
+router.put('/:scope/:scopeId', requirePermission('optimization:configure'), parameterController.updateParameters.bind(parameterController));
+router.delete('/:scope/:scopeId', requirePermission('optimization:configure'), parameterController.deleteParameters.bind(parameterController));
+
+// Effective values for one product, with the scope each came from
+router.get('/resolve/:productId', parameterController.resolveParameters.bind(parameterController));
+
+export { router as optimizationParameterRoutes };
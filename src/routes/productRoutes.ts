@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { ProductController } from '../controllers/productController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const productController = new ProductController();
+
+// Product CRUD endpoints
+router.get('/', productController.getProducts.bind(productController));
+router.get('/categories', productController.getCategories.bind(productController));
+router.get('/:id', productController.getProduct.bind(productController));
+router.get('/:id/price-history', productController.getPriceHistory.bind(productController));
+router.post('/', requirePermission('products:manage'), productController.createProduct.bind(productController));
+router.put('/:id', requirePermission('products:manage'), productController.updateProduct.bind(productController));
+router.delete('/:id', requirePermission('products:manage'), productController.deleteProduct.bind(productController));
+
+export { router as productRoutes };
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { PromotionController } from '../controllers/promotionController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const promotionController = new PromotionController();
+
+// Product promotions, past and planned
+router.get('/', promotionController.getPromotions.bind(promotionController));
+router.post('/', requirePermission('promotions:manage'), promotionController.createPromotion.bind(promotionController));
+router.put('/:id', requirePermission('promotions:manage'), promotionController.updatePromotion.bind(promotionController));
+router.delete('/:id', requirePermission('promotions:manage'), promotionController.deletePromotion.bind(promotionController));
+
+export { router as promotionRoutes };
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { PurchaseOrderController } from '../controllers/purchaseOrderController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const purchaseOrderController = new PurchaseOrderController();
+
+// Must be registered before '/:id' routes
+router.post('/generate', requirePermission('purchasing:manage'), purchaseOrderController.generateDrafts.bind(purchaseOrderController));
+
+// Purchase order endpoints
+router.get('/', purchaseOrderController.getPurchaseOrders.bind(purchaseOrderController));
+router.get('/:id', purchaseOrderController.getPurchaseOrder.bind(purchaseOrderController));
+router.post('/', requirePermission('purchasing:manage'), purchaseOrderController.createPurchaseOrder.bind(purchaseOrderController));
+router.put('/:id', requirePermission('purchasing:manage'), purchaseOrderController.updatePurchaseOrder.bind(purchaseOrderController));
+router.delete('/:id', requirePermission('purchasing:manage'), purchaseOrderController.deletePurchaseOrder.bind(purchaseOrderController));
+
+// Lifecycle
+router.patch('/:id/status', requirePermission('purchasing:manage'), purchaseOrderController.updateStatus.bind(purchaseOrderController));
+router.post('/:id/receive', purchaseOrderController.receivePurchaseOrder.bind(purchaseOrderController));
+
+export { router as purchaseOrderRoutes };
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SupplierController } from '../controllers/supplierController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const supplierController = new SupplierController();
+
+// Supplier endpoints
+router.get('/', supplierController.getSuppliers.bind(supplierController));
+router.get('/:id', supplierController.getSupplier.bind(supplierController));
+router.get('/:id/lead-times', supplierController.getLeadTimes.bind(supplierController));
+
+// Ordering terms per product: MOQ, pack size and price breaks
+router.get('/:id/terms', supplierController.getTerms.bind(supplierController));
+router.put('/:id/terms/:productId', requirePermission('purchasing:manage'), supplierController.updateTerms.bind(supplierController));
+router.delete('/:id/terms/:productId', requirePermission('purchasing:manage'), supplierController.deleteTerms.bind(supplierController));
+
+export { router as supplierRoutes };
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { UserController } from '../controllers/userController';
+import { requirePermission } from '../middleware/authorize';
+
+const router = Router();
+const userController = new UserController();
+
+// User management endpoints
+router.get('/', requirePermission('users:read'), userController.getUsers.bind(userController));
+router.get('/:id', requirePermission('users:read'), userController.getUser.bind(userController));
+router.patch('/:id/role', requirePermission('users:manage'), userController.updateRole.bind(userController));
+
+export { router as userRoutes };
@@ -1,9 +1,11 @@
 import cron from 'node-cron';
 import { AIService } from './aiService';
+import { ModelTrainingService } from './modelTrainingService';
 import { PrismaClient } from '@prisma/client';
 import { SocketHandler } from '../websocket/socketHandler';
 
 const prisma = new PrismaClient();
+const modelTrainingService = new ModelTrainingService();
 
 export class AIScheduler {
   private aiService: AIService;
@@ -46,6 +48,12 @@ export class AIScheduler {
       await this.retrainModels();
     });
 
+    // Re-select each product's forecasting model from fresh backtests after retraining, Sundays at 4 AM
+    cron.schedule('0 4 * * 0', async () => {
+      console.log('🏁 Running weekly forecasting model selection...');
+      await this.runModelSelection();
+    });
+
     // Schedule cleanup every 6 hours
     cron.schedule('0 */6 * * *', async () => {
       console.log('🧹 Running cleanup tasks...');
@@ -219,44 +227,56 @@ export class AIScheduler {
     try {
       console.log('🧠 Starting weekly model retraining...');
       
-      const categories = await prisma.category.findMany();
-      let retrainedCount = 0;
+      // Trains each category's network on all of its products and publishes it as the new version for inference
+      const { reports, skipped } = await modelTrainingService.trainAll();
 
-      for (const category of categories) {
-        try {
-          // Get products in this category with sufficient data
-          const products = await prisma.product.findMany({
-            where: { categoryId: category.id },
-            select: { id: true }
-          });
+      reports.forEach(report => {
+        console.log(`✅ Model ${report.version} trained for category ${report.categoryId}: ${report.epochs} epochs, holdout WAPE ${report.holdout.wape} (seasonal naive ${report.holdout.naiveWape})`);
+      });
 
-          if (products.length === 0) continue;
+      console.log(`✅ Model retraining completed: ${reports.length}/${reports.length + skipped.length} models updated`);
+      
+      this.socketHandler.broadcastUpdate('models-retrained', {
+        retrainedCount: reports.length,
+        totalCategories: reports.length + skipped.length,
+        versions: reports.map(report => ({ categoryId: report.categoryId, version: report.version })),
+        timestamp: new Date()
+      });
 
-          // Retrain model with recent data from all products in category
-          const sampleProduct = products[0];
-          await this.aiService.generateDemandForecast(sampleProduct.id, 7); // This triggers model training
-          
-          // Save the updated model
-          await this.aiService.saveModel(category.id);
-          
-          retrainedCount++;
-          
-          console.log(`✅ Model retrained for category: ${category.name}`);
+    } catch (error) {
+      console.error('Error in model retraining:', error);
+    }
+  }
+
+  private async runModelSelection() {
+    try {
+      const products = await prisma.product.findMany({ select: { id: true } });
+      const chosen = new Map<string, number>();
+
+      // One product at a time: each backtest fits every candidate model several times
+      for (const product of products) {
+        try {
+          const selection = await this.aiService.selectForecastModel(product.id, { refresh: true });
+          if (selection) {
+            chosen.set(selection.modelType, (chosen.get(selection.modelType) || 0) + 1);
+          }
         } catch (error) {
-          console.error(`Error retraining model for category ${category.id}:`, error);
+          console.error(`Error selecting forecasting model for product ${product.id}:`, error);
         }
       }
 
-      console.log(`✅ Model retraining completed: ${retrainedCount}/${categories.length} models updated`);
-      
-      this.socketHandler.broadcastUpdate('models-retrained', {
-        retrainedCount,
-        totalCategories: categories.length,
+      const selectedCount = Array.from(chosen.values()).reduce((sum, count) => sum + count, 0);
+      console.log(`✅ Model selection completed: ${selectedCount}/${products.length} products`, Object.fromEntries(chosen));
+
+      this.socketHandler.broadcastUpdate('models-selected', {
+        selectedCount,
+        totalProducts: products.length,
+        byModel: Object.fromEntries(chosen),
         timestamp: new Date()
       });
 
     } catch (error) {
-      console.error('Error in model retraining:', error);
+      console.error('Error in model selection:', error);
     }
   }
 
@@ -283,7 +303,14 @@ export class AIScheduler {
         }
       });
 
-      console.log(`🧹 Cleanup completed: ${deletedForecasts.count} old forecasts, ${deletedAlerts.count} old alerts removed`);
+      // Clean up expired refresh tokens
+      const deletedTokens = await prisma.refreshToken.deleteMany({
+        where: {
+          expiresAt: { lt: new Date() }
+        }
+      });
+
+      console.log(`🧹 Cleanup completed: ${deletedForecasts.count} old forecasts, ${deletedAlerts.count} old alerts, ${deletedTokens.count} expired refresh tokens removed`);
 
     } catch (error) {
       console.error('Error in cleanup tasks:', error);
@@ -331,7 +358,7 @@ export class AIScheduler {
     }
 
     // Check for low forecast accuracy
-    if (forecast.accuracy < 0.6) {
+    if (forecast.accuracy !== null && forecast.accuracy < 0.6) {
       await prisma.alert.create({
         data: {
           productId: product.id,
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {} }));
+vi.mock('@tensorflow/tfjs-node', () => ({}));
+vi.mock('./cacheService', () => ({ CacheService: class {} }));
+
+vi.mock('simple-statistics', () => {
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = (values: number[]) => mean(values.map(v => (v - mean(values)) ** 2));
+  return { mean, variance, standardDeviation: (values: number[]) => Math.sqrt(variance(values)) };
+});
+
+vi.mock('ml-regression', () => ({
+  PolynomialRegression: class {},
+  SimpleLinearRegression: class {
+    slope: number;
+    constructor(x: number[], y: number[]) {
+      const mx = x.reduce((sum, v) => sum + v, 0) / x.length;
+      const my = y.reduce((sum, v) => sum + v, 0) / y.length;
+      const sxy = x.reduce((sum, v, i) => sum + (v - mx) * (y[i] - my), 0);
+      const sxx = x.reduce((sum, v) => sum + (v - mx) ** 2, 0);
+      this.slope = sxy / sxx;
+    }
+  }
+}));
+
+const { AIService } = await import('./aiService');
+
+const history = (demands: number[], start = Date.UTC(2024, 0, 1)) => demands.map((demand, i) => ({
+  date: new Date(start + i * 24 * 60 * 60 * 1000).toISOString().slice(0, 10),
+  demand
+}));
+
+describe('AIService statistical forecast', () => {
+  const service = new AIService();
+  const forecast = (demands: number[], days: number) => service['generateStatisticalForecast']('product-1', history(demands), days);
+
+  it('forecasts a two or three day history flat at its average', async () => {
+    // A trend fitted to [2, 4, 9] would climb 3.5 units a day, over 100 a day a month out
+    const { predictions } = await forecast([2, 4, 9], 30);
+
+    expect(predictions).toHaveLength(30);
+    expect(new Set(predictions.map(p => p.predictedDemand))).toEqual(new Set([5]));
+
+    const twoDays = await forecast([3, 7], 14);
+    expect(twoDays.predictions.every(p => p.predictedDemand === 5)).toBe(true);
+  });
+
+  it('keeps the spread of a short history from growing with the horizon through the trend', async () => {
+    const { predictions } = await forecast([2, 4, 9], 30);
+
+    expect(predictions[29].stdDev).toBe(predictions[0].stdDev);
+  });
+
+  it('reads the trend and weekly pattern once the history is long enough', async () => {
+    // Two weeks rising one unit a day, with every weekday seen twice
+    const { predictions } = await forecast(Array.from({ length: 14 }, (_, i) => 10 + i), 7);
+
+    expect(predictions[6].predictedDemand).toBeGreaterThan(predictions[0].predictedDemand);
+  });
+});
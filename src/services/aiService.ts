@@ -1,11 +1,67 @@
 import * as tf from '@tensorflow/tfjs-node';
 import { SimpleLinearRegression, PolynomialRegression } from 'ml-regression';
 import * as ss from 'simple-statistics';
-import { PrismaClient } from '@prisma/client';
+import { DemandPattern, PrismaClient } from '@prisma/client';
 import { CacheService } from './cacheService';
+import { OptimizationParameterService, ParameterValues, ResolvedParameters } from './optimizationParameterService';
+import { ServiceLevelOutcome, ServiceLevelService } from './serviceLevelService';
+import { LeadTimeService, MIN_LEAD_TIME_OBSERVATIONS } from './leadTimeService';
+import { OrderQuantityResult, OrderQuantityService } from './orderQuantityService';
+import { SupplierTermsService } from './supplierTermsService';
+import { HoltWintersService } from './holtWintersService';
+import { IntermittentDemandService, IntermittentMethod, methodForPattern } from './intermittentDemandService';
+import { BacktestForecaster, BacktestResult, BacktestService } from './backtestService';
+import { DEFAULT_SELECTION_METRIC, ModelSelection, ModelSelectionService, SelectionMetric } from './modelSelectionService';
+import { demandFeatures, demandScale, FEATURE_COUNT, ModelTrainingService } from './modelTrainingService';
+import { ModelRegistryService } from './modelRegistryService';
+import { CalendarService, EventCalendar } from './calendarService';
+import { DemandDrivers, PromotionEffects, PromotionRecord, PromotionService } from './promotionService';
+import { StockoutService } from './stockoutService';
+import { AnalogCurve, AnalogMatch, COLD_START_BLEND_DAYS, ColdStartService, ownHistoryWeight } from './coldStartService';
+import { DEFAULT_QUANTILES, DemandDistributionService, LOWER_BOUND_LEVEL, UPPER_BOUND_LEVEL } from './demandDistributionService';
 
 const prisma = new PrismaClient();
 const cache = new CacheService();
+const parameterService = new OptimizationParameterService();
+const serviceLevelService = new ServiceLevelService();
+const leadTimeService = new LeadTimeService();
+const orderQuantityService = new OrderQuantityService();
+const supplierTermsService = new SupplierTermsService();
+const holtWintersService = new HoltWintersService();
+const intermittentDemandService = new IntermittentDemandService();
+const backtestService = new BacktestService();
+const modelSelectionService = new ModelSelectionService();
+const modelTrainingService = new ModelTrainingService();
+const modelRegistryService = new ModelRegistryService();
+const calendarService = new CalendarService();
+const promotionService = new PromotionService();
+const stockoutService = new StockoutService();
+const coldStartService = new ColdStartService();
+const demandDistributionService = new DemandDistributionService();
+
+export type ForecastModelType = 'STATISTICAL' | 'HOLT_WINTERS' | 'NEURAL_NETWORK' | IntermittentMethod;
+
+// Days of daily demand read for forecasting and backtesting
+const HISTORY_DAYS = 180;
+
+// Backtest origins need at least four weeks of history before them
+const BACKTEST_MIN_TRAINING_DAYS = 28;
+
+// Products with a backtest running in the background, so a repeated request does not start another
+const runningBacktests = new Set<string>();
+
+// Models compared by backtest when selecting one per product, simplest first so it wins ties
+const SELECTION_CANDIDATES: ForecastModelType[] = ['STATISTICAL', 'HOLT_WINTERS', 'CROSTON', 'SBA', 'TSB', 'NEURAL_NETWORK'];
+
+// Days of sales history from which each model is chosen when no backtest selection exists
+const HOLT_WINTERS_MIN_HISTORY_DAYS = 30;
+const HOLT_WINTERS_MAX_HISTORY_DAYS = 180;
+
+// A trend fitted to fewer days than this is mostly noise, and carried over the horizon it runs away
+const STATISTICAL_MIN_TREND_DAYS = 14;
+
+// Observations of every weekday needed before the statistical model reads weekly seasonality from them
+const STATISTICAL_MIN_WEEKDAY_OBSERVATIONS = 2;
 
 export interface ForecastResult {
   productId: string;
@@ -13,11 +69,42 @@ export interface ForecastResult {
     date: string;
     predictedDemand: number;
     confidence: number;
+    // Standard deviation of the day's forecast error, growing with the horizon
+    stdDev: number;
+    // Demand quantiles by level (see quantileKey), P10, P50 and P90 unless others were requested
+    quantiles: Record<string, number>;
+    // The 97.5% and 2.5% quantiles
     upperBound: number;
     lowerBound: number;
   }>;
-  accuracy: number;
-  modelType: string;
+  // 1 - WAPE from the model's stored backtest; null until it has been backtested
+  accuracy: number | null;
+  modelType: ForecastModelType;
+  // Why the model was used: asked for, chosen by backtest, or the demand-pattern and history fallbacks
+  selectedBy?: 'REQUEST' | 'BACKTEST' | 'DEMAND_PATTERN' | 'HISTORY';
+  // Fitted values that describe the model, e.g. the smoothing parameters of Holt-Winters
+  modelParameters?: Record<string, number | string>;
+  demandPattern?: {
+    pattern: DemandPattern;
+    adi: number;
+    cv2: number;
+  };
+  // History days on which the product ran out of stock, whose demand was imputed
+  censoredDays?: number;
+  promotions?: {
+    // Whether the promotions planned for the forecast days were applied; past ones always are
+    included: boolean;
+    planned: PromotionRecord[];
+    effects: PromotionEffects;
+  };
+  // Set while a new product's forecast is blended with the launch demand of analog products
+  coldStart?: {
+    source: 'LIKE_ITEM' | 'SIMILAR';
+    analogs: Array<{ productId: string; name: string; matchedOn: AnalogMatch[] }>;
+    // Weight of the product's own model; the analog curve gets the rest
+    ownWeight: number;
+    levelScale: number;
+  };
 }
 
 export interface OptimizationResult {
@@ -27,6 +114,14 @@ export interface OptimizationResult {
   reorderPoint: number;
   expectedSavings: number;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  parameters: ResolvedParameters;
+  serviceLevel: ServiceLevelOutcome;
+  leadTime: {
+    meanDays: number;
+    stdDevDays: number;
+    observations: number;
+  };
+  orderQuantity: OrderQuantityResult;
 }
 
 export interface AnomalyDetection {
@@ -41,7 +136,8 @@ export interface AnomalyDetection {
 }
 
 export class AIService {
-  private models: Map<string, tf.LayersModel> = new Map();
+  // Loaded category networks, reloaded whenever another version is promoted or rolled back to
+  private models: Map<string, { version: string; model: tf.LayersModel }> = new Map();
   private isInitialized = false;
 
   async initialize() {
@@ -52,7 +148,7 @@ export class AIService {
     // Initialize TensorFlow backend
     await tf.ready();
     
-    // Load or create models for each product category
+    // Load the current trained model for each product category
     await this.initializeModels();
     
     this.isInitialized = true;
@@ -63,59 +159,55 @@ export class AIService {
     const categories = await prisma.category.findMany();
     
     for (const category of categories) {
-      try {
-        // Try to load existing model
-        const modelPath = `./models/demand_forecast_${category.id}`;
-        const model = await this.loadOrCreateModel(category.id);
-        this.models.set(category.id, model);
-      } catch (error) {
-        console.log(`Creating new model for category: ${category.name}`);
-        const model = this.createDemandForecastModel();
-        this.models.set(category.id, model);
+      const model = await this.getCategoryModel(category.id);
+      if (!model) {
+        console.log(`No trained model for category: ${category.name}`);
       }
     }
   }
 
-  private async loadOrCreateModel(categoryId: string): Promise<tf.LayersModel> {
-    try {
-      return await tf.loadLayersModel(`file://./models/demand_forecast_${categoryId}/model.json`);
-    } catch {
-      return this.createDemandForecastModel();
-    }
-  }
+  // The category's active registered network, or null until a version has been promoted
+  private async getCategoryModel(categoryId: string): Promise<tf.LayersModel | null> {
+    const active = await modelRegistryService.getActive(categoryId);
+    if (!active) return null;
 
-  private createDemandForecastModel(): tf.LayersModel {
-    const model = tf.sequential({
-      layers: [
-        tf.layers.dense({ inputShape: [10], units: 64, activation: 'relu' }),
-        tf.layers.dropout({ rate: 0.2 }),
-        tf.layers.dense({ units: 32, activation: 'relu' }),
-        tf.layers.dropout({ rate: 0.2 }),
-        tf.layers.dense({ units: 16, activation: 'relu' }),
-        tf.layers.dense({ units: 1, activation: 'linear' })
-      ]
-    });
-
-    model.compile({
-      optimizer: tf.train.adam(0.001),
-      loss: 'meanSquaredError',
-      metrics: ['mae']
-    });
+    const loaded = this.models.get(categoryId);
+    if (loaded?.version === active.version) return loaded.model;
 
-    return model;
+    try {
+      const model = await modelTrainingService.loadModel(active.artifactPath);
+      // Versions trained on an older feature set cannot be fed today's features
+      if (model.inputs[0].shape[1] !== FEATURE_COUNT) {
+        model.dispose();
+        console.log(`Model ${active.version} for category ${categoryId} predates the current features; retrain it`);
+        return null;
+      }
+      loaded?.model.dispose();
+      this.models.set(categoryId, { version: active.version, model });
+      return model;
+    } catch (error) {
+      console.error(`Failed to load model ${active.version} for category ${categoryId}:`, error);
+      return loaded?.model ?? null;
+    }
   }
 
-  async generateDemandForecast(productId: string, days: number = 30): Promise<ForecastResult> {
-    const cacheKey = `forecast:${productId}:${days}`;
+  async generateDemandForecast(
+    productId: string,
+    days: number = 30,
+    modelType?: ForecastModelType,
+    includePromotions: boolean = true,
+    quantiles: number[] = DEFAULT_QUANTILES
+  ): Promise<ForecastResult> {
+    const cacheKey = `forecast:${productId}:${days}:${modelType ?? 'AUTO'}:${includePromotions ? 'PROMOTIONS' : 'BASELINE'}`;
     const cached = await cache.get(cacheKey);
     
     if (cached) {
-      return JSON.parse(cached);
+      return this.withQuantiles(JSON.parse(cached), quantiles);
     }
 
     const product = await prisma.product.findUnique({
       where: { id: productId },
-      include: { category: true }
+      include: { category: true, location: true }
     });
 
     if (!product) {
@@ -123,228 +215,607 @@ export class AIService {
     }
 
     // Get historical data
-    const historicalData = await this.getHistoricalDemandData(productId, 180); // 6 months
-    
-    if (historicalData.length < 30) {
-      // Use simple statistical methods for products with limited data
-      return this.generateStatisticalForecast(productId, historicalData, days);
+    const historicalData = await this.getHistoricalDemandData(productId, HISTORY_DAYS);
+    const historyDays = await this.getHistoryDays(productId);
+    // The zero-filled days before the first sale are not history
+    const history = historicalData.slice(-Math.max(1, historyDays));
+
+    // Mostly-zero demand goes to the intermittent methods whatever the history length
+    const classification = await intermittentDemandService.classifyProduct(productId, history.map(d => d.demand));
+    const intermittentMethod = classification && methodForPattern(classification.pattern);
+
+    const selection = modelType ? null : await modelSelectionService.getSelection(productId);
+
+    let selectedModel: ForecastModelType;
+    let selectedBy: NonNullable<ForecastResult['selectedBy']>;
+    if (modelType) {
+      [selectedModel, selectedBy] = [modelType, 'REQUEST'];
+    } else if (selection) {
+      [selectedModel, selectedBy] = [selection.modelType as ForecastModelType, 'BACKTEST'];
+    } else if (intermittentMethod) {
+      [selectedModel, selectedBy] = [intermittentMethod, 'DEMAND_PATTERN'];
+    } else {
+      selectedBy = 'HISTORY';
+      selectedModel = historyDays < HOLT_WINTERS_MIN_HISTORY_DAYS ? 'STATISTICAL'
+        : historyDays <= HOLT_WINTERS_MAX_HISTORY_DAYS ? 'HOLT_WINTERS'
+          : 'NEURAL_NETWORK';
     }
 
-    // Use neural network for products with sufficient data
-    const forecast = await this.generateNeuralNetworkForecast(product, historicalData, days);
+    const calendar = await this.getEventCalendar(product, historicalData, days);
+    const drivers = await this.getDemandDrivers(productId, historicalData, days);
+    const lastDay = historicalData[historicalData.length - 1].date;
+    const applied = includePromotions ? drivers : drivers.withoutPromotionsAfter(lastDay);
+    const forecast = await this.runModel(selectedModel, product, historicalData, historyDays, days, calendar, applied);
+    // A model that fell back to the statistical one on too little data keeps its own label
+    forecast.selectedBy = forecast.modelType === selectedModel ? selectedBy : 'HISTORY';
+
+    // New products start from the launch demand of analog products; a requested model is left as it is
+    if (!modelType && historyDays < COLD_START_BLEND_DAYS) {
+      const sinceLaunch = historyDays > 0 ? history : [];
+      const curve = await coldStartService.getAnalogCurve(product, historyDays, sinceLaunch.map(d => d.demand), days);
+      if (curve) {
+        this.blendAnalogCurve(forecast, curve, ownHistoryWeight(historyDays), this.demandFactors(sinceLaunch, calendar, applied));
+      }
+    }
+    forecast.accuracy = await backtestService.getAccuracy(productId, forecast.modelType);
+
+    if (classification) {
+      forecast.demandPattern = {
+        pattern: classification.pattern,
+        adi: classification.adi,
+        cv2: classification.cv2
+      };
+    }
+
+    forecast.censoredDays = history.filter(d => d.censored).length;
+    forecast.promotions = {
+      included: includePromotions,
+      planned: drivers.plannedAfter(lastDay),
+      effects: drivers.estimateEffects(history)
+    };
     
     // Cache the result for 1 hour
     await cache.set(cacheKey, JSON.stringify(forecast), 3600);
     
-    return forecast;
+    return this.withQuantiles(forecast, quantiles);
+  }
+
+  /**
+   * Backtests every forecasting model on the product's history (see BacktestService.run) and stores the
+   * results. Stored results computed with the same horizon within the last day are returned unless
+   * `refresh` is set. Neural network origins train a network on that product's data before the origin, leaving
+   * the category models untouched.
+   */
+  async backtestForecasts(
+    productId: string,
+    options: { horizon: number; origins: number; modelTypes: ForecastModelType[]; refresh: boolean }
+  ): Promise<{ results: BacktestResult[]; bestModel: string | null; cached: boolean }> {
+    const product = await prisma.product.findUnique({ where: { id: productId }, include: { location: true } });
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const stored = await backtestService.getResults(productId);
+    const requested = stored.filter(r => options.modelTypes.includes(r.modelType as ForecastModelType));
+    if (!options.refresh && requested.length === options.modelTypes.length && backtestService.isFresh(requested, options.horizon)) {
+      return { results: requested, bestModel: this.bestModel(requested), cached: true };
+    }
+
+    const historicalData = await this.getHistoricalDemandData(productId, HISTORY_DAYS);
+    const historyDays = Math.min(await this.getHistoryDays(productId), historicalData.length);
+    // Every origin forecasts days inside the history, so one calendar and one set of promotions cover them all
+    const calendar = await this.getEventCalendar(product, historicalData, 0);
+    const drivers = await this.getDemandDrivers(productId, historicalData, 0);
+
+    const forecasters = Object.fromEntries(options.modelTypes.map(modelType => {
+      const forecaster: BacktestForecaster = async (training, horizon) => {
+        // History available at this origin: what is left of it once the replayed days are removed
+        const trainingHistoryDays = historyDays - (historicalData.length - training.length);
+        if (trainingHistoryDays <= 0) return null;
+
+        let network: tf.LayersModel | undefined;
+        if (modelType === 'NEURAL_NETWORK') {
+          network = await modelTrainingService.trainOnSeries(training, calendar, drivers) ?? undefined;
+          if (!network) return null;
+        }
+        try {
+          const forecast = await this.runModel(
+            modelType, product, training, trainingHistoryDays, horizon, calendar, drivers, network
+          );
+          // A model that fell back to another one on too little data is not being measured
+          return forecast.modelType === modelType ? forecast.predictions : null;
+        } finally {
+          network?.dispose();
+        }
+      };
+      return [modelType, forecaster];
+    }));
+
+    const results = await backtestService.run(productId, historicalData, forecasters, {
+      horizon: options.horizon,
+      origins: options.origins,
+      historyStart: historicalData.length - historyDays,
+      minTrainingDays: BACKTEST_MIN_TRAINING_DAYS
+    });
+
+    // Forecast accuracy is read from the stored backtests
+    await cache.invalidate(`forecast:${productId}:*`);
+
+    return { results, bestModel: this.bestModel(results), cached: false };
+  }
+
+  // Stored backtest results for the models, without running anything
+  async getBacktestResults(
+    productId: string,
+    modelTypes: ForecastModelType[]
+  ): Promise<{ results: BacktestResult[]; bestModel: string | null; running: boolean }> {
+    await this.assertProductExists(productId);
+
+    const results = (await backtestService.getResults(productId))
+      .filter(r => modelTypes.includes(r.modelType as ForecastModelType));
+    return { results, bestModel: this.bestModel(results), running: runningBacktests.has(productId) };
+  }
+
+  /**
+   * Runs backtestForecasts in the background, since the neural network alone trains once per origin. Returns
+   * false when a backtest is already running for the product; its results replace the stored ones when done.
+   */
+  async startBacktest(
+    productId: string,
+    options: { horizon: number; origins: number; modelTypes: ForecastModelType[]; refresh: boolean }
+  ): Promise<boolean> {
+    await this.assertProductExists(productId);
+    if (runningBacktests.has(productId)) return false;
+
+    runningBacktests.add(productId);
+    this.backtestForecasts(productId, options)
+      .catch(error => console.error(`Backtest failed for product ${productId}:`, error))
+      .finally(() => runningBacktests.delete(productId));
+    return true;
+  }
+
+  /**
+   * Backtests the candidate models and records the one with the lowest score on the metric as the product's
+   * forecasting model. Later forecasts use it unless a model type is requested explicitly. Counts as the
+   * product's running backtest, so it fails when another one is running rather than racing its stored results.
+   */
+  async selectForecastModel(
+    productId: string,
+    options: { metric?: SelectionMetric; refresh?: boolean } = {}
+  ): Promise<ModelSelection | null> {
+    if (runningBacktests.has(productId)) {
+      throw new Error('A backtest is already running for this product');
+    }
+
+    runningBacktests.add(productId);
+    try {
+      const metric = options.metric ?? DEFAULT_SELECTION_METRIC;
+      const { results } = await this.backtestForecasts(productId, {
+        horizon: 7,
+        origins: 6,
+        modelTypes: SELECTION_CANDIDATES,
+        refresh: options.refresh ?? false
+      });
+
+      const ordered = SELECTION_CANDIDATES.flatMap(modelType => results.filter(r => r.modelType === modelType));
+      const choice = modelSelectionService.choose(ordered, metric);
+      if (!choice) return null;
+
+      const selection = await modelSelectionService.record(productId, choice);
+      await cache.invalidate(`forecast:${productId}:*`);
+
+      return selection;
+    } finally {
+      runningBacktests.delete(productId);
+    }
+  }
+
+  // Runs selectForecastModel in the background; false when a backtest is already running for the product
+  async startModelSelection(
+    productId: string,
+    options: { metric?: SelectionMetric; refresh?: boolean } = {}
+  ): Promise<boolean> {
+    await this.assertProductExists(productId);
+    if (runningBacktests.has(productId)) return false;
+
+    this.selectForecastModel(productId, options)
+      .then(selection => {
+        if (!selection) console.warn(`Not enough history to select a forecasting model for product ${productId}`);
+      })
+      .catch(error => console.error(`Model selection failed for product ${productId}:`, error));
+    return true;
+  }
+
+  // The recorded selection, and whether a backtest that may replace it is running
+  async getForecastModelSelection(productId: string): Promise<{ selection: ModelSelection | null; running: boolean }> {
+    const selection = await modelSelectionService.getSelection(productId);
+    return { selection, running: runningBacktests.has(productId) };
   }
 
+  private async assertProductExists(productId: string) {
+    const product = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+    if (!product) {
+      throw new Error('Product not found');
+    }
+  }
+
+  private bestModel(results: BacktestResult[]): string | null {
+    return modelSelectionService.choose(results, DEFAULT_SELECTION_METRIC)?.modelType ?? null;
+  }
+
+  private async runModel(
+    modelType: ForecastModelType,
+    product: any,
+    historicalData: any[],
+    historyDays: number,
+    days: number,
+    calendar: EventCalendar,
+    drivers: DemandDrivers,
+    network?: tf.LayersModel
+  ): Promise<ForecastResult> {
+    // The zero-filled days before the first sale are not history
+    const history = historicalData.slice(-Math.max(1, historyDays));
+
+    switch (modelType) {
+      case 'STATISTICAL':
+        // Use simple statistical methods for products with limited data
+        return this.generateStatisticalForecast(product.id, history, days, calendar, drivers);
+      case 'HOLT_WINTERS':
+        return this.generateHoltWintersForecast(product.id, history, days, calendar, drivers);
+      case 'NEURAL_NETWORK':
+        // The network reads fixed-length input windows, padding included
+        return this.generateNeuralNetworkForecast(product, historicalData, days, calendar, drivers, network);
+      default:
+        return this.generateIntermittentForecast(product.id, history, days, modelType);
+    }
+  }
+
+  /**
+   * Mixes each forecast day with the analog curve, weighting the product's own model by `ownWeight`. The curve
+   * gets the product's price, promotion and calendar factors, since the analogs' launches had their own.
+   */
+  private blendAnalogCurve(
+    forecast: ForecastResult,
+    curve: AnalogCurve,
+    ownWeight: number,
+    demandFactor: (date: string) => number
+  ) {
+    const mix = (own: number, analog: number) => Math.round((ownWeight * own + (1 - ownWeight) * analog) * 100) / 100;
+    const meanCurve = curve.values.length > 0 ? ss.mean(curve.values) : 0;
+    const analogConfidence = Math.max(0.3, Math.min(0.95, meanCurve > 0 ? 1 - curve.stdDev / meanCurve : 0.3));
+
+    // The spreads are mixed like the forecasts, as if the two errors were fully correlated, which errs on the wide side
+    forecast.predictions = forecast.predictions.map((prediction, i) => {
+      const factor = demandFactor(prediction.date);
+      const analog = (curve.values[i] ?? 0) * factor;
+
+      return this.forecastPoint(
+        prediction.date,
+        mix(prediction.predictedDemand, analog),
+        mix(prediction.confidence, analogConfidence),
+        mix(prediction.stdDev, curve.stdDev * factor)
+      );
+    });
+
+    forecast.coldStart = {
+      source: curve.source,
+      analogs: curve.analogs.map(({ productId, name, matchedOn }) => ({ productId, name, matchedOn })),
+      ownWeight: Math.round(ownWeight * 1000) / 1000,
+      levelScale: curve.levelScale
+    };
+  }
+
+  // A forecast day with its demand quantiles at the default levels; the bounds are its central 95% interval
+  private forecastPoint(date: string, predictedDemand: number, confidence: number, stdDev: number) {
+    const spread = Math.round(stdDev * 100) / 100;
+
+    return {
+      date,
+      predictedDemand,
+      confidence,
+      stdDev: spread,
+      quantiles: demandDistributionService.quantiles(predictedDemand, spread, DEFAULT_QUANTILES),
+      upperBound: demandDistributionService.quantile(predictedDemand, spread, UPPER_BOUND_LEVEL),
+      lowerBound: demandDistributionService.quantile(predictedDemand, spread, LOWER_BOUND_LEVEL)
+    };
+  }
+
+  // Forecasts are cached with the default quantiles; other levels are read from each day's mean and spread
+  private withQuantiles(forecast: ForecastResult, levels: number[]): ForecastResult {
+    if (levels === DEFAULT_QUANTILES) return forecast;
+
+    return {
+      ...forecast,
+      predictions: forecast.predictions.map(prediction => ({
+        ...prediction,
+        quantiles: demandDistributionService.quantiles(prediction.predictedDemand, prediction.stdDev, levels)
+      }))
+    };
+  }
+
+  // Holidays, paydays and custom events of the product's region, from the first day of history to the last forecast day
+  private async getEventCalendar(product: any, historicalData: any[], days: number): Promise<EventCalendar> {
+    const from = historicalData.length > 0 ? new Date(historicalData[0].date) : new Date();
+    return calendarService.getCalendar(from, this.forecastDate(historicalData, days), product.location?.region ?? null);
+  }
+
+  // Promotions and regular price history of the product over the same range
+  private async getDemandDrivers(productId: string, historicalData: any[], days: number): Promise<DemandDrivers> {
+    const from = historicalData.length > 0 ? new Date(historicalData[0].date) : new Date();
+    return promotionService.getProductDrivers(productId, from, this.forecastDate(historicalData, days));
+  }
+
+  /**
+   * Demand multiplier of each day's price, promotion and calendar events, learned from the history. Models fit
+   * demand divided by it, so a past promotion or holiday is not mistaken for level or trend, and forecast
+   * days are multiplied by it.
+   */
+  private demandFactors(historicalData: any[], calendar?: EventCalendar, drivers?: DemandDrivers): (date: string) => number {
+    const promotionEffects = drivers?.estimateEffects(historicalData);
+    const promotionFactor = (date: string) => drivers && promotionEffects ? drivers.factorOn(date, promotionEffects) : 1;
+
+    // Event effects are measured once promotions and price changes are taken out, so neither absorbs the other
+    const eventEffects = calendar?.estimateEffects(
+      historicalData.map(d => ({ date: d.date, demand: d.demand / promotionFactor(d.date) }))
+    ) ?? new Map<string, number>();
+
+    return (date: string) => promotionFactor(date) * (calendar ? calendar.effectOn(date, eventEffects) : 1);
+  }
+
+  // Daily demand with stockout days imputed (see StockoutService), so models do not learn that demand stopped
   private async getHistoricalDemandData(productId: string, days: number) {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    const movements = await prisma.stockMovement.findMany({
-      where: {
-        productId,
-        movementType: 'OUT',
-        createdAt: { gte: startDate }
-      },
-      orderBy: { createdAt: 'asc' }
+    const history = await stockoutService.getDemandHistory(productId, days);
+
+    return history.map(day => {
+      const date = new Date(day.date);
+
+      return {
+        date: day.date,
+        demand: day.demand,
+        observedDemand: day.observedDemand,
+        censored: day.censored,
+        dayOfWeek: date.getUTCDay(),
+        dayOfMonth: date.getUTCDate(),
+        month: date.getUTCMonth(),
+        isWeekend: date.getUTCDay() === 0 || date.getUTCDay() === 6
+      };
     });
+  }
 
-    // Group by day and calculate daily demand
-    const dailyDemand = new Map<string, number>();
-    
-    movements.forEach(movement => {
-      const date = movement.createdAt.toISOString().split('T')[0];
-      const current = dailyDemand.get(date) || 0;
-      dailyDemand.set(date, current + Math.abs(movement.quantity));
+  // Days since the product's first sale; 0 when it has never sold
+  private async getHistoryDays(productId: string): Promise<number> {
+    const first = await prisma.stockMovement.findFirst({
+      where: { productId, movementType: 'OUT' },
+      orderBy: { createdAt: 'asc' },
+      select: { createdAt: true }
     });
 
-    // Fill missing days with 0
-    const result = [];
-    for (let i = days - 1; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateStr = date.toISOString().split('T')[0];
-      
-      result.push({
-        date: dateStr,
-        demand: dailyDemand.get(dateStr) || 0,
-        dayOfWeek: date.getDay(),
-        dayOfMonth: date.getDate(),
-        month: date.getMonth(),
-        isWeekend: date.getDay() === 0 || date.getDay() === 6
-      });
+    if (!first) return 0;
+    return Math.ceil((Date.now() - first.createdAt.getTime()) / (24 * 60 * 60 * 1000));
+  }
+
+  private async generateHoltWintersForecast(
+    productId: string,
+    historicalData: any[],
+    days: number,
+    calendar?: EventCalendar,
+    drivers?: DemandDrivers
+  ): Promise<ForecastResult> {
+    // Two full weeks are needed to initialize the level, trend and weekly seasonals
+    if (historicalData.length < 14) {
+      return this.generateStatisticalForecast(productId, historicalData, days, calendar, drivers);
     }
 
-    return result;
+    const demandFactor = this.demandFactors(historicalData, calendar, drivers);
+    const demands: number[] = historicalData.map(d => d.demand / demandFactor(d.date));
+
+    const fit = holtWintersService.fit(demands, 7);
+    const mean = ss.mean(demands);
+
+    const predictions = holtWintersService.forecast(fit, days).map((point, i) => {
+      const date = this.forecastDate(historicalData, i + 1);
+      const day = date.toISOString().split('T')[0];
+      const factor = demandFactor(day);
+
+      return this.forecastPoint(
+        day,
+        Math.round(point.value * factor),
+        Math.round(Math.max(0.3, Math.min(0.95, mean > 0 ? 1 - point.stdDev / mean : 0.3)) * 100) / 100,
+        point.stdDev * factor
+      );
+    });
+
+    return {
+      productId,
+      predictions,
+      accuracy: null,
+      modelType: 'HOLT_WINTERS',
+      modelParameters: {
+        variant: fit.variant,
+        seasonLength: fit.seasonLength,
+        alpha: fit.alpha,
+        beta: fit.beta,
+        gamma: fit.gamma,
+        observations: fit.observations
+      }
+    };
+  }
+
+  private async generateIntermittentForecast(
+    productId: string,
+    historicalData: any[],
+    days: number,
+    method: IntermittentMethod
+  ): Promise<ForecastResult> {
+    const demands: number[] = historicalData.map(d => d.demand);
+    const fit = intermittentDemandService.fit(demands, method);
+    const mean = ss.mean(demands);
+
+    // The rate is an expected value per day, so it is kept fractional rather than rounded to zero
+    const predictedDemand = Math.round(fit.rate * 100) / 100;
+    const confidence = Math.round(Math.max(0.3, Math.min(0.95, mean > 0 ? 1 - fit.residualStdDev / mean : 0.3)) * 100) / 100;
+
+    // The smoothed rate is itself uncertain, so each day further out adds to the error variance as for simple
+    // exponential smoothing: sigma² (1 + (h - 1) alpha²)
+    const predictions = Array.from({ length: days }, (_, i) => {
+      const date = this.forecastDate(historicalData, i + 1);
+
+      return this.forecastPoint(
+        date.toISOString().split('T')[0],
+        predictedDemand,
+        confidence,
+        fit.residualStdDev * Math.sqrt(1 + i * fit.alpha ** 2)
+      );
+    });
+
+    return {
+      productId,
+      predictions,
+      accuracy: null,
+      modelType: method,
+      modelParameters: {
+        alpha: fit.alpha,
+        [method === 'TSB' ? 'probabilitySmoothing' : 'intervalSmoothing']: fit.beta,
+        dailyRate: Math.round(fit.rate * 1000) / 1000,
+        observations: demands.length
+      }
+    };
   }
 
   private async generateStatisticalForecast(
     productId: string, 
     historicalData: any[], 
-    days: number
+    days: number,
+    calendar?: EventCalendar,
+    drivers?: DemandDrivers
   ): Promise<ForecastResult> {
     const demands = historicalData.map(d => d.demand);
+    const demandFactor = this.demandFactors(historicalData, calendar, drivers);
     
-    // Calculate basic statistics
-    const mean = ss.mean(demands);
-    const stdDev = ss.standardDeviation(demands);
-    const trend = this.calculateTrend(demands);
+    // Calculate basic statistics; a single day of history has no spread
+    const mean = demands.length > 0 ? ss.mean(demands) : 0;
+    const stdDev = demands.length > 1 ? ss.standardDeviation(demands) : 0;
+    // Too short a history is forecast flat at its recent average
+    const trend = demands.length >= STATISTICAL_MIN_TREND_DAYS ? this.calculateTrend(demands) : 0;
     
     // Generate predictions using moving average with trend
     const predictions = [];
     const windowSize = Math.min(7, demands.length);
-    const recentAverage = ss.mean(demands.slice(-windowSize));
+    // Event and promotion effects are taken out of the recent average so a holiday or promotion last week
+    // does not lift every day ahead
+    const recentAverage = windowSize > 0 ? ss.mean(historicalData.slice(-windowSize).map(d => d.demand / demandFactor(d.date))) : 0;
+
+    // Error variance of a day h ahead: the day's own spread, the error of the recent average and that of the
+    // trend slope carried h days, sigma² (1 + 1/w + h²/Sxx)
+    const sxx = trend !== 0 ? demands.length * (demands.length ** 2 - 1) / 12 : 0;
+    const errorFactor = (h: number) =>
+      Math.sqrt(1 + (windowSize > 0 ? 1 / windowSize : 0) + (sxx > 0 ? h * h / sxx : 0));
     
     for (let i = 0; i < days; i++) {
+      const date = this.forecastDate(historicalData, i + 1);
+      const day = date.toISOString().split('T')[0];
       const trendAdjustment = trend * (i + 1);
-      const seasonalFactor = this.getSeasonalFactor(i, historicalData);
+      const factor = this.getSeasonalFactor(date, historicalData) * demandFactor(day);
       
-      const predictedDemand = Math.max(0, Math.round(
-        (recentAverage + trendAdjustment) * seasonalFactor
-      ));
-      
-      const confidence = Math.max(0.3, 1 - (stdDev / mean));
-      const margin = stdDev * 1.96; // 95% confidence interval
+      const predictedDemand = Math.max(0, Math.round((recentAverage + trendAdjustment) * factor));
       
-      const date = new Date();
-      date.setDate(date.getDate() + i + 1);
+      const confidence = mean > 0 ? Math.max(0.3, 1 - (stdDev / mean)) : 0.3;
       
-      predictions.push({
-        date: date.toISOString().split('T')[0],
+      predictions.push(this.forecastPoint(
+        day,
         predictedDemand,
-        confidence: Math.round(confidence * 100) / 100,
-        upperBound: Math.round(predictedDemand + margin),
-        lowerBound: Math.max(0, Math.round(predictedDemand - margin))
-      });
+        Math.round(confidence * 100) / 100,
+        stdDev * factor * errorFactor(i + 1)
+      ));
     }
 
     return {
       productId,
       predictions,
-      accuracy: confidence,
+      accuracy: null,
       modelType: 'STATISTICAL'
     };
   }
 
+  /**
+   * Inference only: the category network is trained by ModelTrainingService and never fitted here. Demand is
+   * scaled by the product's mean daily demand as in training, and each day's prediction becomes a lag of the next.
+   */
   private async generateNeuralNetworkForecast(
     product: any,
     historicalData: any[],
-    days: number
+    days: number,
+    calendar: EventCalendar,
+    drivers: DemandDrivers,
+    network?: tf.LayersModel
   ): Promise<ForecastResult> {
-    const model = this.models.get(product.categoryId);
-    if (!model) {
-      throw new Error('Model not found for category');
-    }
+    const model = network ?? await this.getCategoryModel(product.categoryId);
+    const scale = demandScale(historicalData.map(d => d.demand));
 
-    // Prepare training data
-    const { inputs, outputs } = this.prepareTrainingData(historicalData);
-    
-    if (inputs.length < 10) {
+    if (!model || scale === 0 || historicalData.length < 7) {
       // Fall back to statistical method
-      return this.generateStatisticalForecast(product.id, historicalData, days);
+      return this.generateStatisticalForecast(product.id, historicalData, days, calendar, drivers);
     }
 
-    // Train the model with recent data
-    const xs = tf.tensor2d(inputs);
-    const ys = tf.tensor2d(outputs, [outputs.length, 1]);
-
-    await model.fit(xs, ys, {
-      epochs: 50,
-      batchSize: 8,
-      validationSplit: 0.2,
-      verbose: 0
-    });
-
-    // Generate predictions
     const predictions = [];
-    let lastFeatures = inputs[inputs.length - 1];
+    const lags = historicalData.slice(-7).map(d => d.demand);
+
+    // Each prediction becomes a lag of the next, so errors add up over the horizon: the one-step variance
+    // times the days ahead, until it reaches the variance of demand itself, which the network does no worse than
+    const oneStepVariance = this.networkErrorVariance(model, historicalData, scale, calendar, drivers);
+    const sold = historicalData.slice(historicalData.findIndex(d => d.demand > 0)).map(d => d.demand);
+    const demandVariance = sold.length > 1 ? ss.variance(sold) : 0;
 
     for (let i = 0; i < days; i++) {
-      const prediction = model.predict(tf.tensor2d([lastFeatures])) as tf.Tensor;
-      const predictedValue = await prediction.data();
-      const predictedDemand = Math.max(0, Math.round(predictedValue[0]));
+      const date = this.forecastDate(historicalData, i + 1);
+      const predictedValue = tf.tidy(() =>
+        (model.predict(tf.tensor2d([demandFeatures(lags, date, scale, calendar, drivers)])) as tf.Tensor).dataSync()
+      );
+      const predictedDemand = Math.max(0, Math.round(predictedValue[0] * scale));
 
       // Calculate confidence based on model uncertainty
       const confidence = this.calculatePredictionConfidence(predictedDemand, historicalData);
-      const margin = predictedDemand * 0.2; // 20% margin
-
-      const date = new Date();
-      date.setDate(date.getDate() + i + 1);
+      const variance = Math.min((i + 1) * oneStepVariance, Math.max(oneStepVariance, demandVariance));
 
-      predictions.push({
-        date: date.toISOString().split('T')[0],
-        predictedDemand,
-        confidence,
-        upperBound: Math.round(predictedDemand + margin),
-        lowerBound: Math.max(0, Math.round(predictedDemand - margin))
-      });
+      predictions.push(this.forecastPoint(date.toISOString().split('T')[0], predictedDemand, confidence, Math.sqrt(variance)));
 
-      // Update features for next prediction
-      lastFeatures = this.updateFeatures(lastFeatures, predictedDemand, i + 1);
-      
-      prediction.dispose();
+      lags.shift();
+      lags.push(predictedDemand);
     }
 
-    xs.dispose();
-    ys.dispose();
-
-    // Calculate model accuracy
-    const accuracy = await this.calculateModelAccuracy(model, inputs, outputs);
-
     return {
       productId: product.id,
       predictions,
-      accuracy,
+      accuracy: null,
       modelType: 'NEURAL_NETWORK'
     };
   }
 
-  private prepareTrainingData(historicalData: any[]) {
-    const inputs = [];
-    const outputs = [];
-    const windowSize = 10;
-
-    for (let i = windowSize; i < historicalData.length; i++) {
-      const features = [];
-      
-      // Historical demand (last 7 days)
-      for (let j = 7; j > 0; j--) {
-        features.push(historicalData[i - j].demand);
-      }
-      
-      // Additional features
-      features.push(historicalData[i].dayOfWeek);
-      features.push(historicalData[i].dayOfMonth);
-      features.push(historicalData[i].month);
-      
-      inputs.push(features);
-      outputs.push(historicalData[i].demand);
-    }
-
-    return { inputs, outputs };
+  // Mean squared one-step error of the network over the history since the first sale, predicted in one batch
+  private networkErrorVariance(
+    model: tf.LayersModel,
+    historicalData: any[],
+    scale: number,
+    calendar: EventCalendar,
+    drivers: DemandDrivers
+  ): number {
+    const demands: number[] = historicalData.map(d => d.demand);
+    const start = Math.max(7, demands.findIndex(d => d > 0) + 1);
+    if (start >= demands.length) return 0;
+
+    const inputs = demands.slice(start).map((_, j) =>
+      demandFeatures(demands.slice(start + j - 7, start + j), new Date(historicalData[start + j].date), scale, calendar, drivers)
+    );
+    const predicted = tf.tidy(() => (model.predict(tf.tensor2d(inputs)) as tf.Tensor).dataSync());
+
+    return ss.mean(inputs.map((_, j) => (Math.max(0, predicted[j] * scale) - demands[start + j]) ** 2));
   }
 
-  private updateFeatures(features: number[], newDemand: number, dayOffset: number): number[] {
-    const newFeatures = [...features];
-    
-    // Shift demand history
-    for (let i = 0; i < 6; i++) {
-      newFeatures[i] = newFeatures[i + 1];
-    }
-    newFeatures[6] = newDemand;
-    
-    // Update date features
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + dayOffset);
-    
-    newFeatures[7] = futureDate.getDay();
-    newFeatures[8] = futureDate.getDate();
-    newFeatures[9] = futureDate.getMonth();
-    
-    return newFeatures;
+  // Days after the last day of history, so forecasts can also be replayed from earlier origins
+  private forecastDate(historicalData: any[], daysAhead: number): Date {
+    const date = historicalData.length > 0 ? new Date(historicalData[historicalData.length - 1].date) : new Date();
+    date.setUTCDate(date.getUTCDate() + daysAhead);
+    return date;
   }
 
   private calculateTrend(demands: number[]): number {
@@ -355,18 +826,19 @@ export class AIService {
     return regression.slope;
   }
 
-  private getSeasonalFactor(dayOffset: number, historicalData: any[]): number {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + dayOffset);
-    const dayOfWeek = futureDate.getDay();
+  private getSeasonalFactor(futureDate: Date, historicalData: any[]): number {
+    const dayOfWeek = futureDate.getUTCDay();
+
+    // A weekday seen once says nothing about the weekly pattern, so every weekday needs a few observations
+    const observations = new Array(7).fill(0);
+    historicalData.forEach(d => observations[new Date(d.date).getUTCDay()]++);
+    if (observations.some(count => count < STATISTICAL_MIN_WEEKDAY_OBSERVATIONS)) return 1;
     
     // Calculate average demand for this day of week
     const sameDayDemands = historicalData
-      .filter(d => new Date(d.date).getDay() === dayOfWeek)
+      .filter(d => new Date(d.date).getUTCDay() === dayOfWeek)
       .map(d => d.demand);
     
-    if (sameDayDemands.length === 0) return 1;
-    
     const avgSameDayDemand = ss.mean(sameDayDemands);
     const overallAverage = ss.mean(historicalData.map(d => d.demand));
     
@@ -385,36 +857,10 @@ export class AIService {
     return Math.max(0.3, Math.min(0.95, 1 - (normalizedDeviation * 0.1)));
   }
 
-  private async calculateModelAccuracy(model: tf.LayersModel, inputs: number[][], outputs: number[]): Promise<number> {
-    if (inputs.length === 0) return 0.5;
-    
-    const xs = tf.tensor2d(inputs);
-    const ys = tf.tensor2d(outputs, [outputs.length, 1]);
-    
-    const predictions = model.predict(xs) as tf.Tensor;
-    const predictionData = await predictions.data();
-    
-    // Calculate Mean Absolute Percentage Error (MAPE)
-    let totalError = 0;
-    let validPredictions = 0;
-    
-    for (let i = 0; i < outputs.length; i++) {
-      if (outputs[i] !== 0) {
-        const error = Math.abs((outputs[i] - predictionData[i]) / outputs[i]);
-        totalError += error;
-        validPredictions++;
-      }
-    }
-    
-    xs.dispose();
-    ys.dispose();
-    predictions.dispose();
-    
-    const mape = validPredictions > 0 ? totalError / validPredictions : 1;
-    return Math.max(0, 1 - mape); // Convert to accuracy score
-  }
-
-  async optimizeStockLevels(productId: string): Promise<OptimizationResult> {
+  async optimizeStockLevels(
+    productId: string,
+    serviceTarget: Partial<Pick<ParameterValues, 'serviceLevel' | 'serviceLevelType' | 'safetyStockMethod'>> = {}
+  ): Promise<OptimizationResult> {
     const product = await prisma.product.findUnique({
       where: { id: productId }
     });
@@ -430,23 +876,63 @@ export class AIService {
     const avgDailyDemand = forecast.predictions.reduce((sum, p) => sum + p.predictedDemand, 0) / 30;
     const annualDemand = avgDailyDemand * 365;
     
-    // Estimated costs (these should be configurable per product)
-    const orderingCost = 50; // Cost per order
-    const holdingCostRate = 0.25; // 25% of unit price per year
-    const holdingCost = product.unitPrice ? Number(product.unitPrice) * holdingCostRate : 10;
-    
-    // EOQ calculation
-    const eoq = Math.sqrt((2 * annualDemand * orderingCost) / holdingCost);
-    
-    // Safety stock calculation (based on demand variability)
+    // Product, supplier, category, ABC class or global settings, whichever is most specific
+    const abcClass = await serviceLevelService.getAbcClass(productId);
+    const parameters = await parameterService.resolve(productId, abcClass);
+    if (serviceTarget.serviceLevel !== undefined) {
+      parameters.serviceLevel = { value: serviceTarget.serviceLevel, source: 'REQUEST' };
+    }
+    if (serviceTarget.serviceLevelType !== undefined) {
+      parameters.serviceLevelType = { value: serviceTarget.serviceLevelType, source: 'REQUEST' };
+    }
+    if (serviceTarget.safetyStockMethod !== undefined) {
+      parameters.safetyStockMethod = { value: serviceTarget.safetyStockMethod, source: 'REQUEST' };
+    }
+
+    // EOQ across the supplier's price breaks, respecting its minimum order quantity and pack size
+    const orderQuantity = orderQuantityService.optimize({
+      annualDemand,
+      orderingCost: parameters.orderingCost.value, // Cost per order
+      holdingCostRate: parameters.holdingCostRate.value, // Share of unit cost per year
+      baseUnitCost: Number(product.unitCost ?? product.unitPrice ?? 0),
+      terms: await supplierTermsService.getTerms(product.supplierId, productId)
+    });
+    const holdingCost = orderQuantity.unitHoldingCost;
+
+    // Observed supplier lead times replace category, class and global settings but not an explicit
+    // product or supplier setting. Their spread is used either way once there are enough receipts.
+    const leadTimeStats = await leadTimeService.getSupplierLeadTime(product.supplierId);
+    const observed = leadTimeStats.observations >= MIN_LEAD_TIME_OBSERVATIONS;
+    if (observed && parameters.leadTimeDays.source !== 'PRODUCT' && parameters.leadTimeDays.source !== 'SUPPLIER') {
+      parameters.leadTimeDays = { value: leadTimeStats.meanDays!, source: 'OBSERVED' };
+    }
+    const leadTime = parameters.leadTimeDays.value;
+    const leadTimeStdDev = observed ? leadTimeStats.stdDevDays! : 0;
+
+    // Safety stock calculation: demand variability over the lead time plus lead-time variability at average demand
     const demandVariability = this.calculateDemandVariability(forecast.predictions);
-    const serviceLevel = 0.95; // 95% service level
-    const zScore = 1.645; // Z-score for 95% service level
-    const leadTime = 7; // Assume 7 days lead time
-    
-    const safetyStock = zScore * Math.sqrt(leadTime) * demandVariability;
-    const reorderPoint = (avgDailyDemand * leadTime) + safetyStock;
-    const optimalStock = eoq + safetyStock;
+    // The quantile method uses the forecast's own distribution of demand over the lead time instead
+    const leadTimeDemand = parameters.safetyStockMethod.value === 'QUANTILE'
+      ? this.leadTimeDemand(forecast.predictions, leadTime, avgDailyDemand * leadTimeStdDev)
+      : undefined;
+    const leadTimeDemandSd = leadTimeDemand?.stdDev ?? Math.sqrt(
+      leadTime * demandVariability ** 2 + (avgDailyDemand * leadTimeStdDev) ** 2
+    );
+
+    const serviceLevel = serviceLevelService.evaluate({
+      type: parameters.serviceLevelType.value,
+      target: parameters.serviceLevel.value,
+      abcClass,
+      orderQuantity: orderQuantity.orderQuantity,
+      leadTimeDemandSd,
+      avgDailyDemand,
+      unitHoldingCost: holdingCost,
+      leadTimeDemand
+    });
+
+    const safetyStock = serviceLevel.safetyStock;
+    const reorderPoint = (leadTimeDemand?.mean ?? avgDailyDemand * leadTime) + safetyStock;
+    const optimalStock = orderQuantity.orderQuantity + safetyStock;
     
     // Calculate expected savings
     const currentHoldingCost = product.currentStock * holdingCost / 365 * 30; // Monthly cost
@@ -463,10 +949,38 @@ export class AIService {
       optimalStock: Math.round(optimalStock),
       reorderPoint: Math.round(reorderPoint),
       expectedSavings: Math.round(expectedSavings * 100) / 100,
-      riskLevel
+      riskLevel,
+      parameters,
+      serviceLevel,
+      leadTime: {
+        meanDays: leadTime,
+        stdDevDays: leadTimeStdDev,
+        observations: leadTimeStats.observations
+      },
+      orderQuantity
     };
   }
 
+  /**
+   * Demand over the lead time: the forecast days it spans added up, the last of them counted in part when the
+   * lead time is fractional and repeated when it is longer than the forecast. Daily errors are taken as
+   * independent, and lead-time variability adds its spread at average demand.
+   */
+  private leadTimeDemand(predictions: ForecastResult['predictions'], leadTime: number, leadTimeSpread: number) {
+    let mean = 0;
+    let variance = leadTimeSpread ** 2;
+
+    for (let d = 0; d < Math.ceil(leadTime); d++) {
+      const day = predictions[Math.min(d, predictions.length - 1)];
+      const share = Math.min(1, leadTime - d);
+      mean += share * day.predictedDemand;
+      variance += share * day.stdDev ** 2;
+    }
+
+    const stdDev = Math.sqrt(variance);
+    return { mean, stdDev, quantile: (level: number) => demandDistributionService.quantile(mean, stdDev, level) };
+  }
+
   private calculateDemandVariability(predictions: any[]): number {
     const demands = predictions.map(p => p.predictedDemand);
     return ss.standardDeviation(demands);
@@ -484,18 +998,26 @@ export class AIService {
 
   async detectAnomalies(productId: string): Promise<AnomalyDetection> {
     const historicalData = await this.getHistoricalDemandData(productId, 90);
-    const demands = historicalData.map(d => d.demand);
     
-    if (demands.length < 14) {
+    if (historicalData.length < 14) {
       return { productId, anomalies: [] };
     }
 
+    // Promotions and price changes explain their own demand, so scores are computed with their effects taken out
+    const drivers = await this.getDemandDrivers(productId, historicalData, 0);
+    const effects = drivers.estimateEffects(historicalData);
+    const factors = historicalData.map(d => drivers.factorOn(d.date, effects));
+    const demands = historicalData.map((d, i) => d.demand / factors[i]);
+
     const mean = ss.mean(demands);
     const stdDev = ss.standardDeviation(demands);
     const anomalies = [];
 
     // Use Z-score method for anomaly detection
     for (let i = 7; i < historicalData.length; i++) {
+      // Demand on stockout days is imputed, so there is no observation to call anomalous
+      if (historicalData[i].censored) continue;
+
       const recentAvg = ss.mean(demands.slice(i - 7, i));
       const currentDemand = demands[i];
       
@@ -506,8 +1028,8 @@ export class AIService {
         
         anomalies.push({
           date: historicalData[i].date,
-          actualDemand: currentDemand,
-          expectedDemand: Math.round(recentAvg),
+          actualDemand: historicalData[i].demand,
+          expectedDemand: Math.round(recentAvg * factors[i]),
           anomalyScore: Math.round(zScore * 100) / 100,
           severity
         });
@@ -528,7 +1050,7 @@ export class AIService {
 
     // Forecast insights
     const avgPrediction = forecast.predictions.reduce((sum, p) => sum + p.predictedDemand, 0) / 30;
-    if (forecast.accuracy < 0.7) {
+    if (forecast.accuracy !== null && forecast.accuracy < 0.7) {
       insights.push({
         type: 'WARNING',
         title: 'Low Forecast Accuracy',
@@ -583,18 +1105,9 @@ export class AIService {
     };
   }
 
-  async saveModel(categoryId: string): Promise<void> {
-    const model = this.models.get(categoryId);
-    if (!model) return;
-
-    const savePath = `./models/demand_forecast_${categoryId}`;
-    await model.save(`file://${savePath}`);
-    console.log(`Model saved for category: ${categoryId}`);
-  }
-
   async cleanup(): Promise<void> {
     // Dispose of all models to free memory
-    for (const [categoryId, model] of this.models) {
+    for (const [categoryId, { model }] of this.models) {
       model.dispose();
       console.log(`Model disposed for category: ${categoryId}`);
     }
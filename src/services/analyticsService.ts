@@ -0,0 +1,318 @@
+import { PrismaClient } from '@prisma/client';
+import { CacheService } from './cacheService';
+import { ForecastReconciliationService, ReconciledForecast, ReconciliationMethod } from './forecastReconciliationService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+const reconciliationService = new ForecastReconciliationService();
+
+export type AnalyticsPeriod = '30d' | '90d' | '1y';
+
+export const ANALYTICS_PERIODS: Record<AnalyticsPeriod, { days: number; bucket: 'week' | 'month' }> = {
+  '30d': { days: 30, bucket: 'week' },
+  '90d': { days: 90, bucket: 'week' },
+  '1y': { days: 365, bucket: 'month' }
+};
+
+// Horizon of the demand forecast section, the same as the daily product forecasts
+const DEMAND_FORECAST_DAYS = 30;
+
+// Used when a product has no unitCost recorded
+const DEFAULT_COST_RATIO = 0.6;
+
+const CATEGORY_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6366F1'];
+
+export interface CategoryDistributionEntry {
+  name: string;
+  value: number;
+  color: string;
+}
+
+export interface TurnoverMetric {
+  period: string;
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+export interface PerformanceScores {
+  accuracy: number;
+  efficiency: number;
+  costOptimization: number;
+  serviceLevel: number;
+}
+
+// Reconciled total, category and warehouse forecasts; product-level detail is left to the forecasting API
+export type DemandForecast = Omit<ReconciledForecast, 'products'>;
+
+export interface AnalyticsData {
+  categoryDistribution: CategoryDistributionEntry[];
+  turnoverMetrics: TurnoverMetric[];
+  performanceScores: PerformanceScores;
+  demandForecast: DemandForecast;
+}
+
+export class AnalyticsService {
+  async getAnalytics(period: AnalyticsPeriod, reconciliation: ReconciliationMethod = 'MINT'): Promise<AnalyticsData> {
+    const cacheKey = `analytics:${period}:${reconciliation}`;
+    const cached = await cache.get(cacheKey);
+
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const [categoryDistribution, turnoverMetrics, performanceScores, demandForecast] = await Promise.all([
+      this.getCategoryDistribution(),
+      this.getTurnoverMetrics(period),
+      this.getPerformanceScores(period),
+      this.getDemandForecast(reconciliation)
+    ]);
+
+    const analytics = { categoryDistribution, turnoverMetrics, performanceScores, demandForecast };
+
+    // Cache for 5 minutes; analytics are read far more often than stock moves
+    await cache.set(cacheKey, JSON.stringify(analytics), 300);
+
+    return analytics;
+  }
+
+  async getCategoryDistribution(): Promise<CategoryDistributionEntry[]> {
+    const products = await prisma.product.findMany({
+      select: { currentStock: true, unitPrice: true, category: { select: { name: true } } }
+    });
+
+    const valueByCategory = new Map<string, number>();
+    products.forEach(product => {
+      const value = product.currentStock * Number(product.unitPrice ?? 0);
+      valueByCategory.set(product.category.name, (valueByCategory.get(product.category.name) || 0) + value);
+    });
+
+    return Array.from(valueByCategory.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, value], index) => ({
+        name,
+        value: this.round(value),
+        color: CATEGORY_COLORS[index % CATEGORY_COLORS.length]
+      }));
+  }
+
+  async getTurnoverMetrics(period: AnalyticsPeriod): Promise<TurnoverMetric[]> {
+    const { bucket } = ANALYTICS_PERIODS[period];
+    const { start, end } = this.getPeriodRange(period);
+
+    const sales = await prisma.stockMovement.findMany({
+      where: {
+        movementType: 'OUT',
+        createdAt: { gte: start, lte: end }
+      },
+      select: {
+        quantity: true,
+        createdAt: true,
+        product: { select: { unitPrice: true, unitCost: true } }
+      }
+    });
+
+    const buckets = this.buildBuckets(start, end, bucket);
+
+    sales.forEach(sale => {
+      const target = buckets.find(b => sale.createdAt >= b.start && sale.createdAt < b.end);
+      if (!target) return;
+
+      const quantity = Math.abs(sale.quantity);
+      const unitPrice = Number(sale.product.unitPrice ?? 0);
+      const unitCost = sale.product.unitCost !== null
+        ? Number(sale.product.unitCost)
+        : unitPrice * DEFAULT_COST_RATIO;
+
+      target.revenue += quantity * unitPrice;
+      target.cost += quantity * unitCost;
+    });
+
+    return buckets.map(b => ({
+      period: b.label,
+      revenue: this.round(b.revenue),
+      cost: this.round(b.cost),
+      profit: this.round(b.revenue - b.cost)
+    }));
+  }
+
+  async getPerformanceScores(period: AnalyticsPeriod): Promise<PerformanceScores> {
+    const { start, end } = this.getPeriodRange(period);
+
+    const products = await prisma.product.findMany({
+      select: {
+        id: true,
+        currentStock: true,
+        reorderPoint: true,
+        optimalStock: true,
+        unitPrice: true
+      }
+    });
+
+    const [accuracy, serviceLevel] = await Promise.all([
+      this.calculateForecastAccuracy(start, end),
+      this.calculateServiceLevel(products, start, end)
+    ]);
+
+    // Efficiency: share of products stocked above the reorder point without exceeding optimal stock by 25%
+    const healthy = products.filter(p =>
+      p.currentStock > p.reorderPoint && p.currentStock <= p.optimalStock * 1.25
+    ).length;
+    const efficiency = products.length > 0 ? healthy / products.length : 0;
+
+    // Cost optimization: share of inventory value that is not above optimal stock
+    let totalValue = 0;
+    let excessValue = 0;
+    products.forEach(p => {
+      const unitPrice = Number(p.unitPrice ?? 0);
+      totalValue += p.currentStock * unitPrice;
+      excessValue += Math.max(0, p.currentStock - p.optimalStock) * unitPrice;
+    });
+    const costOptimization = totalValue > 0 ? 1 - excessValue / totalValue : 1;
+
+    return {
+      accuracy: this.toPercent(accuracy),
+      efficiency: this.toPercent(efficiency),
+      costOptimization: this.toPercent(costOptimization),
+      serviceLevel: this.toPercent(serviceLevel)
+    };
+  }
+
+  async getDemandForecast(reconciliation: ReconciliationMethod): Promise<DemandForecast> {
+    const { method, horizon, dates, total, categories, warehouses, generatedAt } =
+      await reconciliationService.getReconciledForecast(reconciliation, DEMAND_FORECAST_DAYS);
+    return { method, horizon, dates, total, categories, warehouses, generatedAt };
+  }
+
+  getPeriodRange(period: AnalyticsPeriod) {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(start.getDate() - ANALYTICS_PERIODS[period].days);
+    start.setHours(0, 0, 0, 0);
+    return { start, end };
+  }
+
+  private async calculateForecastAccuracy(start: Date, end: Date): Promise<number> {
+    const [forecasts, sales] = await Promise.all([
+      prisma.forecast.findMany({
+        where: { forecastDate: { gte: start, lte: end } },
+        select: { productId: true, forecastDate: true, predictedDemand: true }
+      }),
+      prisma.stockMovement.findMany({
+        where: { movementType: 'OUT', createdAt: { gte: start, lte: end } },
+        select: { productId: true, quantity: true, createdAt: true }
+      })
+    ]);
+
+    const actualDemand = new Map<string, number>();
+    sales.forEach(sale => {
+      const key = `${sale.productId}:${this.dayKey(sale.createdAt)}`;
+      actualDemand.set(key, (actualDemand.get(key) || 0) + Math.abs(sale.quantity));
+    });
+
+    // Weighted absolute percentage error stays defined on zero-demand days, unlike MAPE
+    let absoluteError = 0;
+    let totalActual = 0;
+    forecasts.forEach(forecast => {
+      const actual = actualDemand.get(`${forecast.productId}:${this.dayKey(forecast.forecastDate)}`) || 0;
+      absoluteError += Math.abs(forecast.predictedDemand - actual);
+      totalActual += actual;
+    });
+
+    if (forecasts.length === 0 || totalActual === 0) return 0;
+    return Math.max(0, 1 - absoluteError / totalActual);
+  }
+
+  private async calculateServiceLevel(
+    products: Array<{ id: string; currentStock: number }>,
+    start: Date,
+    end: Date
+  ): Promise<number> {
+    if (products.length === 0) return 1;
+
+    const movements = await prisma.stockMovement.findMany({
+      where: { createdAt: { gte: start } },
+      select: { productId: true, movementType: true, quantity: true, createdAt: true },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const movementsByProduct = new Map<string, typeof movements>();
+    movements.forEach(m => {
+      const list = movementsByProduct.get(m.productId) || [];
+      list.push(m);
+      movementsByProduct.set(m.productId, list);
+    });
+
+    const days = Math.max(1, Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)));
+    let inStockDays = 0;
+
+    // Walk the ledger backwards from today's stock to rebuild each day's closing stock
+    products.forEach(product => {
+      const productMovements = movementsByProduct.get(product.id) || [];
+      let stock = product.currentStock;
+      let index = 0;
+
+      for (let d = 0; d < days; d++) {
+        const dayEnd = new Date(end);
+        dayEnd.setDate(dayEnd.getDate() - d);
+
+        while (index < productMovements.length && productMovements[index].createdAt > dayEnd) {
+          stock -= this.stockDelta(productMovements[index]);
+          index++;
+        }
+
+        if (stock > 0) inStockDays++;
+      }
+    });
+
+    return inStockDays / (days * products.length);
+  }
+
+  private stockDelta(movement: { movementType: string; quantity: number }): number {
+    return movement.movementType === 'OUT' ? -Math.abs(movement.quantity) : movement.quantity;
+  }
+
+  private buildBuckets(start: Date, end: Date, bucket: 'week' | 'month') {
+    const buckets: Array<{ label: string; start: Date; end: Date; revenue: number; cost: number }> = [];
+    let cursor = new Date(start);
+
+    if (bucket === 'month') {
+      cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+    }
+
+    while (cursor < end) {
+      const next = new Date(cursor);
+      if (bucket === 'week') {
+        next.setDate(next.getDate() + 7);
+      } else {
+        next.setMonth(next.getMonth() + 1);
+      }
+
+      buckets.push({
+        label: bucket === 'week'
+          ? cursor.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+          : cursor.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        start: new Date(cursor),
+        end: next,
+        revenue: 0,
+        cost: 0
+      });
+
+      cursor = next;
+    }
+
+    return buckets;
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private toPercent(ratio: number): number {
+    return Math.round(Math.max(0, Math.min(1, ratio)) * 1000) / 10;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface StoredToken {
+  id: string;
+  tokenHash: string;
+  userId: string;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  replacedById: string | null;
+}
+
+const db = vi.hoisted(() => ({ tokens: [] as StoredToken[], emails: [] as string[] }));
+
+vi.mock('@prisma/client', () => {
+  const user = { id: 'user-1', email: 'user@example.com', name: 'User', role: 'USER' };
+  const matches = (token: StoredToken, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => token[key as keyof StoredToken] === value);
+  // Awaits between reads and writes let concurrent calls interleave the way separate connections would
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const refreshToken = {
+    async findUnique({ where }: { where: Partial<StoredToken> }) {
+      await tick();
+      const token = db.tokens.find(t => matches(t, where));
+      return token ? { ...token, user } : null;
+    },
+    async create({ data }: { data: Pick<StoredToken, 'tokenHash' | 'userId' | 'expiresAt'> }) {
+      await tick();
+      const token = { id: `token-${db.tokens.length + 1}`, revokedAt: null, replacedById: null, ...data };
+      db.tokens.push(token);
+      return token;
+    },
+    async update({ where, data }: { where: { id: string }; data: Partial<StoredToken> }) {
+      await tick();
+      const token = db.tokens.find(t => t.id === where.id)!;
+      Object.assign(token, data);
+      return token;
+    },
+    async updateMany({ where, data }: { where: Partial<StoredToken>; data: Partial<StoredToken> }) {
+      await tick();
+      const matched = db.tokens.filter(t => matches(t, where));
+      matched.forEach(t => Object.assign(t, data));
+      return { count: matched.length };
+    }
+  };
+
+  class PrismaClientKnownRequestError extends Error {
+    constructor(message: string, public code: string) {
+      super(message);
+    }
+  }
+
+  // The unique index on email, checked on insert
+  const userTable = {
+    async findUnique({ where }: { where: { email: string } }) {
+      await tick();
+      return db.emails.includes(where.email) ? { ...user, email: where.email } : null;
+    },
+    async create({ data }: { data: { email: string; name?: string } }) {
+      await tick();
+      if (db.emails.includes(data.email)) {
+        throw new PrismaClientKnownRequestError('Unique constraint failed on the fields: (`email`)', 'P2002');
+      }
+      db.emails.push(data.email);
+      return { ...user, id: `user-${db.emails.length}`, email: data.email, name: data.name ?? null };
+    }
+  };
+
+  class PrismaClient {
+    user = userTable;
+    refreshToken = refreshToken;
+    $transaction<T>(fn: (tx: this) => Promise<T>) {
+      return fn(this);
+    }
+  }
+
+  return { PrismaClient, Prisma: { PrismaClientKnownRequestError } };
+});
+
+vi.mock('bcryptjs', () => ({ default: { hashSync: () => 'hash', hash: async () => 'hash' } }));
+vi.mock('jsonwebtoken', () => ({ default: { sign: () => 'access-token' } }));
+vi.mock('../middleware/auth', () => ({ getJwtSecret: () => 'secret' }));
+
+const { AuthService, AuthError } = await import('./authService');
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+describe('AuthService.refresh', () => {
+  const service = new AuthService();
+
+  beforeEach(() => {
+    db.tokens = [{
+      id: 'token-0',
+      tokenHash: hash('original'),
+      userId: 'user-1',
+      expiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+      replacedById: null
+    }];
+  });
+
+  it('rotates the token and revokes the one presented', async () => {
+    const result = await service.refresh('original');
+
+    expect(result.refreshToken).not.toBe('original');
+    expect(db.tokens).toHaveLength(2);
+    expect(db.tokens[0].revokedAt).not.toBeNull();
+    expect(db.tokens[0].replacedById).toBe(db.tokens[1].id);
+    expect(db.tokens[1].revokedAt).toBeNull();
+  });
+
+  it('lets only one of two concurrent refreshes with the same token rotate it', async () => {
+    const results = await Promise.allSettled([service.refresh('original'), service.refresh('original')]);
+
+    const fulfilled = results.filter(r => r.status === 'fulfilled');
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(AuthError);
+
+    // The loser is treated as reuse, so the whole family including the winner's new token is revoked
+    expect(db.tokens).toHaveLength(2);
+    expect(db.tokens.every(t => t.revokedAt !== null)).toBe(true);
+  });
+
+  it('revokes every session when a rotated token is presented again', async () => {
+    const { refreshToken } = await service.refresh('original');
+
+    await expect(service.refresh('original')).rejects.toThrow('Refresh token has been revoked');
+    await expect(service.refresh(refreshToken)).rejects.toThrow('Refresh token has been revoked');
+  });
+});
+
+describe('AuthService.register', () => {
+  const service = new AuthService();
+
+  beforeEach(() => {
+    db.emails = [];
+  });
+
+  it('gives null for an email that is already registered', async () => {
+    expect(await service.register('new@example.com', 'password1')).toMatchObject({ email: 'new@example.com' });
+    expect(await service.register('new@example.com', 'password1')).toBeNull();
+  });
+
+  it('gives null rather than failing when a concurrent registration takes the email first', async () => {
+    const results = await Promise.all([
+      service.register('new@example.com', 'password1'),
+      service.register('new@example.com', 'password2')
+    ]);
+
+    expect(results.filter(r => r === null)).toHaveLength(1);
+    expect(db.emails).toEqual(['new@example.com']);
+  });
+});
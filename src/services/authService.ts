@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { Prisma, PrismaClient, User } from '@prisma/client';
+import { AuthUser, getJwtSecret } from '../middleware/auth';
+
+const prisma = new PrismaClient();
+
+const BCRYPT_ROUNDS = 10;
+
+// Compared against when the email is unknown so both failure paths take equally long
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('invalid-password', BCRYPT_ROUNDS);
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class AuthService {
+  async register(email: string, password: string, name?: string) {
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      return null;
+    }
+
+    const hashedPassword = await bcrypt.hash(password, BCRYPT_ROUNDS);
+    try {
+      const user = await prisma.user.create({
+        data: { email, password: hashedPassword, name }
+      });
+
+      return this.toPublicUser(user);
+    } catch (error) {
+      // A concurrent registration took the email between the check above and the insert
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async login(email: string, password: string) {
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    const valid = await bcrypt.compare(password, user?.password ?? DUMMY_PASSWORD_HASH);
+
+    if (!user || !valid) {
+      throw new AuthError('Invalid email or password');
+    }
+
+    const tokens = await this.issueTokens(user);
+    return { user: this.toPublicUser(user), ...tokens };
+  }
+
+  async refresh(refreshToken: string) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) },
+      include: { user: true }
+    });
+
+    if (!stored) {
+      throw new AuthError('Invalid refresh token');
+    }
+
+    // A rotated token being presented again means it leaked: revoke every session of that user
+    if (stored.revokedAt) {
+      await this.revokeAllForUser(stored.userId);
+      throw new AuthError('Refresh token has been revoked');
+    }
+
+    if (stored.expiresAt < new Date()) {
+      throw new AuthError('Refresh token has expired');
+    }
+
+    const next = this.generateRefreshToken();
+
+    // The token is claimed by revoking it only while it is still unrevoked, so of two refreshes racing with the
+    // same token exactly one rotates it; the other is treated as reuse
+    const rotated = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+      if (claimed.count === 0) return false;
+
+      const created = await tx.refreshToken.create({
+        data: {
+          tokenHash: this.hashToken(next),
+          userId: stored.userId,
+          expiresAt: this.refreshTokenExpiry()
+        }
+      });
+
+      await tx.refreshToken.update({
+        where: { id: stored.id },
+        data: { replacedById: created.id }
+      });
+      return true;
+    });
+
+    if (!rotated) {
+      await this.revokeAllForUser(stored.userId);
+      throw new AuthError('Refresh token has been revoked');
+    }
+
+    return {
+      user: this.toPublicUser(stored.user),
+      accessToken: this.signAccessToken(stored.user),
+      refreshToken: next,
+      expiresIn: this.accessTokenTtl()
+    };
+  }
+
+  async logout(refreshToken: string, allSessions = false): Promise<void> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: this.hashToken(refreshToken) }
+    });
+
+    if (!stored) return;
+
+    if (allSessions) {
+      await this.revokeAllForUser(stored.userId);
+      return;
+    }
+
+    if (!stored.revokedAt) {
+      await prisma.refreshToken.update({
+        where: { id: stored.id },
+        data: { revokedAt: new Date() }
+      });
+    }
+  }
+
+  async getUser(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    return user ? this.toPublicUser(user) : null;
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokens> {
+    const refreshToken = this.generateRefreshToken();
+
+    await prisma.refreshToken.create({
+      data: {
+        tokenHash: this.hashToken(refreshToken),
+        userId: user.id,
+        expiresAt: this.refreshTokenExpiry()
+      }
+    });
+
+    return {
+      accessToken: this.signAccessToken(user),
+      refreshToken,
+      expiresIn: this.accessTokenTtl()
+    };
+  }
+
+  private async revokeAllForUser(userId: string) {
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  private signAccessToken(user: User): string {
+    const payload: AuthUser = { id: user.id, email: user.email, role: user.role };
+    return jwt.sign(payload, getJwtSecret(), { expiresIn: this.accessTokenTtl() } as jwt.SignOptions);
+  }
+
+  private generateRefreshToken(): string {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  // Only a hash is stored, so a database leak does not expose usable refresh tokens
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // Read lazily: this module is imported before dotenv has loaded the environment
+  private accessTokenTtl(): string {
+    return process.env.JWT_EXPIRES_IN || '15m';
+  }
+
+  private refreshTokenExpiry(): Date {
+    const ttlDays = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 7;
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private toPublicUser(user: User) {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role
+    };
+  }
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BacktestResult } from './backtestService';
+
+const db = vi.hoisted(() => ({
+  upserts: [] as Array<Record<string, unknown>>,
+  deleted: [] as string[]
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    forecastBacktest = {
+      async upsert({ create }: { create: Record<string, unknown> }) {
+        db.upserts.push(create);
+        return { ...create, updatedAt: new Date() };
+      },
+      async deleteMany({ where }: { where: { modelType: string } }) {
+        db.deleted.push(where.modelType);
+        return { count: 1 };
+      }
+    };
+  }
+}));
+
+vi.mock('./cacheService', () => ({ CacheService: class {} }));
+
+const { BacktestService } = await import('./backtestService');
+
+// Demand alternates 9 and 11, so the weekly seasonal naive forecast is off by 2 every day
+const series = Array.from({ length: 42 }, (_, i) => ({
+  date: new Date(Date.UTC(2024, 0, 1 + i)).toISOString().slice(0, 10),
+  demand: i % 2 === 0 ? 9 : 11
+}));
+
+const flatForecast = async (_history: unknown[], horizon: number) => Array.from({ length: horizon }, () => ({
+  predictedDemand: 8,
+  quantiles: { '0.1': 6, '0.5': 8, '0.9': 10 },
+  lowerBound: 4,
+  upperBound: 12
+}));
+
+const options = { horizon: 7, origins: 6, historyStart: 0, minTrainingDays: 28 };
+
+describe('BacktestService.run', () => {
+  const service = new BacktestService();
+
+  beforeEach(() => {
+    db.upserts = [];
+    db.deleted = [];
+  });
+
+  it('replays non-overlapping origins while enough training days remain', async () => {
+    const histories: number[] = [];
+    const forecaster = vi.fn(async (history: unknown[], horizon: number) => {
+      histories.push(history.length);
+      return flatForecast(history, horizon);
+    });
+
+    const [result] = await service.run('product-1', series, { STATISTICAL: forecaster }, options);
+
+    expect(histories).toEqual([35, 28]);
+    expect(result.origins).toBe(2);
+    expect(result.originDates).toEqual(['2024-01-28', '2024-02-04']);
+    expect(result.comparisons).toBe(14);
+  });
+
+  it('scores point forecasts against the actuals', async () => {
+    const [result] = await service.run('product-1', series, { STATISTICAL: flatForecast }, options);
+
+    expect(result.bias).toBe(-2);
+    expect(result.wape).toBe(0.2);
+    // Mean of |8 - 9| / 9 and |8 - 11| / 11 over as many days of each
+    expect(result.mape).toBeCloseTo((1 / 9 + 3 / 11) / 2, 4);
+    // The model's mean absolute error of 2 matches the seasonal naive's
+    expect(result.mase).toBe(1);
+  });
+
+  it('reports the share of actuals at or below each quantile', async () => {
+    const [result] = await service.run('product-1', series, { STATISTICAL: flatForecast }, options);
+
+    expect(result.calibration).toEqual({ '0.025': 0, '0.1': 0, '0.5': 0, '0.9': 0.5, '0.975': 1 });
+    expect(result.pinballLoss).toBeGreaterThan(0);
+  });
+
+  it('drops the stored result of a model that could not run from any origin', async () => {
+    const results = await service.run('product-1', series, {
+      STATISTICAL: flatForecast,
+      NEURAL_NETWORK: async () => null
+    }, options);
+
+    expect(results.map(r => r.modelType)).toEqual(['STATISTICAL']);
+    expect(db.deleted).toEqual(['NEURAL_NETWORK']);
+    expect(db.upserts).toHaveLength(1);
+  });
+});
+
+describe('BacktestService.isFresh', () => {
+  const service = new BacktestService();
+  const result = (horizon: number, ageMs: number) => ({ horizon, updatedAt: new Date(Date.now() - ageMs) }) as BacktestResult;
+
+  it('reuses recent results computed with the same horizon', () => {
+    expect(service.isFresh([result(7, 60_000)], 7)).toBe(true);
+    expect(service.isFresh([result(14, 60_000)], 7)).toBe(false);
+    expect(service.isFresh([result(7, 25 * 60 * 60 * 1000)], 7)).toBe(false);
+    expect(service.isFresh([], 7)).toBe(false);
+  });
+});
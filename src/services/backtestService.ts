@@ -0,0 +1,268 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_QUANTILES, LOWER_BOUND_LEVEL, quantileKey, UPPER_BOUND_LEVEL } from './demandDistributionService';
+
+const prisma = new PrismaClient();
+
+// Stored results older than this are recomputed on the next request
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Seasonal naive over one week scales MASE; shorter training windows fall back to the one-day naive
+const SEASON_LENGTH = 7;
+
+// Quantile levels scored by pinball loss and checked for calibration: the interval bounds and the default quantiles
+const SCORED_LEVELS = [LOWER_BOUND_LEVEL, ...DEFAULT_QUANTILES, UPPER_BOUND_LEVEL];
+
+export interface BacktestPoint {
+  predictedDemand: number;
+  // At the default levels, see DEFAULT_QUANTILES
+  quantiles: Record<string, number>;
+  lowerBound: number;
+  upperBound: number;
+}
+
+// Forecasts `horizon` days after the last day of `history`, or null when the model cannot run on it
+export type BacktestForecaster = (history: Array<{ date: string; demand: number }>, horizon: number) => Promise<BacktestPoint[] | null>;
+
+export interface BacktestMetrics {
+  comparisons: number;
+  mape: number | null;
+  smape: number | null;
+  mase: number | null;
+  wape: number | null;
+  bias: number;
+  pinballLoss: number;
+  // Share of actuals at or below each quantile, by level; a calibrated model's match the levels
+  calibration: Record<string, number>;
+}
+
+export interface BacktestResult extends BacktestMetrics {
+  modelType: string;
+  horizon: number;
+  origins: number;
+  // Last day of history at each origin the model forecast from, oldest first
+  originDates: string[];
+  updatedAt: Date;
+}
+
+export interface BacktestOptions {
+  horizon: number;
+  origins: number;
+  // Index of the first day of real history; earlier days are zero padding
+  historyStart: number;
+  minTrainingDays: number;
+}
+
+interface OriginOutcome {
+  origin: string;
+  actuals: number[];
+  points: BacktestPoint[];
+  scale: number;
+}
+
+export class BacktestService {
+  /**
+   * Replays the series from rolling origins: the latest origin leaves `horizon` days to forecast and each
+   * earlier one steps back another `horizon` days, so the test windows do not overlap. Every model is
+   * fitted on the days before the origin only and scored on the days after it, and the origins it could
+   * forecast from are recorded with its result. Results replace the stored ones per model; models that could
+   * not run from any origin are dropped.
+   */
+  async run(
+    productId: string,
+    series: Array<{ date: string; demand: number }>,
+    forecasters: Record<string, BacktestForecaster>,
+    options: BacktestOptions
+  ): Promise<BacktestResult[]> {
+    const { horizon, origins, historyStart, minTrainingDays } = options;
+
+    const cuts: number[] = [];
+    for (let k = 0; k < origins; k++) {
+      const cut = series.length - horizon - k * horizon;
+      if (cut - historyStart < minTrainingDays) break;
+      cuts.push(cut);
+    }
+
+    const results: BacktestResult[] = [];
+
+    for (const [modelType, forecaster] of Object.entries(forecasters)) {
+      const outcomes: OriginOutcome[] = [];
+
+      for (const cut of cuts) {
+        const points = await forecaster(series.slice(0, cut), horizon);
+        if (!points) continue;
+
+        outcomes.push({
+          origin: series[cut - 1].date,
+          actuals: series.slice(cut, cut + horizon).map(d => d.demand),
+          points,
+          scale: this.naiveScale(series.slice(historyStart, cut).map(d => d.demand))
+        });
+      }
+
+      if (outcomes.length === 0) {
+        await prisma.forecastBacktest.deleteMany({ where: { productId, modelType } });
+        continue;
+      }
+
+      const metrics = this.score(outcomes);
+      const originDates = outcomes.map(o => o.origin).reverse();
+      const row = await prisma.forecastBacktest.upsert({
+        where: { productId_modelType: { productId, modelType } },
+        create: { productId, modelType, horizon, origins: outcomes.length, originDates, ...metrics },
+        update: { horizon, origins: outcomes.length, originDates, ...metrics }
+      });
+
+      results.push(this.format(row));
+    }
+
+    return results;
+  }
+
+  async getResults(productId: string): Promise<BacktestResult[]> {
+    const rows = await prisma.forecastBacktest.findMany({
+      where: { productId },
+      orderBy: { modelType: 'asc' }
+    });
+
+    return rows.map(row => this.format(row));
+  }
+
+  // Stored results are reusable while they were computed with the same horizon and are recent enough
+  isFresh(results: BacktestResult[], horizon: number): boolean {
+    return results.length > 0 &&
+      results.every(r => r.horizon === horizon && Date.now() - r.updatedAt.getTime() < MAX_AGE_MS);
+  }
+
+  // 1 - WAPE of the stored backtest, the accuracy reported with each forecast
+  async getAccuracy(productId: string, modelType: string): Promise<number | null> {
+    const row = await prisma.forecastBacktest.findUnique({
+      where: { productId_modelType: { productId, modelType } },
+      select: { wape: true }
+    });
+
+    return row?.wape != null ? this.round(Math.max(0, 1 - row.wape)) : null;
+  }
+
+  /**
+   * MAPE skips days without demand and sMAPE days where both actual and forecast are zero. MASE divides each
+   * origin's MAE by the in-sample MAE of the seasonal naive forecast. Pinball loss averages the quantile losses
+   * at SCORED_LEVELS, whose calibration is the share of actuals at or below each quantile. Quantiles are whole
+   * units, so for slow sellers the shares run somewhat above the levels.
+   */
+  private score(outcomes: OriginOutcome[]): BacktestMetrics {
+    let comparisons = 0;
+    let absError = 0;
+    let signedError = 0;
+    let totalActual = 0;
+    let pctError = 0;
+    let pctCount = 0;
+    let symmetricError = 0;
+    let symmetricCount = 0;
+    let pinball = 0;
+    const covered = SCORED_LEVELS.map(() => 0);
+    const scaledErrors: number[] = [];
+
+    outcomes.forEach(({ actuals, points, scale }) => {
+      let originAbsError = 0;
+
+      actuals.forEach((actual, i) => {
+        const point = points[i];
+        const error = point.predictedDemand - actual;
+
+        comparisons++;
+        absError += Math.abs(error);
+        originAbsError += Math.abs(error);
+        signedError += error;
+        totalActual += actual;
+
+        if (actual !== 0) {
+          pctError += Math.abs(error) / actual;
+          pctCount++;
+        }
+        if (Math.abs(actual) + Math.abs(point.predictedDemand) > 0) {
+          symmetricError += 2 * Math.abs(error) / (Math.abs(actual) + Math.abs(point.predictedDemand));
+          symmetricCount++;
+        }
+
+        SCORED_LEVELS.forEach((level, l) => {
+          const quantile = this.quantileAt(point, level);
+          pinball += this.pinballLoss(actual, quantile, level) / SCORED_LEVELS.length;
+          if (actual <= quantile) covered[l]++;
+        });
+      });
+
+      if (scale > 0) scaledErrors.push(originAbsError / actuals.length / scale);
+    });
+
+    return {
+      comparisons,
+      mape: pctCount > 0 ? this.round(pctError / pctCount) : null,
+      smape: symmetricCount > 0 ? this.round(symmetricError / symmetricCount) : null,
+      mase: scaledErrors.length > 0 ? this.round(scaledErrors.reduce((sum, e) => sum + e, 0) / scaledErrors.length) : null,
+      wape: totalActual > 0 ? this.round(absError / totalActual) : null,
+      // Positive bias means over-forecasting
+      bias: this.round(signedError / comparisons),
+      pinballLoss: this.round(pinball / comparisons),
+      calibration: Object.fromEntries(SCORED_LEVELS.map((level, l) => [quantileKey(level), this.round(covered[l] / comparisons)]))
+    };
+  }
+
+  private quantileAt(point: BacktestPoint, level: number): number {
+    if (level === LOWER_BOUND_LEVEL) return point.lowerBound;
+    if (level === UPPER_BOUND_LEVEL) return point.upperBound;
+    return point.quantiles[quantileKey(level)];
+  }
+
+  private naiveScale(training: number[]): number {
+    const lag = training.length > 2 * SEASON_LENGTH ? SEASON_LENGTH : 1;
+    if (training.length <= lag) return 0;
+
+    let total = 0;
+    for (let t = lag; t < training.length; t++) {
+      total += Math.abs(training[t] - training[t - lag]);
+    }
+    return total / (training.length - lag);
+  }
+
+  private pinballLoss(actual: number, quantile: number, level: number): number {
+    return actual >= quantile ? level * (actual - quantile) : (1 - level) * (quantile - actual);
+  }
+
+  private format(row: {
+    modelType: string;
+    horizon: number;
+    origins: number;
+    originDates: unknown;
+    comparisons: number;
+    mape: number | null;
+    smape: number | null;
+    mase: number | null;
+    wape: number | null;
+    bias: number;
+    pinballLoss: number;
+    calibration: unknown;
+    updatedAt: Date;
+  }): BacktestResult {
+    return {
+      modelType: row.modelType,
+      horizon: row.horizon,
+      origins: row.origins,
+      // Empty for results stored before the origins were recorded
+      originDates: (row.originDates ?? []) as string[],
+      comparisons: row.comparisons,
+      mape: row.mape,
+      smape: row.smape,
+      mase: row.mase,
+      wape: row.wape,
+      bias: row.bias,
+      pinballLoss: row.pinballLoss,
+      // Empty for results stored before calibration was recorded
+      calibration: (row.calibration ?? {}) as Record<string, number>,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+  }
+}
@@ -0,0 +1,317 @@
+import { CalendarEventType, PrismaClient } from '@prisma/client';
+import { CacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Custom events are looked up this far outside the requested range so their lead and lag windows are included
+const WINDOW_MARGIN_DAYS = 31;
+
+// Days of evidence an event effect needs before it counts as much as the neutral factor of 1
+const EFFECT_PRIOR_DAYS = 7;
+
+// Bounds on the combined multiplier of all events on one day
+const MIN_EVENT_FACTOR = 0.2;
+const MAX_EVENT_FACTOR = 5;
+
+export type EventPhase = 'LEAD' | 'EVENT' | 'LAG';
+
+// Lead window, event days and lag window of any non-payday event, then any payday or its lag days
+export const CALENDAR_FEATURE_COUNT = 4;
+
+export interface CalendarEventOccurrence {
+  // Stored id of a custom event; null for the built-in calendar
+  id: string | null;
+  name: string;
+  eventType: CalendarEventType;
+  source: 'BUILT_IN' | 'CUSTOM';
+  // null applies to every region
+  region: string | null;
+  // First and last day of the event itself, as YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  // Days before and after the event whose demand it also affects
+  leadDays: number;
+  lagDays: number;
+}
+
+export interface ActiveEvent {
+  name: string;
+  eventType: CalendarEventType;
+  phase: EventPhase;
+}
+
+export interface CalendarEventInput {
+  name: string;
+  eventType: CalendarEventType;
+  region?: string | null;
+  startDate: Date;
+  endDate: Date;
+  leadDays?: number;
+  lagDays?: number;
+  recursAnnually?: boolean;
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (day: string, days: number) => dayKey(new Date(Date.parse(day) + days * DAY_MS));
+
+const utcDate = (year: number, month: number, day: number) => dayKey(new Date(Date.UTC(year, month, day)));
+
+// nth (1-based) given weekday of the month; n = -1 is the last one
+const nthWeekday = (year: number, month: number, weekday: number, n: number) => {
+  if (n < 0) {
+    const last = new Date(Date.UTC(year, month + 1, 0));
+    return utcDate(year, month, last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+  }
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return utcDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+};
+
+// Anonymous Gregorian algorithm
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return utcDate(year, month - 1, day);
+};
+
+/**
+ * US retail calendar for one year: federal and gifting holidays plus the Thanksgiving weekend, each with the
+ * days before it when shoppers stock up and the days after it when demand is still affected. Paydays are
+ * the 1st and 15th of each month, moved to the Friday before when they fall on a weekend.
+ */
+export function usRetailCalendar(year: number): CalendarEventOccurrence[] {
+  const thanksgiving = nthWeekday(year, 10, 4, 4);
+  const holidays: Array<[string, string, number, number]> = [
+    ["New Year's Day", utcDate(year, 0, 1), 1, 1],
+    ['Martin Luther King Jr. Day', nthWeekday(year, 0, 1, 3), 0, 0],
+    ['Super Bowl Sunday', nthWeekday(year, 1, 0, 2), 2, 0],
+    ["Valentine's Day", utcDate(year, 1, 14), 3, 0],
+    ["Presidents' Day", nthWeekday(year, 1, 1, 3), 1, 0],
+    ['Easter', easterSunday(year), 3, 1],
+    ["Mother's Day", nthWeekday(year, 4, 0, 2), 3, 0],
+    ['Memorial Day', nthWeekday(year, 4, 1, -1), 3, 0],
+    ["Father's Day", nthWeekday(year, 5, 0, 3), 3, 0],
+    ['Independence Day', utcDate(year, 6, 4), 3, 1],
+    ['Labor Day', nthWeekday(year, 8, 1, 1), 3, 0],
+    ['Halloween', utcDate(year, 9, 31), 7, 0],
+    ['Thanksgiving', thanksgiving, 3, 0],
+    ['Black Friday', addDays(thanksgiving, 1), 0, 2],
+    ['Cyber Monday', addDays(thanksgiving, 4), 0, 0],
+    ['Christmas', utcDate(year, 11, 25), 10, 1],
+    ["New Year's Eve", utcDate(year, 11, 31), 1, 0]
+  ];
+
+  const events: CalendarEventOccurrence[] = holidays.map(([name, date, leadDays, lagDays]) => ({
+    id: null,
+    name,
+    eventType: 'HOLIDAY',
+    source: 'BUILT_IN',
+    region: null,
+    startDate: date,
+    endDate: date,
+    leadDays,
+    lagDays
+  }));
+
+  for (let month = 0; month < 12; month++) {
+    for (const day of [1, 15]) {
+      const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+      const shift = weekday === 6 ? -1 : weekday === 0 ? -2 : 0;
+      const date = utcDate(year, month, day + shift);
+      events.push({
+        id: null,
+        name: 'Payday',
+        eventType: 'PAYDAY',
+        source: 'BUILT_IN',
+        region: null,
+        startDate: date,
+        endDate: date,
+        leadDays: 0,
+        lagDays: 1
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * The events that apply to one region over a date range, answering which events (and which part of their
+ * window) fall on a day. It is what the forecasters read calendar features from.
+ */
+export class EventCalendar {
+  private byDay = new Map<string, ActiveEvent[]>();
+
+  constructor(public readonly occurrences: CalendarEventOccurrence[]) {
+    occurrences.forEach(event => {
+      const windowStart = addDays(event.startDate, -event.leadDays);
+      const windowEnd = addDays(event.endDate, event.lagDays);
+
+      for (let day = windowStart; day <= windowEnd; day = addDays(day, 1)) {
+        const phase: EventPhase = day < event.startDate ? 'LEAD' : day > event.endDate ? 'LAG' : 'EVENT';
+        const active = this.byDay.get(day) || [];
+        active.push({ name: event.name, eventType: event.eventType, phase });
+        this.byDay.set(day, active);
+      }
+    });
+  }
+
+  eventsOn(day: string): ActiveEvent[] {
+    return this.byDay.get(day) || [];
+  }
+
+  // 0/1 flags in the order described by CALENDAR_FEATURE_COUNT
+  features(day: string): number[] {
+    const events = this.eventsOn(day);
+    const has = (phase: EventPhase) => events.some(e => e.eventType !== 'PAYDAY' && e.phase === phase) ? 1 : 0;
+    return [has('LEAD'), has('EVENT'), has('LAG'), events.some(e => e.eventType === 'PAYDAY') ? 1 : 0];
+  }
+
+  /**
+   * Demand multiplier per event and window phase, keyed `name:phase`, and per event type and phase, keyed
+   * `type:phase`, for events whose own days never appear in the history. Each is the mean demand on those
+   * days over the mean on days outside every window, shrunk toward 1 by EFFECT_PRIOR_DAYS pseudo-days.
+   */
+  estimateEffects(history: Array<{ date: string; demand: number }>): Map<string, number> {
+    const baselineDays = history.filter(d => this.eventsOn(d.date).length === 0);
+    const baseline = baselineDays.reduce((sum, d) => sum + d.demand, 0) / Math.max(1, baselineDays.length);
+    const effects = new Map<string, number>();
+    if (baseline <= 0) return effects;
+
+    const totals = new Map<string, { demand: number; days: number }>();
+    history.forEach(d => {
+      const keys = new Set(this.eventsOn(d.date).flatMap(e => [`${e.name}:${e.phase}`, `${e.eventType}:${e.phase}`]));
+      keys.forEach(key => {
+        const total = totals.get(key) || { demand: 0, days: 0 };
+        totals.set(key, { demand: total.demand + d.demand, days: total.days + 1 });
+      });
+    });
+
+    totals.forEach(({ demand, days }, key) => {
+      const ratio = demand / days / baseline;
+      effects.set(key, (days * ratio + EFFECT_PRIOR_DAYS) / (days + EFFECT_PRIOR_DAYS));
+    });
+
+    return effects;
+  }
+
+  // Combined multiplier of the events on a day; events without an estimate of their own use their type's
+  effectOn(day: string, effects: Map<string, number>): number {
+    const factor = this.eventsOn(day).reduce((product, e) =>
+      product * (effects.get(`${e.name}:${e.phase}`) ?? effects.get(`${e.eventType}:${e.phase}`) ?? 1), 1);
+    return Math.min(MAX_EVENT_FACTOR, Math.max(MIN_EVENT_FACTOR, factor));
+  }
+}
+
+export class CalendarEventError extends Error {
+  constructor(message: string, public statusCode: 400) {
+    super(message);
+    this.name = 'CalendarEventError';
+  }
+}
+
+export class CalendarService {
+  /**
+   * Built-in and custom events for the range, for one region. Custom events without a region apply
+   * everywhere; products whose location has no region only see those.
+   */
+  async getCalendar(from: Date, to: Date, region: string | null = null): Promise<EventCalendar> {
+    return new EventCalendar(await this.occurrences(from, to, region));
+  }
+
+  // Events whose window overlaps the range; without a region, custom events of every region are listed
+  async listEvents(from: Date, to: Date, region?: string): Promise<CalendarEventOccurrence[]> {
+    const occurrences = await this.occurrences(from, to, region);
+    const [first, last] = [dayKey(from), dayKey(to)];
+
+    return occurrences
+      .filter(e => addDays(e.endDate, e.lagDays) >= first && addDays(e.startDate, -e.leadDays) <= last)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name));
+  }
+
+  // Cached forecasts are dropped on every change, since they include the event effects
+  async createEvent(input: CalendarEventInput, createdBy?: string) {
+    const event = await prisma.calendarEvent.create({
+      data: { ...input, region: input.region ?? null, createdBy }
+    });
+    await cache.invalidate('forecast:*');
+    return event;
+  }
+
+  // Returns null when the event does not exist. The dates are checked against the stored ones, since an event
+  // ending before it starts covers no days
+  async updateEvent(id: string, input: Partial<CalendarEventInput>) {
+    const existing = await prisma.calendarEvent.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    if ((input.endDate ?? existing.endDate) < (input.startDate ?? existing.startDate)) {
+      throw new CalendarEventError('endDate must not be before startDate', 400);
+    }
+
+    const event = await prisma.calendarEvent.update({ where: { id }, data: input });
+    await cache.invalidate('forecast:*');
+    return event;
+  }
+
+  async deleteEvent(id: string): Promise<boolean> {
+    const { count } = await prisma.calendarEvent.deleteMany({ where: { id } });
+    if (count > 0) await cache.invalidate('forecast:*');
+    return count > 0;
+  }
+
+  // undefined region: custom events of every region; null: only those without a region
+  private async occurrences(from: Date, to: Date, region: string | null | undefined): Promise<CalendarEventOccurrence[]> {
+    const start = new Date(from.getTime() - WINDOW_MARGIN_DAYS * DAY_MS);
+    const end = new Date(to.getTime() + WINDOW_MARGIN_DAYS * DAY_MS);
+    const years: number[] = [];
+    for (let year = start.getUTCFullYear(); year <= end.getUTCFullYear(); year++) years.push(year);
+
+    const rows = await prisma.calendarEvent.findMany({
+      where: {
+        AND: [
+          region === undefined ? {} : { OR: [{ region: null }, ...(region !== null ? [{ region }] : [])] },
+          { OR: [{ recursAnnually: true }, { startDate: { lte: end }, endDate: { gte: start } }] }
+        ]
+      }
+    });
+
+    const custom = rows.flatMap(row => {
+      // Recurring events repeat on the same dates every year in the range
+      const shifts = row.recursAnnually ? years.map(year => year - row.startDate.getUTCFullYear()) : [0];
+      return shifts.map(shift => ({
+        id: row.id,
+        name: row.name,
+        eventType: row.eventType,
+        source: 'CUSTOM' as const,
+        region: row.region,
+        startDate: this.shiftYears(row.startDate, shift),
+        endDate: this.shiftYears(row.endDate, shift),
+        leadDays: row.leadDays,
+        lagDays: row.lagDays
+      }));
+    });
+
+    return [...years.flatMap(year => usRetailCalendar(year)), ...custom];
+  }
+
+  private shiftYears(date: Date, years: number): string {
+    const shifted = new Date(date);
+    shifted.setUTCFullYear(date.getUTCFullYear() + years);
+    return dayKey(shifted);
+  }
+}
@@ -0,0 +1,233 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { CacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days since the first sale over which forecasts move from the analog curve to the product's own model
+export const COLD_START_BLEND_DAYS = 56;
+
+// Days since launch a product needs before its launch curve is borrowed
+const MIN_ANALOG_HISTORY_DAYS = 28;
+
+const MAX_ANALOGS = 5;
+
+// Relative distance from the product's price within which another product is in the same price band
+const PRICE_BAND = 0.25;
+
+export type AnalogMatch = 'LIKE_ITEM' | 'CATEGORY' | 'SUPPLIER' | 'PRICE_BAND';
+
+// Similarity points per shared attribute; an analog shares at least one
+const MATCH_SCORES: Record<Exclude<AnalogMatch, 'LIKE_ITEM'>, number> = {
+  CATEGORY: 3,
+  SUPPLIER: 2,
+  PRICE_BAND: 1
+};
+
+// Days of analog demand the level adjustment assumes before the product's own sales, so a few days barely move it
+const LEVEL_PRIOR_DAYS = 7;
+const MIN_LEVEL_SCALE = 0.2;
+const MAX_LEVEL_SCALE = 5;
+
+// Analog curves are smoothed over a week, since launches do not start on the same weekday
+const SMOOTHING_DAYS = 7;
+
+export interface Analog {
+  productId: string;
+  name: string;
+  matchedOn: AnalogMatch[];
+  score: number;
+  // YYYY-MM-DD
+  firstSale: string;
+}
+
+export interface AnalogCurve {
+  source: 'LIKE_ITEM' | 'SIMILAR';
+  analogs: Analog[];
+  // Product sales so far relative to the analogs over the same days since launch, shrunk toward 1
+  levelScale: number;
+  // Expected demand on each forecast day, from the analogs at the same age
+  values: number[];
+  // Spread of the analogs' daily demand around their smoothed curves, scaled like the values
+  stdDev: number;
+}
+
+export interface ColdStartProduct {
+  id: string;
+  categoryId: string;
+  supplierId: string;
+  unitPrice: Prisma.Decimal | null;
+  likeItemId: string | null;
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+// Weight of the product's own forecast after `historyDays` days of sales; the analog curve gets the rest
+export const ownHistoryWeight = (historyDays: number) =>
+  Math.min(1, Math.max(0, historyDays) / COLD_START_BLEND_DAYS);
+
+/**
+ * New products have too little history for their own models. Their forecasts borrow the demand of analog
+ * products at the same age: the explicitly chosen like item, or else the established products sharing the most
+ * of category, supplier and price band.
+ */
+export class ColdStartService {
+  /**
+   * Demand of the analogs on the days `historyDays + 1` to `historyDays + horizon` after their first sale,
+   * averaged by similarity and scaled to the product's own sales so far. Null when there is no analog.
+   */
+  async getAnalogCurve(
+    product: ColdStartProduct,
+    historyDays: number,
+    ownDemand: number[],
+    horizon: number
+  ): Promise<AnalogCurve | null> {
+    const analogs = await this.findAnalogs(product);
+    if (analogs.length === 0) return null;
+
+    const span = historyDays + horizon;
+    const curves = await Promise.all(analogs.map(analog => this.getLaunchCurve(analog, span)));
+
+    const totalScore = analogs.reduce((sum, analog) => sum + analog.score, 0);
+    const curve = Array.from({ length: span }, (_, day) =>
+      curves.reduce((sum, c, i) => sum + c.smoothed[day] * analogs[i].score, 0) / totalScore
+    );
+    const stdDev = Math.sqrt(curves.reduce((sum, c, i) => sum + c.variance * analogs[i].score, 0) / totalScore);
+
+    const ownTotal = historyDays > 0 ? ownDemand.slice(-historyDays).reduce((sum, d) => sum + d, 0) : 0;
+    const analogTotal = curve.slice(0, historyDays).reduce((sum, d) => sum + d, 0);
+    const prior = historyDays > 0 ? LEVEL_PRIOR_DAYS * analogTotal / historyDays : 0;
+    const levelScale = analogTotal > 0
+      ? Math.min(MAX_LEVEL_SCALE, Math.max(MIN_LEVEL_SCALE, (ownTotal + prior) / (analogTotal + prior)))
+      : 1;
+
+    return {
+      source: analogs[0].matchedOn.includes('LIKE_ITEM') ? 'LIKE_ITEM' : 'SIMILAR',
+      analogs,
+      levelScale: Math.round(levelScale * 1000) / 1000,
+      values: curve.slice(historyDays).map(value => value * levelScale),
+      stdDev: stdDev * levelScale
+    };
+  }
+
+  /**
+   * The like item alone when it has sold for long enough, otherwise up to MAX_ANALOGS established products
+   * ranked by the attributes they share with the product, longest selling first on ties.
+   */
+  async findAnalogs(product: ColdStartProduct): Promise<Analog[]> {
+    const established = new Date(Date.now() - MIN_ANALOG_HISTORY_DAYS * DAY_MS);
+
+    if (product.likeItemId) {
+      const [likeItem, firstSale] = await Promise.all([
+        prisma.product.findUnique({ where: { id: product.likeItemId }, select: { id: true, name: true } }),
+        this.getFirstSales([product.likeItemId])
+      ]);
+      const launched = firstSale.get(product.likeItemId);
+
+      if (likeItem && launched && launched <= established) {
+        return [{ productId: likeItem.id, name: likeItem.name, matchedOn: ['LIKE_ITEM'], score: 1, firstSale: dayKey(launched) }];
+      }
+    }
+
+    const price = product.unitPrice !== null ? Number(product.unitPrice) : null;
+    const inPriceBand = (unitPrice: Prisma.Decimal | null) =>
+      price !== null && price > 0 && unitPrice !== null && Math.abs(Number(unitPrice) - price) <= PRICE_BAND * price;
+
+    const candidates = await prisma.product.findMany({
+      where: {
+        id: { not: product.id },
+        OR: [
+          { categoryId: product.categoryId },
+          { supplierId: product.supplierId },
+          ...(price !== null && price > 0
+            ? [{ unitPrice: { gte: price * (1 - PRICE_BAND), lte: price * (1 + PRICE_BAND) } }]
+            : [])
+        ]
+      },
+      select: { id: true, name: true, categoryId: true, supplierId: true, unitPrice: true }
+    });
+    const firstSales = await this.getFirstSales(candidates.map(c => c.id));
+
+    return candidates
+      .filter(candidate => {
+        const launched = firstSales.get(candidate.id);
+        return launched !== undefined && launched <= established;
+      })
+      .map(candidate => {
+        const matchedOn: Array<keyof typeof MATCH_SCORES> = [];
+        if (candidate.categoryId === product.categoryId) matchedOn.push('CATEGORY');
+        if (candidate.supplierId === product.supplierId) matchedOn.push('SUPPLIER');
+        if (inPriceBand(candidate.unitPrice)) matchedOn.push('PRICE_BAND');
+
+        return {
+          productId: candidate.id,
+          name: candidate.name,
+          matchedOn,
+          score: matchedOn.reduce((sum, match) => sum + MATCH_SCORES[match], 0),
+          firstSale: dayKey(firstSales.get(candidate.id)!)
+        };
+      })
+      .filter(analog => analog.score > 0)
+      .sort((a, b) => b.score - a.score || a.firstSale.localeCompare(b.firstSale))
+      .slice(0, MAX_ANALOGS);
+  }
+
+  // Forecasts of the product depend on its like item, so they are dropped when it changes
+  async likeItemChanged(productId: string): Promise<void> {
+    await cache.invalidate(`forecast:${productId}:*`);
+  }
+
+  /**
+   * Daily units sold over the analog's first `span` days, smoothed over SMOOTHING_DAYS. Days it has not reached
+   * yet continue at the mean of its last smoothed week.
+   */
+  private async getLaunchCurve(analog: Analog, span: number): Promise<{ smoothed: number[]; variance: number }> {
+    // Today is still under way, so only complete days count
+    const start = Date.parse(analog.firstSale);
+    const covered = Math.min(span, Math.floor((Date.now() - start) / DAY_MS));
+
+    const sales = await prisma.stockMovement.findMany({
+      where: {
+        productId: analog.productId,
+        movementType: 'OUT',
+        createdAt: { gte: new Date(start), lt: new Date(start + covered * DAY_MS) }
+      },
+      select: { quantity: true, createdAt: true }
+    });
+
+    const raw = Array(covered).fill(0);
+    sales.forEach(sale => {
+      const day = Math.floor((Date.parse(dayKey(sale.createdAt)) - start) / DAY_MS);
+      if (day >= 0 && day < covered) raw[day] += Math.abs(sale.quantity);
+    });
+
+    const half = Math.floor(SMOOTHING_DAYS / 2);
+    const smoothed = raw.map((_, day) => {
+      const window = raw.slice(Math.max(0, day - half), day + half + 1);
+      return window.reduce((sum, d) => sum + d, 0) / window.length;
+    });
+    const variance = raw.reduce((sum, d, day) => sum + (d - smoothed[day]) ** 2, 0) / Math.max(1, raw.length);
+
+    const lastWeek = smoothed.slice(-SMOOTHING_DAYS);
+    const tail = lastWeek.length > 0 ? lastWeek.reduce((sum, d) => sum + d, 0) / lastWeek.length : 0;
+    while (smoothed.length < span) smoothed.push(tail);
+
+    return { smoothed, variance };
+  }
+
+  private async getFirstSales(productIds: string[]): Promise<Map<string, Date>> {
+    const firstSales = await prisma.stockMovement.groupBy({
+      by: ['productId'],
+      where: { productId: { in: productIds }, movementType: 'OUT' },
+      _min: { createdAt: true }
+    });
+
+    return new Map(
+      firstSales
+        .filter(f => f._min.createdAt !== null)
+        .map(f => [f.productId, f._min.createdAt!])
+    );
+  }
+}
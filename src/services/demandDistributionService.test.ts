@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {} }));
+vi.mock('./cacheService', () => ({ CacheService: class {} }));
+
+const { DemandDistributionService, DEFAULT_QUANTILES } = await import('./demandDistributionService');
+
+describe('DemandDistributionService.quantile', () => {
+  const service = new DemandDistributionService();
+
+  it('uses a Poisson distribution when the variance does not exceed the mean', () => {
+    // Poisson(4): P(X <= 1) = 0.092, P(X <= 2) = 0.238, P(X <= 4) = 0.629, P(X <= 6) = 0.889, P(X <= 7) = 0.949
+    expect(service.quantile(4, 1, 0.1)).toBe(2);
+    expect(service.quantile(4, 1, 0.5)).toBe(4);
+    expect(service.quantile(4, 1, 0.9)).toBe(7);
+  });
+
+  it('uses a negative binomial distribution for overdispersed demand', () => {
+    // Mean 2 and variance 4: r = 2, q = 0.5, so P(X <= 1) = 0.5 and P(X <= 4) = 0.891, P(X <= 5) = 0.938
+    expect(service.quantile(2, 2, 0.5)).toBe(1);
+    expect(service.quantile(2, 2, 0.9)).toBe(5);
+    // A Poisson with the same mean has a thinner upper tail
+    expect(service.quantile(2, 0, 0.9)).toBe(4);
+  });
+
+  it('falls back to the normal approximation for large means', () => {
+    expect(service.quantile(1000, 50, 0.9)).toBe(Math.round(1000 + 1.2815516 * 50));
+    expect(service.quantile(1000, 50, 0.5)).toBe(1000);
+  });
+
+  it('gives zero for products without expected demand', () => {
+    expect(service.quantile(0, 3, 0.9)).toBe(0);
+    expect(service.quantile(-1, 3, 0.9)).toBe(0);
+  });
+
+  it('rejects levels outside (0, 1)', () => {
+    expect(() => service.quantile(4, 1, 0)).toThrow(RangeError);
+    expect(() => service.quantile(4, 1, 1)).toThrow(RangeError);
+  });
+
+  it('stays finite for levels close to 1', () => {
+    const quantile = service.quantile(0.5, 0.8, 0.999999);
+
+    expect(Number.isFinite(quantile)).toBe(true);
+    expect(quantile).toBeGreaterThan(service.quantile(0.5, 0.8, 0.99));
+  });
+});
+
+describe('DemandDistributionService.quantiles', () => {
+  const service = new DemandDistributionService();
+
+  it('keys the quantiles by level and keeps them ordered', () => {
+    const quantiles = service.quantiles(12, 6, DEFAULT_QUANTILES);
+
+    expect(Object.keys(quantiles)).toEqual(['0.1', '0.5', '0.9']);
+    expect(quantiles['0.1']).toBeLessThanOrEqual(quantiles['0.5']);
+    expect(quantiles['0.5']).toBeLessThanOrEqual(quantiles['0.9']);
+  });
+});
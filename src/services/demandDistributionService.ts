@@ -0,0 +1,63 @@
+import { inverseNormalCdf } from './serviceLevelService';
+
+// Quantiles returned with each forecast day unless others are requested
+export const DEFAULT_QUANTILES = [0.1, 0.5, 0.9];
+
+// Forecast lowerBound and upperBound, the central 95% of the day's demand
+export const LOWER_BOUND_LEVEL = 0.025;
+export const UPPER_BOUND_LEVEL = 0.975;
+
+// Above this mean the count distribution is replaced by its normal approximation
+const MAX_EXACT_MEAN = 500;
+
+// Key of a quantile level in the forecast's quantiles, e.g. '0.9' for P90
+export const quantileKey = (level: number) => String(level);
+
+/**
+ * Daily demand is a count, so each forecast day gets a negative binomial distribution with the forecast as its
+ * mean and the model's error variance, or a Poisson one when that variance does not exceed the mean. Its
+ * quantiles are whole units, skewed upward for slow sellers rather than a symmetric band cut off at zero.
+ */
+export class DemandDistributionService {
+  // Smallest number of units that demand stays at or below with probability `level`
+  quantile(mean: number, stdDev: number, level: number): number {
+    if (level <= 0 || level >= 1) {
+      throw new RangeError(`Quantile level must be strictly between 0 and 1, got ${level}`);
+    }
+    if (!(mean > 0)) return 0;
+
+    const variance = Math.max(stdDev * stdDev, mean);
+    if (mean > MAX_EXACT_MEAN) {
+      return Math.max(0, Math.round(mean + inverseNormalCdf(level) * Math.sqrt(variance)));
+    }
+
+    // P(0), and P(k + 1) / P(k) to walk the distribution from there
+    let probability: number;
+    let ratio: (k: number) => number;
+    if (variance > mean) {
+      const q = (variance - mean) / variance;
+      const r = mean * (1 - q) / q;
+      probability = Math.exp(r * Math.log1p(-q));
+      ratio = k => (k + r) / (k + 1) * q;
+    } else {
+      probability = Math.exp(-mean);
+      ratio = k => mean / (k + 1);
+    }
+
+    // Rounding can leave the cumulative sum just short of a level close to 1, so the walk is bounded
+    const limit = Math.ceil(mean + 50 * Math.sqrt(variance)) + 10;
+    let cumulative = probability;
+    let k = 0;
+    while (cumulative < level && k < limit) {
+      probability *= ratio(k);
+      k++;
+      cumulative += probability;
+    }
+
+    return k;
+  }
+
+  quantiles(mean: number, stdDev: number, levels: number[]): Record<string, number> {
+    return Object.fromEntries(levels.map(level => [quantileKey(level), this.quantile(mean, stdDev, level)]));
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {} }));
+vi.mock('./aiService', () => ({ AIService: class {} }));
+vi.mock('./cacheService', () => ({ CacheService: class {} }));
+
+const { ForecastReconciliationService } = await import('./forecastReconciliationService');
+
+const total = (members: number[]) => ({ level: 'TOTAL' as const, key: 'total', name: 'All products', members });
+
+describe('ForecastReconciliationService.minT', () => {
+  const service = new ForecastReconciliationService();
+  const minT = (...args: Parameters<InstanceType<typeof ForecastReconciliationService>['minT']>) => service['minT'](...args);
+
+  it('leaves coherent forecasts unchanged', () => {
+    const reconciled = minT([total([0, 1])], [[4, 6], [5, 5]], [[9, 11]], [1, 1], [1]);
+
+    expect(reconciled).toEqual([[4, 6], [5, 5]]);
+  });
+
+  it('splits the incoherence between products and aggregate by their error variances', () => {
+    // Incoherence of 6 split over a combined variance of 3: the products take 4 of it, the total 2
+    const reconciled = minT([total([0, 1])], [[10], [10]], [[26]], [1, 1], [1]);
+
+    expect(reconciled).toEqual([[12], [12]]);
+  });
+
+  it('moves noisier products further', () => {
+    // An aggregate without error is matched exactly, the product with three times the variance taking three quarters
+    const reconciled = minT([total([0, 1])], [[10], [10]], [[26]], [1, 3], [0]);
+
+    expect(reconciled[0][0]).toBeCloseTo(11.5, 9);
+    expect(reconciled[1][0]).toBeCloseTo(14.5, 9);
+  });
+
+  it('adjusts each product by every group it belongs to', () => {
+    const groups = [
+      total([0, 1, 2]),
+      { level: 'CATEGORY' as const, key: 'a', name: 'A', members: [0, 1] },
+      { level: 'CATEGORY' as const, key: 'b', name: 'B', members: [2] }
+    ];
+    const reconciled = minT(groups, [[10], [10], [10]], [[36], [20], [16]], [1, 1, 1], [0.01, 0.01, 0.01]);
+
+    // Category A asks for less and B for more, so B's product ends up above A's
+    expect(reconciled[0][0]).toBeCloseTo(reconciled[1][0], 9);
+    expect(reconciled[2][0]).toBeGreaterThan(reconciled[0][0]);
+    expect(reconciled[0][0] + reconciled[1][0] + reconciled[2][0]).toBeCloseTo(36, 1);
+  });
+
+  it('sets negative forecasts to zero', () => {
+    const reconciled = minT([total([0, 1])], [[1], [5]], [[0]], [1, 1], [0]);
+
+    expect(reconciled).toEqual([[0], [2]]);
+  });
+});
@@ -0,0 +1,330 @@
+import { PrismaClient } from '@prisma/client';
+import { AIService } from './aiService';
+import { CacheService } from './cacheService';
+import { HoltWintersService } from './holtWintersService';
+import { StockoutService } from './stockoutService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+const aiService = new AIService();
+const holtWintersService = new HoltWintersService();
+const stockoutService = new StockoutService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// History behind the aggregate base forecasts, the top-down proportions and the MinT error variances
+const HISTORY_DAYS = 90;
+
+const SEASON_LENGTH = 7;
+
+// Product forecasts are generated this many at a time, like the daily forecast job
+const FORECAST_BATCH_SIZE = 10;
+
+// Floor on the error variances, so a series that never sold still has a weight in MinT
+const MIN_ERROR_VARIANCE = 0.01;
+
+export type ReconciliationMethod = 'BOTTOM_UP' | 'TOP_DOWN' | 'MINT';
+
+export type HierarchyLevel = 'TOTAL' | 'CATEGORY' | 'WAREHOUSE' | 'PRODUCT';
+
+export interface HierarchyNode {
+  level: HierarchyLevel;
+  // Category id, warehouse name, product id, or 'total'
+  key: string;
+  name: string;
+  // Daily forecasts aligned with ReconciledForecast.dates, before and after reconciliation
+  base: number[];
+  reconciled: number[];
+  baseTotal: number;
+  reconciledTotal: number;
+  // Demand over the same number of days up to today, for comparison
+  recentTotal: number;
+}
+
+export interface ReconciledForecast {
+  method: ReconciliationMethod;
+  horizon: number;
+  dates: string[];
+  total: HierarchyNode;
+  categories: HierarchyNode[];
+  warehouses: HierarchyNode[];
+  products: HierarchyNode[];
+  generatedAt: string;
+}
+
+interface AggregateGroup {
+  level: HierarchyLevel;
+  key: string;
+  name: string;
+  // Indexes into the product list
+  members: number[];
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Forecasts for the company total, each category and each warehouse alongside the product forecasts,
+ * reconciled so that every aggregate equals the sum of its products. Categories and warehouses both split
+ * the same products, so the structure is grouped rather than a single tree.
+ */
+export class ForecastReconciliationService {
+  async getReconciledForecast(method: ReconciliationMethod, horizon: number): Promise<ReconciledForecast> {
+    const cacheKey = `forecast:hierarchy:${method}:${horizon}`;
+    const cached = await cache.get(cacheKey);
+
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const products = await prisma.product.findMany({
+      select: {
+        id: true,
+        name: true,
+        category: { select: { id: true, name: true } },
+        location: { select: { warehouse: true } }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    const histories = await stockoutService.getDemandHistories(products.map(p => p.id), HISTORY_DAYS);
+    const productHistory = products.map(p => (histories.get(p.id) ?? []).map(d => d.demand));
+
+    const lastDay = Date.parse(dayKey(new Date()));
+    const dates = Array.from({ length: horizon }, (_, i) => dayKey(new Date(lastDay + (i + 1) * DAY_MS)));
+
+    const groups = this.buildGroups(products);
+    const groupHistory = groups.map(group => this.sumSeries(group.members.map(i => productHistory[i]), HISTORY_DAYS));
+
+    const productBase = await this.forecastProducts(products.map(p => p.id), productHistory, dates);
+    const groupBase = groupHistory.map(history => this.forecastAggregate(history, horizon));
+
+    let productReconciled: number[][];
+    switch (method) {
+      case 'BOTTOM_UP':
+        productReconciled = productBase;
+        break;
+      case 'TOP_DOWN':
+        productReconciled = this.topDown(groupBase[0], productHistory);
+        break;
+      case 'MINT':
+        productReconciled = this.minT(
+          groups,
+          productBase,
+          groupBase,
+          productHistory.map(h => this.errorVariance(h)),
+          groupHistory.map(h => this.errorVariance(h))
+        );
+        break;
+    }
+
+    const node = (level: HierarchyLevel, key: string, name: string, base: number[], reconciled: number[], history: number[]): HierarchyNode => ({
+      level,
+      key,
+      name,
+      base: base.map(v => this.round(v)),
+      reconciled: reconciled.map(v => this.round(v)),
+      baseTotal: this.round(this.sum(base)),
+      reconciledTotal: this.round(this.sum(reconciled)),
+      recentTotal: this.round(this.sum(history.slice(-horizon)))
+    });
+
+    const productNodes = products.map((p, i) =>
+      node('PRODUCT', p.id, p.name, productBase[i], productReconciled[i], productHistory[i])
+    );
+    const groupNodes = groups.map((group, g) =>
+      node(
+        group.level,
+        group.key,
+        group.name,
+        groupBase[g],
+        this.sumSeries(group.members.map(i => productReconciled[i]), horizon),
+        groupHistory[g]
+      )
+    );
+
+    const result: ReconciledForecast = {
+      method,
+      horizon,
+      dates,
+      total: groupNodes[0],
+      categories: groupNodes.filter(n => n.level === 'CATEGORY').sort((a, b) => b.reconciledTotal - a.reconciledTotal),
+      warehouses: groupNodes.filter(n => n.level === 'WAREHOUSE').sort((a, b) => b.reconciledTotal - a.reconciledTotal),
+      products: productNodes,
+      generatedAt: new Date().toISOString()
+    };
+
+    // Same lifetime as the product forecasts it is built from
+    await cache.set(cacheKey, JSON.stringify(result), 3600);
+
+    return result;
+  }
+
+  // The total first, then one group per category and per warehouse
+  private buildGroups(products: Array<{ category: { id: string; name: string }; location: { warehouse: string } }>): AggregateGroup[] {
+    const groups: AggregateGroup[] = [
+      { level: 'TOTAL', key: 'total', name: 'All products', members: products.map((_, i) => i) }
+    ];
+    const byKey = new Map<string, AggregateGroup>();
+
+    products.forEach((product, i) => {
+      [
+        { level: 'CATEGORY' as const, key: product.category.id, name: product.category.name },
+        { level: 'WAREHOUSE' as const, key: product.location.warehouse, name: product.location.warehouse }
+      ].forEach(({ level, key, name }) => {
+        const id = `${level}:${key}`;
+        let group = byKey.get(id);
+        if (!group) {
+          group = { level, key, name, members: [] };
+          byKey.set(id, group);
+          groups.push(group);
+        }
+        group.members.push(i);
+      });
+    });
+
+    return groups;
+  }
+
+  // Each product's own forecast, falling back to its recent mean demand when forecasting fails
+  private async forecastProducts(productIds: string[], histories: number[][], dates: string[]): Promise<number[][]> {
+    const forecasts: number[][] = [];
+
+    for (let i = 0; i < productIds.length; i += FORECAST_BATCH_SIZE) {
+      const batch = productIds.slice(i, i + FORECAST_BATCH_SIZE);
+
+      const results = await Promise.all(batch.map(async (productId, j) => {
+        try {
+          const forecast = await aiService.generateDemandForecast(productId, dates.length);
+          const byDate = new Map(forecast.predictions.map(p => [p.date, p.predictedDemand]));
+          return dates.map(date => byDate.get(date) ?? 0);
+        } catch (error) {
+          console.error(`Error forecasting for product ${productId}:`, error);
+          return this.forecastAggregate(histories[i + j], dates.length);
+        }
+      }));
+
+      forecasts.push(...results);
+    }
+
+    return forecasts;
+  }
+
+  // Holt-Winters on the summed demand, or the mean of the last four weeks when the history is too short
+  private forecastAggregate(history: number[], horizon: number): number[] {
+    const observed = this.trimLeadingZeros(history);
+
+    if (observed.length >= 2 * SEASON_LENGTH) {
+      const fit = holtWintersService.fit(observed, SEASON_LENGTH);
+      return holtWintersService.forecast(fit, horizon).map(point => point.value);
+    }
+
+    const recent = observed.slice(-4 * SEASON_LENGTH);
+    const mean = recent.length > 0 ? this.sum(recent) / recent.length : 0;
+    return Array(horizon).fill(mean);
+  }
+
+  /**
+   * Splits the total forecast by each product's share of historical demand (proportions of historical
+   * averages), evenly when nothing sold in the history window.
+   */
+  private topDown(total: number[], histories: number[][]): number[][] {
+    const demand = histories.map(h => this.sum(h));
+    const totalDemand = this.sum(demand);
+
+    return demand.map(d => {
+      const share = totalDemand > 0 ? d / totalDemand : 1 / histories.length;
+      return total.map(value => value * share);
+    });
+  }
+
+  /**
+   * Minimum trace reconciliation with a diagonal error covariance W, one variance per series. Each day the
+   * product forecasts b move by the GLS adjustment W_b A' (W_a + A W_b A')⁻¹ (a - A b), where A sums products
+   * into the aggregates a, so that series with larger errors absorb more of the incoherence. Negative
+   * results are set to zero, which keeps the levels adding up since aggregates are re-summed from products.
+   */
+  private minT(
+    groups: AggregateGroup[],
+    productBase: number[][],
+    groupBase: number[][],
+    productVariance: number[],
+    groupVariance: number[]
+  ): number[][] {
+    const horizon = groupBase[0]?.length ?? 0;
+    if (productBase.length === 0) return [];
+
+    const memberSets = groups.map(group => new Set(group.members));
+    const matrix = groups.map((g, r) => groups.map((_, c) => {
+      const shared = g.members.reduce((sum, i) => sum + (memberSets[c].has(i) ? productVariance[i] : 0), 0);
+      return shared + (r === c ? groupVariance[r] : 0);
+    }));
+    const inverse = this.invert(matrix);
+
+    const reconciled = productBase.map(series => [...series]);
+
+    for (let h = 0; h < horizon; h++) {
+      const incoherence = groups.map((group, g) =>
+        groupBase[g][h] - group.members.reduce((sum, i) => sum + productBase[i][h], 0)
+      );
+      const weights = inverse.map(row => row.reduce((sum, value, c) => sum + value * incoherence[c], 0));
+
+      groups.forEach((group, g) => {
+        group.members.forEach(i => {
+          reconciled[i][h] += productVariance[i] * weights[g];
+        });
+      });
+    }
+
+    return reconciled.map(series => series.map(value => Math.max(0, value)));
+  }
+
+  // Mean squared one-step error of the seasonal naive forecast, a stand-in for each series' forecast error
+  private errorVariance(history: number[]): number {
+    const observed = this.trimLeadingZeros(history);
+    const errors = observed.slice(SEASON_LENGTH).map((value, i) => value - observed[i]);
+    if (errors.length === 0) return MIN_ERROR_VARIANCE;
+    return Math.max(MIN_ERROR_VARIANCE, this.sum(errors.map(e => e * e)) / errors.length);
+  }
+
+  // Gauss-Jordan elimination with partial pivoting; the matrix is symmetric positive definite
+  private invert(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const rows = matrix.map((row, r) => [...row, ...Array.from({ length: n }, (_, c) => (r === c ? 1 : 0))]);
+
+    for (let col = 0; col < n; col++) {
+      let pivot = col;
+      for (let r = col + 1; r < n; r++) {
+        if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+      }
+      [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+      const lead = rows[col][col];
+      rows[col] = rows[col].map(value => value / lead);
+
+      for (let r = 0; r < n; r++) {
+        if (r === col) continue;
+        const factor = rows[r][col];
+        if (factor !== 0) rows[r] = rows[r].map((value, c) => value - factor * rows[col][c]);
+      }
+    }
+
+    return rows.map(row => row.slice(n));
+  }
+
+  private sumSeries(series: number[][], length: number): number[] {
+    return Array.from({ length }, (_, i) => series.reduce((sum, s) => sum + (s[i] ?? 0), 0));
+  }
+
+  private trimLeadingZeros(series: number[]): number[] {
+    const first = series.findIndex(value => value > 0);
+    return first === -1 ? [] : series.slice(first);
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
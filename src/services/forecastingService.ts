@@ -0,0 +1,287 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { OptimizationParameterService } from './optimizationParameterService';
+import { inverseNormalCdf } from './serviceLevelService';
+import { DemandDay, StockoutService } from './stockoutService';
+
+const prisma = new PrismaClient();
+const stockoutService = new StockoutService();
+const parameterService = new OptimizationParameterService();
+
+export interface ForecastSeriesPoint {
+  date: string;
+  actual: number | null;
+  predicted: number | null;
+  optimized: number | null;
+  // Products that ran out of stock that day, so their sales understate demand; null for future days
+  censoredProducts: number | null;
+  // Actual demand plus the demand imputed for those products; null on days without a stockout
+  estimated: number | null;
+}
+
+export interface ForecastErrorMetrics {
+  modelVersion: string | null;
+  comparisons: number;
+  mae: number;
+  rmse: number;
+  mape: number | null;
+  wape: number | null;
+  bias: number;
+  accuracy: number | null;
+}
+
+export interface ForecastScope {
+  productId?: string;
+  categoryId?: string;
+}
+
+export class ForecastingService {
+  async getHistory(productId: string, options: { from?: Date; to?: Date; modelVersion?: string; limit: number }) {
+    return prisma.forecast.findMany({
+      where: {
+        productId,
+        ...(options.modelVersion ? { modelVersion: options.modelVersion } : {}),
+        ...this.dateFilter(options.from, options.to)
+      },
+      orderBy: { forecastDate: 'desc' },
+      take: options.limit
+    });
+  }
+
+  async getVersions(productId: string) {
+    const versions = await prisma.forecast.groupBy({
+      by: ['modelVersion'],
+      where: { productId },
+      _count: { _all: true },
+      _min: { forecastDate: true },
+      _max: { forecastDate: true, createdAt: true },
+      _avg: { confidenceScore: true }
+    });
+
+    return versions
+      .map(v => ({
+        modelVersion: v.modelVersion,
+        forecastCount: v._count._all,
+        firstForecastDate: v._min.forecastDate,
+        lastForecastDate: v._max.forecastDate,
+        lastGeneratedAt: v._max.createdAt,
+        averageConfidence: v._avg.confidenceScore !== null ? this.round(v._avg.confidenceScore) : null
+      }))
+      .sort((a, b) => (b.lastGeneratedAt?.getTime() ?? 0) - (a.lastGeneratedAt?.getTime() ?? 0));
+  }
+
+  async getSeries(scope: ForecastScope, from: Date, to: Date, modelVersion?: string): Promise<ForecastSeriesPoint[]> {
+    const productWhere = this.productFilter(scope);
+
+    const [forecasts, actuals, stockouts, zScore] = await Promise.all([
+      prisma.forecast.findMany({
+        where: {
+          ...productWhere,
+          ...(modelVersion ? { modelVersion } : {}),
+          forecastDate: { gte: from, lte: to }
+        },
+        select: { forecastDate: true, predictedDemand: true }
+      }),
+      this.getActualDemandByDay(scope, from, to),
+      this.getStockoutsByDay(scope, from),
+      this.getServiceZScore(scope)
+    ]);
+
+    const predictedByDay = new Map<string, number>();
+    forecasts.forEach(f => {
+      const day = this.dayKey(f.forecastDate);
+      predictedByDay.set(day, (predictedByDay.get(day) || 0) + f.predictedDemand);
+    });
+
+    const today = this.dayKey(new Date());
+    const points: ForecastSeriesPoint[] = [];
+
+    for (const day = new Date(from); day <= to; day.setDate(day.getDate() + 1)) {
+      const key = this.dayKey(day);
+      const actual = actuals.get(key) || 0;
+      const stockout = stockouts.get(key);
+      points.push({
+        date: key,
+        // Days after today have no actuals yet
+        actual: key <= today ? actual : null,
+        predicted: predictedByDay.has(key) ? predictedByDay.get(key)! : null,
+        optimized: null,
+        censoredProducts: key <= today ? stockout?.products ?? 0 : null,
+        estimated: key <= today && stockout ? Math.round((actual + stockout.imputed) * 100) / 100 : null
+      });
+    }
+
+    // Optimized stock covers the prediction plus a safety buffer sized from observed forecast error
+    const residuals = points
+      .filter(p => p.actual !== null && p.predicted !== null)
+      .map(p => p.actual! - p.predicted!);
+    const rmse = residuals.length > 0
+      ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length)
+      : 0;
+
+    points.forEach(p => {
+      if (p.predicted !== null) {
+        p.optimized = Math.ceil(p.predicted + zScore * rmse);
+      }
+    });
+
+    return points;
+  }
+
+  async getErrorMetrics(scope: ForecastScope, from: Date, to: Date): Promise<ForecastErrorMetrics[]> {
+    // Only forecast days that have already happened can be scored
+    const now = new Date();
+    const end = to < now ? to : now;
+
+    const [forecasts, actuals] = await Promise.all([
+      prisma.forecast.findMany({
+        where: {
+          ...this.productFilter(scope),
+          forecastDate: { gte: from, lte: end }
+        },
+        select: { productId: true, forecastDate: true, predictedDemand: true, modelVersion: true }
+      }),
+      this.getActualDemandByProductDay(scope, from, end)
+    ]);
+
+    const byVersion = new Map<string | null, Array<{ predicted: number; actual: number }>>();
+    forecasts.forEach(f => {
+      const actual = actuals.get(`${f.productId}:${this.dayKey(f.forecastDate)}`) || 0;
+      const pairs = byVersion.get(f.modelVersion) || [];
+      pairs.push({ predicted: f.predictedDemand, actual });
+      byVersion.set(f.modelVersion, pairs);
+    });
+
+    const allPairs = Array.from(byVersion.values()).flat();
+    const results = Array.from(byVersion.entries()).map(([version, pairs]) => this.scorePairs(version, pairs));
+
+    // Overall row first, followed by one row per model version
+    return [this.scorePairs('ALL', allPairs), ...results];
+  }
+
+  private scorePairs(modelVersion: string | null, pairs: Array<{ predicted: number; actual: number }>): ForecastErrorMetrics {
+    if (pairs.length === 0) {
+      return { modelVersion, comparisons: 0, mae: 0, rmse: 0, mape: null, wape: null, bias: 0, accuracy: null };
+    }
+
+    let absError = 0;
+    let sqError = 0;
+    let signedError = 0;
+    let totalActual = 0;
+    let pctError = 0;
+    let pctCount = 0;
+
+    pairs.forEach(({ predicted, actual }) => {
+      const error = predicted - actual;
+      absError += Math.abs(error);
+      sqError += error * error;
+      signedError += error;
+      totalActual += actual;
+      if (actual !== 0) {
+        pctError += Math.abs(error) / actual;
+        pctCount++;
+      }
+    });
+
+    const wape = totalActual > 0 ? absError / totalActual : null;
+
+    return {
+      modelVersion,
+      comparisons: pairs.length,
+      mae: this.round(absError / pairs.length),
+      rmse: this.round(Math.sqrt(sqError / pairs.length)),
+      mape: pctCount > 0 ? this.round(pctError / pctCount) : null,
+      wape: wape !== null ? this.round(wape) : null,
+      // Positive bias means over-forecasting
+      bias: this.round(signedError / pairs.length),
+      accuracy: wape !== null ? this.round(Math.max(0, 1 - wape)) : null
+    };
+  }
+
+  private async getActualDemandByDay(scope: ForecastScope, from: Date, to: Date) {
+    const byProductDay = await this.getActualDemandByProductDay(scope, from, to);
+    const byDay = new Map<string, number>();
+
+    byProductDay.forEach((quantity, key) => {
+      const day = key.split(':')[1];
+      byDay.set(day, (byDay.get(day) || 0) + quantity);
+    });
+
+    return byDay;
+  }
+
+  // Products out of stock and the demand imputed for them on each day from `from` to today
+  private async getStockoutsByDay(scope: ForecastScope, from: Date) {
+    const productIds = scope.productId
+      ? [scope.productId]
+      : (await prisma.product.findMany({
+          where: scope.categoryId ? { categoryId: scope.categoryId } : {},
+          select: { id: true }
+        })).map(p => p.id);
+
+    const days = Math.ceil((Date.now() - from.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    const histories: Map<string, DemandDay[]> = days > 0 && productIds.length > 0
+      ? await stockoutService.getDemandHistories(productIds, days)
+      : new Map();
+
+    const byDay = new Map<string, { products: number; imputed: number }>();
+    histories.forEach(history => history.filter(day => day.censored).forEach(day => {
+      const stockout = byDay.get(day.date) || { products: 0, imputed: 0 };
+      byDay.set(day.date, { products: stockout.products + 1, imputed: stockout.imputed + day.demand - day.observedDemand });
+    }));
+
+    return byDay;
+  }
+
+  // Safety factor of the service target the optimized line is drawn for: the product's resolved target, or the
+  // global one for a category or all products. A fill-rate target is read as a cycle service level, which needs
+  // at least as much buffer.
+  private async getServiceZScore(scope: ForecastScope): Promise<number> {
+    const serviceLevel = scope.productId
+      ? (await parameterService.resolve(scope.productId)).serviceLevel.value
+      : (await parameterService.getGlobal()).serviceLevel;
+    return Math.max(0, inverseNormalCdf(serviceLevel));
+  }
+
+  private async getActualDemandByProductDay(scope: ForecastScope, from: Date, to: Date) {
+    const movements = await prisma.stockMovement.findMany({
+      where: {
+        ...this.productFilter(scope),
+        movementType: 'OUT',
+        createdAt: { gte: from, lte: to }
+      },
+      select: { productId: true, quantity: true, createdAt: true }
+    });
+
+    const demand = new Map<string, number>();
+    movements.forEach(m => {
+      const key = `${m.productId}:${this.dayKey(m.createdAt)}`;
+      demand.set(key, (demand.get(key) || 0) + Math.abs(m.quantity));
+    });
+
+    return demand;
+  }
+
+  private productFilter(scope: ForecastScope): { productId?: string; product?: Prisma.ProductWhereInput } {
+    if (scope.productId) return { productId: scope.productId };
+    if (scope.categoryId) return { product: { categoryId: scope.categoryId } };
+    return {};
+  }
+
+  private dateFilter(from?: Date, to?: Date) {
+    if (!from && !to) return {};
+    return {
+      forecastDate: {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {})
+      }
+    };
+  }
+
+  private dayKey(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { HoltWintersService } from './holtWintersService';
+
+// Weekly deviations from the level, summing to zero
+const offsets = [-10, -5, 0, 5, 10, 3, -3];
+const factors = [0.6, 0.8, 1, 1.2, 1.4, 1.1, 0.9];
+
+const additive = (length: number) => Array.from({ length }, (_, t) => 50 + offsets[t % 7]);
+// Growing demand whose weekly swings grow with it
+const multiplicative = (length: number) => Array.from({ length }, (_, t) => (100 + 2 * t) * factors[t % 7]);
+
+describe('HoltWintersService.fit', () => {
+  const service = new HoltWintersService();
+
+  it('recovers an additive weekly pattern', () => {
+    const fit = service.fit(additive(35));
+
+    expect(fit.variant).toBe('ADDITIVE');
+    expect(fit.sse).toBeCloseTo(0, 6);
+    expect(fit.level).toBeCloseTo(50, 6);
+    expect(fit.trend).toBeCloseTo(0, 6);
+    fit.seasonals.forEach((seasonal, i) => expect(seasonal).toBeCloseTo(offsets[i], 6));
+  });
+
+  it('recovers a multiplicative weekly pattern', () => {
+    const series = multiplicative(70);
+    const fit = service.fit(series);
+
+    expect(fit.variant).toBe('MULTIPLICATIVE');
+    fit.seasonals.forEach((seasonal, i) => expect(seasonal).toBeCloseTo(factors[i], 1));
+
+    const truth = multiplicative(77).slice(70);
+    service.forecast(fit, 7).forEach((point, h) => expect(Math.abs(point.value - truth[h]) / truth[h]).toBeLessThan(0.05));
+  });
+
+  it('only tries the additive variant when the series has zeros', () => {
+    const fit = service.fit(additive(28).map((y, t) => t % 7 === 0 ? 0 : y));
+
+    expect(fit.variant).toBe('ADDITIVE');
+  });
+
+  it('needs two full seasons of observations', () => {
+    expect(() => service.fit(additive(13))).toThrow(RangeError);
+    expect(() => service.fit(additive(13), 7)).toThrow('at least 14 observations');
+    expect(() => service.fit(additive(14))).not.toThrow();
+  });
+
+  it('rotates the seasonals so the first one belongs to the day after the series', () => {
+    // 30 days end two days into a week, so the next day has the third offset
+    const fit = service.fit(additive(30));
+
+    expect(fit.seasonals[0]).toBeCloseTo(offsets[2], 6);
+    fit.seasonals.forEach((seasonal, i) => expect(seasonal).toBeCloseTo(offsets[(30 + i) % 7], 6));
+  });
+});
+
+describe('HoltWintersService.forecast', () => {
+  const service = new HoltWintersService();
+
+  it('continues the weekly pattern from the end of the series', () => {
+    const fit = service.fit(additive(30));
+    const points = service.forecast(fit, 14);
+
+    points.forEach((point, h) => expect(point.value).toBeCloseTo(50 + offsets[(30 + h) % 7], 6));
+  });
+
+  it('widens the interval with the horizon', () => {
+    const fit = { ...service.fit(additive(30)), residualStdDev: 2, alpha: 0.5, beta: 0.1, gamma: 0.2 };
+    const points = service.forecast(fit, 8);
+
+    expect(points[0].stdDev).toBe(2);
+    // h = 2 adds (alpha (1 + beta))², h = 8 also the seasonal term gamma for j = 7
+    expect(points[1].stdDev).toBeCloseTo(2 * Math.sqrt(1 + 0.55 ** 2), 9);
+    for (let h = 1; h < points.length; h++) {
+      expect(points[h].stdDev).toBeGreaterThan(points[h - 1].stdDev);
+    }
+    expect(points[0].upperBound - points[0].value).toBeCloseTo(1.96 * 2, 9);
+  });
+});
@@ -0,0 +1,197 @@
+export type SeasonalVariant = 'ADDITIVE' | 'MULTIPLICATIVE';
+
+export interface HoltWintersFit {
+  variant: SeasonalVariant;
+  seasonLength: number;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  level: number;
+  trend: number;
+  // Seasonal components for the next `seasonLength` periods, starting with the first one after the series
+  seasonals: number[];
+  // One-step-ahead in-sample errors, used for the fit criterion and the prediction intervals
+  sse: number;
+  mae: number;
+  residualStdDev: number;
+  observations: number;
+}
+
+export interface HoltWintersPoint {
+  value: number;
+  lowerBound: number;
+  upperBound: number;
+  stdDev: number;
+}
+
+// Smoothing parameters stay inside (0, 1) so every component keeps learning from new observations
+const MIN_SMOOTHING = 0.01;
+const MAX_SMOOTHING = 0.99;
+const GRID = [0.05, 0.15, 0.3, 0.5, 0.7, 0.9];
+
+interface Smoothed {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  sse: number;
+  absoluteError: number;
+}
+
+export class HoltWintersService {
+  /**
+   * Fits triple exponential smoothing with the given season length. Both seasonal variants are tried
+   * (multiplicative only for strictly positive series) and the one with the lower in-sample squared
+   * one-step-ahead error is kept, with alpha, beta and gamma chosen to minimize that error.
+   */
+  fit(series: number[], seasonLength: number = 7): HoltWintersFit {
+    if (series.length < 2 * seasonLength) {
+      throw new RangeError(`Holt-Winters needs at least ${2 * seasonLength} observations, got ${series.length}`);
+    }
+
+    const variants: SeasonalVariant[] = series.every(y => y > 0) ? ['ADDITIVE', 'MULTIPLICATIVE'] : ['ADDITIVE'];
+
+    const fits = variants.map(variant => this.fitVariant(series, seasonLength, variant));
+    return fits.reduce((best, fit) => fit.sse < best.sse ? fit : best);
+  }
+
+  /**
+   * Point forecasts with approximate 95% bounds. The error variance grows with the horizon the way it
+   * does for the additive model, sigma² (1 + Σ (alpha (1 + j beta) + gamma [j mod m = 0])²), which is
+   * also used as an approximation for the multiplicative one.
+   */
+  forecast(fit: HoltWintersFit, horizon: number): HoltWintersPoint[] {
+    const points: HoltWintersPoint[] = [];
+    let varianceFactor = 1;
+
+    for (let h = 1; h <= horizon; h++) {
+      const seasonal = fit.seasonals[(h - 1) % fit.seasonLength];
+      const base = fit.level + h * fit.trend;
+      const value = fit.variant === 'ADDITIVE' ? base + seasonal : base * seasonal;
+
+      if (h > 1) {
+        const j = h - 1;
+        const c = fit.alpha * (1 + j * fit.beta) + (j % fit.seasonLength === 0 ? fit.gamma : 0);
+        varianceFactor += c * c;
+      }
+
+      const stdDev = fit.residualStdDev * Math.sqrt(varianceFactor);
+      points.push({
+        value: Math.max(0, value),
+        lowerBound: Math.max(0, value - 1.96 * stdDev),
+        upperBound: Math.max(0, value + 1.96 * stdDev),
+        stdDev
+      });
+    }
+
+    return points;
+  }
+
+  // Coarse grid over the three smoothing parameters, then a shrinking coordinate search around the best point
+  private fitVariant(series: number[], seasonLength: number, variant: SeasonalVariant): HoltWintersFit {
+    let best = { params: [0.3, 0.1, 0.1], sse: Infinity };
+
+    for (const alpha of GRID) {
+      for (const beta of GRID) {
+        for (const gamma of GRID) {
+          const sse = this.smooth(series, seasonLength, variant, alpha, beta, gamma).sse;
+          if (sse < best.sse) best = { params: [alpha, beta, gamma], sse };
+        }
+      }
+    }
+
+    for (let step = 0.05; step >= 0.005; step /= 2) {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (let i = 0; i < 3; i++) {
+          for (const direction of [-1, 1]) {
+            const params = [...best.params];
+            params[i] = Math.min(MAX_SMOOTHING, Math.max(MIN_SMOOTHING, params[i] + direction * step));
+            const sse = this.smooth(series, seasonLength, variant, params[0], params[1], params[2]).sse;
+            if (sse < best.sse - 1e-9) {
+              best = { params, sse };
+              improved = true;
+            }
+          }
+        }
+      }
+    }
+
+    const [alpha, beta, gamma] = best.params;
+    const smoothed = this.smooth(series, seasonLength, variant, alpha, beta, gamma);
+    const fitted = series.length - seasonLength;
+
+    return {
+      variant,
+      seasonLength,
+      alpha: this.round(alpha),
+      beta: this.round(beta),
+      gamma: this.round(gamma),
+      level: smoothed.level,
+      trend: smoothed.trend,
+      seasonals: smoothed.seasonals,
+      sse: smoothed.sse,
+      mae: smoothed.absoluteError / fitted,
+      residualStdDev: Math.sqrt(smoothed.sse / Math.max(1, fitted - 3)),
+      observations: series.length
+    };
+  }
+
+  /**
+   * Runs the recursions over the series. The first season only initializes the components: the level is
+   * its mean, the trend the average per-period change between the first two seasons, and the seasonals
+   * the first season's deviations from (or ratios to) its mean.
+   */
+  private smooth(
+    series: number[],
+    m: number,
+    variant: SeasonalVariant,
+    alpha: number,
+    beta: number,
+    gamma: number
+  ): Smoothed {
+    const firstSeason = series.slice(0, m);
+    const secondSeason = series.slice(m, 2 * m);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    let level = mean(firstSeason);
+    let trend = (mean(secondSeason) - level) / m;
+    const seasonals = firstSeason.map(y => variant === 'ADDITIVE' ? y - level : y / level);
+
+    let sse = 0;
+    let absoluteError = 0;
+
+    for (let t = m; t < series.length; t++) {
+      const y = series[t];
+      const seasonal = seasonals[t % m];
+      const prediction = variant === 'ADDITIVE' ? level + trend + seasonal : (level + trend) * seasonal;
+      const error = y - prediction;
+      sse += error * error;
+      absoluteError += Math.abs(error);
+
+      const previousLevel = level;
+      if (variant === 'ADDITIVE') {
+        level = alpha * (y - seasonal) + (1 - alpha) * (level + trend);
+        seasonals[t % m] = gamma * (y - level) + (1 - gamma) * seasonal;
+      } else {
+        level = alpha * (y / seasonal) + (1 - alpha) * (level + trend);
+        seasonals[t % m] = gamma * (y / level) + (1 - gamma) * seasonal;
+      }
+      trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    }
+
+    // Rotate so index 0 is the season position of the first period after the series
+    const offset = series.length % m;
+    return {
+      level,
+      trend,
+      seasonals: [...seasonals.slice(offset), ...seasonals.slice(0, offset)],
+      sse: Number.isFinite(sse) ? sse : Infinity,
+      absoluteError
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {} }));
+
+const { IntermittentDemandService, classifyDemand, methodForPattern } = await import('./intermittentDemandService');
+
+// Demand every third day, of constant or alternating size
+const intermittent = [0, 0, 5, 0, 0, 5, 0, 0, 5, 0, 0, 5];
+const lumpy = [0, 0, 1, 0, 0, 10, 0, 0, 1, 0, 0, 10];
+
+describe('classifyDemand', () => {
+  it('places a series in each ADI/CV² quadrant', () => {
+    expect(classifyDemand([5, 5, 6, 5, 4, 5, 5])?.pattern).toBe('SMOOTH');
+    expect(classifyDemand([1, 10, 1, 10, 1, 10])?.pattern).toBe('ERRATIC');
+    expect(classifyDemand(intermittent)?.pattern).toBe('INTERMITTENT');
+    expect(classifyDemand(lumpy)?.pattern).toBe('LUMPY');
+  });
+
+  it('measures ADI over all periods and CV² over the demand sizes only', () => {
+    // Sizes 1 and 10: mean 5.5 and variance 20.25
+    expect(classifyDemand(lumpy)).toEqual({ pattern: 'LUMPY', adi: 3, cv2: 0.669, demandPeriods: 4, periods: 12 });
+  });
+
+  it('gives null for a series without demand', () => {
+    expect(classifyDemand([0, 0, 0])).toBeNull();
+  });
+});
+
+describe('methodForPattern', () => {
+  it('uses SBA for intermittent and TSB for lumpy demand', () => {
+    expect(methodForPattern('INTERMITTENT')).toBe('SBA');
+    expect(methodForPattern('LUMPY')).toBe('TSB');
+    expect(methodForPattern('SMOOTH')).toBeNull();
+    expect(methodForPattern('ERRATIC')).toBeNull();
+  });
+});
+
+describe('IntermittentDemandService recursions', () => {
+  const service = new IntermittentDemandService();
+  const croston = (series: number[], alpha: number, beta: number, biasCorrected: boolean) =>
+    service['croston'](series, alpha, beta, biasCorrected);
+  const tsb = (series: number[], alpha: number, beta: number) => service['tsb'](series, alpha, beta);
+
+  it('forecasts Croston as the demand size over the interval between demands', () => {
+    expect(croston(intermittent, 0.2, 0.2, false).rate).toBeCloseTo(5 / 3, 9);
+  });
+
+  it('scales the Croston rate by (1 - beta / 2) for SBA', () => {
+    for (const beta of [0.1, 0.3]) {
+      const plain = croston(lumpy, 0.2, beta, false).rate;
+      const corrected = croston(lumpy, 0.2, beta, true).rate;
+
+      expect(corrected).toBeCloseTo(plain * (1 - beta / 2), 9);
+    }
+  });
+
+  it('decays the TSB forecast by (1 - beta) for every period without demand', () => {
+    const zeros = new Array(10).fill(0);
+    // Leading zeros only enter the initial demand probability, which both series share
+    const recent = tsb([...zeros, ...lumpy], 0.2, 0.2);
+    const stale = tsb([...lumpy, ...zeros], 0.2, 0.2);
+
+    expect(stale.rate).toBeCloseTo(recent.rate * 0.8 ** 10, 9);
+    // Croston keeps the rate of the last demand however long ago it was
+    expect(croston([...lumpy, ...zeros], 0.2, 0.2, false).rate).toBeCloseTo(croston(lumpy, 0.2, 0.2, false).rate, 9);
+  });
+
+  it('fits the smoothing constants from the grid', () => {
+    const fit = service.fit(intermittent, 'SBA');
+
+    expect(fit.method).toBe('SBA');
+    expect(fit.rate).toBeGreaterThan(0);
+    expect(fit.rate).toBeLessThan(5 / 3);
+  });
+});
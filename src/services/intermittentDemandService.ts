@@ -0,0 +1,177 @@
+import { DemandPattern, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Syntetos-Boylan cut-offs: average periods between demands and squared coefficient of variation of demand sizes
+const ADI_CUTOFF = 1.32;
+const CV2_CUTOFF = 0.49;
+
+// Intermittent series change slowly; larger smoothing constants mostly chase noise
+const SMOOTHING_GRID = [0.05, 0.1, 0.15, 0.2, 0.25, 0.3];
+
+export type IntermittentMethod = 'CROSTON' | 'SBA' | 'TSB';
+
+export interface DemandClassification {
+  pattern: DemandPattern;
+  adi: number;
+  cv2: number;
+  demandPeriods: number;
+  periods: number;
+}
+
+export interface IntermittentFit {
+  method: IntermittentMethod;
+  alpha: number;
+  // Interval smoothing for Croston and SBA, demand-probability smoothing for TSB
+  beta: number;
+  // Expected demand per period, flat over the horizon
+  rate: number;
+  mse: number;
+  residualStdDev: number;
+}
+
+/**
+ * ADI/CV² classification. ADI is the number of periods per non-zero demand and CV² is computed over the
+ * non-zero demand sizes only, so it measures how lumpy an order is regardless of how often orders come.
+ * Returns null for series without any demand.
+ */
+export function classifyDemand(series: number[]): DemandClassification | null {
+  const sizes = series.filter(y => y > 0);
+  if (sizes.length === 0) return null;
+
+  const adi = series.length / sizes.length;
+  const mean = sizes.reduce((sum, y) => sum + y, 0) / sizes.length;
+  const variance = sizes.reduce((sum, y) => sum + (y - mean) ** 2, 0) / sizes.length;
+  const cv2 = variance / (mean * mean);
+
+  const pattern: DemandPattern = adi < ADI_CUTOFF
+    ? (cv2 < CV2_CUTOFF ? 'SMOOTH' : 'ERRATIC')
+    : (cv2 < CV2_CUTOFF ? 'INTERMITTENT' : 'LUMPY');
+
+  return {
+    pattern,
+    adi: Math.round(adi * 100) / 100,
+    cv2: Math.round(cv2 * 1000) / 1000,
+    demandPeriods: sizes.length,
+    periods: series.length
+  };
+}
+
+// SBA suits regular gaps; TSB also decays the forecast through long runs of zeros, which lumpy items tend to end in
+export function methodForPattern(pattern: DemandPattern): IntermittentMethod | null {
+  if (pattern === 'INTERMITTENT') return 'SBA';
+  if (pattern === 'LUMPY') return 'TSB';
+  return null;
+}
+
+export class IntermittentDemandService {
+  // Fits the smoothing constants by in-sample one-step-ahead squared error
+  fit(series: number[], method: IntermittentMethod): IntermittentFit {
+    let best: { alpha: number; beta: number; rate: number; sse: number; fitted: number } | null = null;
+
+    for (const alpha of SMOOTHING_GRID) {
+      for (const beta of SMOOTHING_GRID) {
+        const run = method === 'TSB' ? this.tsb(series, alpha, beta) : this.croston(series, alpha, beta, method === 'SBA');
+        if (!best || run.sse < best.sse) best = { alpha, beta, ...run };
+      }
+    }
+
+    const { alpha, beta, rate, sse, fitted } = best!;
+    return {
+      method,
+      alpha,
+      beta,
+      rate,
+      mse: fitted > 0 ? sse / fitted : 0,
+      residualStdDev: Math.sqrt(sse / Math.max(1, fitted - 2))
+    };
+  }
+
+  /**
+   * Stores the classification on the product so it can be filtered and reported without refitting.
+   * The product is only written when its pattern changes, so forecasting does not touch `updatedAt` on every run;
+   * the stored ADI and CV² are those of the run that set the pattern. Products without any demand in the series
+   * keep their previous classification.
+   */
+  async classifyProduct(productId: string, series: number[]): Promise<DemandClassification | null> {
+    const classification = classifyDemand(series);
+    if (!classification) return null;
+
+    await prisma.product.updateMany({
+      where: {
+        id: productId,
+        OR: [{ demandPattern: null }, { demandPattern: { not: classification.pattern } }]
+      },
+      data: {
+        demandPattern: classification.pattern,
+        demandAdi: classification.adi,
+        demandCv2: classification.cv2,
+        demandClassifiedAt: new Date()
+      }
+    });
+
+    return classification;
+  }
+
+  /**
+   * Croston: smooths demand sizes and the intervals between them separately, updating only in periods with
+   * demand; the rate is size / interval. SBA multiplies that by (1 - beta / 2) to remove Croston's upward bias.
+   * Errors are counted from the first demand on, once both components are initialized.
+   */
+  private croston(series: number[], alpha: number, beta: number, biasCorrected: boolean) {
+    const correction = biasCorrected ? 1 - beta / 2 : 1;
+    let size: number | null = null;
+    let interval = 1;
+    let periodsSinceDemand = 1;
+    let sse = 0;
+    let fitted = 0;
+
+    for (const y of series) {
+      if (size !== null) {
+        const error = y - correction * size / interval;
+        sse += error * error;
+        fitted++;
+      }
+
+      if (y > 0) {
+        if (size === null) {
+          size = y;
+          interval = periodsSinceDemand;
+        } else {
+          size = alpha * y + (1 - alpha) * size;
+          interval = beta * periodsSinceDemand + (1 - beta) * interval;
+        }
+        periodsSinceDemand = 1;
+      } else {
+        periodsSinceDemand++;
+      }
+    }
+
+    return { rate: size !== null ? correction * size / interval : 0, sse, fitted };
+  }
+
+  /**
+   * Teunter-Syntetos-Babai: smooths the demand size when demand occurs and the probability of demand in
+   * every period, so the forecast keeps falling while no demand arrives. The rate is probability × size.
+   */
+  private tsb(series: number[], alpha: number, beta: number) {
+    const firstDemand = series.findIndex(y => y > 0);
+    if (firstDemand < 0) return { rate: 0, sse: 0, fitted: 0 };
+
+    let size = series[firstDemand];
+    let probability = series.filter(y => y > 0).length / series.length;
+    let sse = 0;
+    let fitted = 0;
+
+    for (const y of series.slice(firstDemand + 1)) {
+      const error = y - probability * size;
+      sse += error * error;
+      fitted++;
+
+      probability = beta * (y > 0 ? 1 : 0) + (1 - beta) * probability;
+      if (y > 0) size = alpha * y + (1 - alpha) * size;
+    }
+
+    return { rate: probability * size, sse, fitted };
+  }
+}
@@ -0,0 +1,160 @@
+import * as ss from 'simple-statistics';
+import { PrismaClient } from '@prisma/client';
+import { CacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+
+// Fewer receipts than this are too few to trust over the configured lead time
+export const MIN_LEAD_TIME_OBSERVATIONS = 3;
+
+const LOOKBACK_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LeadTimeStats {
+  supplierId: string;
+  observations: number;
+  meanDays: number | null;
+  stdDevDays: number | null;
+  minDays: number | null;
+  maxDays: number | null;
+  p50Days: number | null;
+  p90Days: number | null;
+}
+
+export interface LeadTimeDistribution extends LeadTimeStats {
+  histogram: Array<{ days: number; count: number }>;
+  // One entry per delivery, with the number of order lines it booked and their total quantity
+  receipts: Array<{
+    orderNumber: string;
+    lines: number;
+    quantity: number;
+    submittedAt: Date;
+    receivedAt: Date;
+    days: number;
+  }>;
+}
+
+export class LeadTimeService {
+  async getSupplierLeadTime(supplierId: string): Promise<LeadTimeStats> {
+    const cacheKey = `lead-time:${supplierId}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const receipts = await this.getReceipts(supplierId);
+    const stats = this.summarize(supplierId, receipts.map(r => r.days));
+
+    await cache.set(cacheKey, JSON.stringify(stats), 3600);
+
+    return stats;
+  }
+
+  async getDistribution(supplierId: string): Promise<LeadTimeDistribution> {
+    const receipts = await this.getReceipts(supplierId);
+    const days = receipts.map(r => r.days);
+
+    // Whole-day buckets from the shortest to the longest observed lead time, empty days included
+    const histogram: LeadTimeDistribution['histogram'] = [];
+    if (days.length > 0) {
+      const counts = new Map<number, number>();
+      days.forEach(d => counts.set(Math.floor(d), (counts.get(Math.floor(d)) || 0) + 1));
+
+      for (let day = Math.floor(ss.min(days)); day <= Math.floor(ss.max(days)); day++) {
+        histogram.push({ days: day, count: counts.get(day) || 0 });
+      }
+    }
+
+    return {
+      ...this.summarize(supplierId, days),
+      histogram,
+      receipts: receipts.slice(-20).reverse()
+    };
+  }
+
+  async invalidate(supplierId: string): Promise<void> {
+    await cache.del(`lead-time:${supplierId}`);
+  }
+
+  /**
+   * Each receipt against a submitted order is one observation: the days from submission to the goods arriving.
+   * The IN movements of one order booked on the same day are one delivery, however many lines it covered, so
+   * a large order does not count as many identical samples.
+   */
+  private async getReceipts(supplierId: string) {
+    const since = new Date(Date.now() - LOOKBACK_DAYS * DAY_MS);
+
+    const movements = await prisma.stockMovement.findMany({
+      where: {
+        movementType: 'IN',
+        createdAt: { gte: since },
+        purchaseOrderLine: {
+          purchaseOrder: { supplierId, submittedAt: { not: null } }
+        }
+      },
+      select: {
+        quantity: true,
+        createdAt: true,
+        purchaseOrderLine: {
+          select: { purchaseOrder: { select: { id: true, orderNumber: true, submittedAt: true } } }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const receipts = new Map<string, LeadTimeDistribution['receipts'][number]>();
+    for (const movement of movements) {
+      const order = movement.purchaseOrderLine?.purchaseOrder;
+      if (!order?.submittedAt) continue;
+
+      const key = `${order.id}:${movement.createdAt.toISOString().slice(0, 10)}`;
+      const receipt = receipts.get(key);
+      if (receipt) {
+        receipt.lines++;
+        receipt.quantity += movement.quantity;
+        continue;
+      }
+
+      // Movements come oldest first, so the delivery is dated by its first booking
+      receipts.set(key, {
+        orderNumber: order.orderNumber,
+        lines: 1,
+        quantity: movement.quantity,
+        submittedAt: order.submittedAt,
+        receivedAt: movement.createdAt,
+        days: Math.round((movement.createdAt.getTime() - order.submittedAt.getTime()) / DAY_MS * 10) / 10
+      });
+    }
+
+    return [...receipts.values()];
+  }
+
+  private summarize(supplierId: string, days: number[]): LeadTimeStats {
+    if (days.length === 0) {
+      return {
+        supplierId,
+        observations: 0,
+        meanDays: null,
+        stdDevDays: null,
+        minDays: null,
+        maxDays: null,
+        p50Days: null,
+        p90Days: null
+      };
+    }
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    return {
+      supplierId,
+      observations: days.length,
+      meanDays: round(ss.mean(days)),
+      stdDevDays: days.length > 1 ? round(ss.sampleStandardDeviation(days)) : 0,
+      minDays: ss.min(days),
+      maxDays: ss.max(days),
+      p50Days: round(ss.quantile(days, 0.5)),
+      p90Days: round(ss.quantile(days, 0.9))
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { ModelVersionStatus, PrismaClient } from '@prisma/client';
+import { TrainingReport } from './modelTrainingService';
+
+const prisma = new PrismaClient();
+
+export interface ModelVersionRecord {
+  categoryId: string;
+  version: string;
+  status: ModelVersionStatus;
+  artifactPath: string;
+  trainedAt: Date;
+  // First and last day of the demand the model was trained and validated on
+  dataStart: Date;
+  dataEnd: Date;
+  products: number;
+  trainingSamples: number;
+  holdoutSamples: number;
+  epochs: number;
+  stoppedEarly: boolean;
+  hyperparameters: Record<string, number | string>;
+  holdout: TrainingReport['holdout'];
+  promotedAt: Date | null;
+}
+
+export interface ModelVersionComparison {
+  versions: ModelVersionRecord[];
+  // Hyperparameters whose values are not the same across the compared versions
+  hyperparameterDifferences: string[];
+}
+
+export class ModelRegistryService {
+  async register(report: TrainingReport, artifactPath: string): Promise<ModelVersionRecord> {
+    const row = await prisma.modelVersion.create({
+      data: {
+        categoryId: report.categoryId,
+        version: report.version,
+        artifactPath,
+        trainedAt: report.trainedAt,
+        dataStart: new Date(report.dataStart),
+        dataEnd: new Date(report.dataEnd),
+        products: report.products,
+        trainingSamples: report.trainingSamples,
+        holdoutSamples: report.holdoutSamples,
+        epochs: report.epochs,
+        stoppedEarly: report.stoppedEarly,
+        hyperparameters: report.hyperparameters,
+        holdoutMae: report.holdout.mae,
+        holdoutWape: report.holdout.wape,
+        naiveWape: report.holdout.naiveWape
+      }
+    });
+
+    return this.format(row);
+  }
+
+  // The version forecasts use; null until one has been promoted
+  async getActive(categoryId: string): Promise<ModelVersionRecord | null> {
+    const row = await prisma.modelVersion.findFirst({ where: { categoryId, status: 'ACTIVE' } });
+    return row ? this.format(row) : null;
+  }
+
+  async list(categoryId: string): Promise<ModelVersionRecord[]> {
+    const rows = await prisma.modelVersion.findMany({
+      where: { categoryId },
+      orderBy: { trainedAt: 'desc' }
+    });
+
+    return rows.map(row => this.format(row));
+  }
+
+  // Returns null when the category has no such version
+  async promote(categoryId: string, version: string): Promise<ModelVersionRecord | null> {
+    const target = await prisma.modelVersion.findUnique({
+      where: { categoryId_version: { categoryId, version } }
+    });
+    if (!target) return null;
+
+    const [, row] = await prisma.$transaction([
+      prisma.modelVersion.updateMany({
+        where: { categoryId, status: 'ACTIVE', NOT: { version } },
+        data: { status: 'RETIRED' }
+      }),
+      prisma.modelVersion.update({
+        where: { id: target.id },
+        data: { status: 'ACTIVE', promotedAt: new Date() }
+      })
+    ]);
+
+    return this.format(row);
+  }
+
+  /**
+   * Promotes the most recently trained version that was active before the current one and was trained
+   * earlier, so repeated rollbacks keep stepping back. Returns null when there is nothing to roll back to.
+   */
+  async rollback(categoryId: string): Promise<ModelVersionRecord | null> {
+    const active = await prisma.modelVersion.findFirst({ where: { categoryId, status: 'ACTIVE' } });
+    if (!active) return null;
+
+    const previous = await prisma.modelVersion.findFirst({
+      where: { categoryId, status: 'RETIRED', trainedAt: { lt: active.trainedAt } },
+      orderBy: { trainedAt: 'desc' }
+    });
+    if (!previous) return null;
+
+    return this.promote(categoryId, previous.version);
+  }
+
+  // Versions in the order asked for; unknown versions are left out
+  async compare(categoryId: string, versions: string[]): Promise<ModelVersionComparison> {
+    const rows = await prisma.modelVersion.findMany({
+      where: { categoryId, version: { in: versions } }
+    });
+
+    const records = versions.flatMap(version => rows.filter(row => row.version === version).map(row => this.format(row)));
+    const keys = Array.from(new Set(records.flatMap(r => Object.keys(r.hyperparameters))));
+
+    return {
+      versions: records,
+      hyperparameterDifferences: keys.filter(key => new Set(records.map(r => r.hyperparameters[key])).size > 1)
+    };
+  }
+
+  private format(row: {
+    categoryId: string;
+    version: string;
+    status: ModelVersionStatus;
+    artifactPath: string;
+    trainedAt: Date;
+    dataStart: Date;
+    dataEnd: Date;
+    products: number;
+    trainingSamples: number;
+    holdoutSamples: number;
+    epochs: number;
+    stoppedEarly: boolean;
+    hyperparameters: unknown;
+    holdoutMae: number;
+    holdoutWape: number | null;
+    naiveWape: number | null;
+    promotedAt: Date | null;
+  }): ModelVersionRecord {
+    return {
+      categoryId: row.categoryId,
+      version: row.version,
+      status: row.status,
+      artifactPath: row.artifactPath,
+      trainedAt: row.trainedAt,
+      dataStart: row.dataStart,
+      dataEnd: row.dataEnd,
+      products: row.products,
+      trainingSamples: row.trainingSamples,
+      holdoutSamples: row.holdoutSamples,
+      epochs: row.epochs,
+      stoppedEarly: row.stoppedEarly,
+      hyperparameters: row.hyperparameters as Record<string, number | string>,
+      holdout: { mae: row.holdoutMae, wape: row.holdoutWape, naiveWape: row.naiveWape },
+      promotedAt: row.promotedAt
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BacktestResult } from './backtestService';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {} }));
+
+const { ModelSelectionService } = await import('./modelSelectionService');
+
+const result = (modelType: string, mase: number | null, originDates: string[]) =>
+  ({ modelType, mase, originDates, origins: originDates.length }) as BacktestResult;
+
+const allOrigins = ['2024-01-07', '2024-01-14', '2024-01-21'];
+
+describe('ModelSelectionService.choose', () => {
+  const service = new ModelSelectionService();
+
+  it('picks the lowest score, the first candidate on ties', () => {
+    const choice = service.choose([
+      result('STATISTICAL', 0.9, allOrigins),
+      result('HOLT_WINTERS', 0.8, allOrigins),
+      result('SBA', 0.8, allOrigins)
+    ], 'mase');
+
+    expect(choice).toEqual({
+      modelType: 'HOLT_WINTERS',
+      metric: 'mase',
+      score: 0.8,
+      scores: { STATISTICAL: 0.9, HOLT_WINTERS: 0.8, SBA: 0.8 },
+      originDates: allOrigins
+    });
+  });
+
+  it('leaves out a candidate scored only on the later origins', () => {
+    const choice = service.choose([
+      result('STATISTICAL', 0.9, allOrigins),
+      result('NEURAL_NETWORK', 0.5, allOrigins.slice(1))
+    ], 'mase');
+
+    expect(choice?.modelType).toBe('STATISTICAL');
+    expect(choice?.scores).toEqual({ STATISTICAL: 0.9, NEURAL_NETWORK: null });
+    expect(choice?.originDates).toEqual(allOrigins);
+  });
+
+  it('skips candidates without a score and gives null when none has one', () => {
+    expect(service.choose([result('STATISTICAL', null, allOrigins), result('SBA', 1.1, allOrigins)], 'mase')?.modelType).toBe('SBA');
+    expect(service.choose([result('STATISTICAL', null, allOrigins)], 'mase')).toBeNull();
+    expect(service.choose([], 'mase')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { PrismaClient } from '@prisma/client';
+import { BacktestResult } from './backtestService';
+
+const prisma = new PrismaClient();
+
+// Backtest metrics a model can be selected on; lower is better for all of them
+export type SelectionMetric = 'mase' | 'smape' | 'mape' | 'wape' | 'pinballLoss';
+
+export const SELECTION_METRICS: SelectionMetric[] = ['mase', 'smape', 'mape', 'wape', 'pinballLoss'];
+
+const isSelectionMetric = (value: string | undefined): value is SelectionMetric =>
+  SELECTION_METRICS.includes(value as SelectionMetric);
+
+export const DEFAULT_SELECTION_METRIC: SelectionMetric = isSelectionMetric(process.env.FORECAST_SELECTION_METRIC)
+  ? process.env.FORECAST_SELECTION_METRIC
+  : 'mase';
+
+export interface ModelSelection {
+  productId: string;
+  modelType: string;
+  metric: SelectionMetric;
+  score: number;
+  // Every candidate's score on the metric; null when the metric was undefined for it (e.g. MAPE without demand)
+  // or the candidate was left out for missing an origin
+  scores: Record<string, number | null>;
+  // Backtest origins the compared candidates were all scored on
+  originDates: string[];
+  selectedAt: Date;
+}
+
+export class ModelSelectionService {
+  /**
+   * Lowest score on the metric wins. Scores averaged over different origins do not compare, so candidates that
+   * could not forecast from every origin another one did are left out; a model needing more history would
+   * otherwise be scored only on its later, easier origins. Ties go to the candidate listed first, so callers
+   * list simpler models first. Returns null when no candidate has a score.
+   */
+  choose(results: BacktestResult[], metric: SelectionMetric): Omit<ModelSelection, 'productId' | 'selectedAt'> | null {
+    const originDates = [...new Set(results.flatMap(r => r.originDates))].sort();
+    const compared = results.filter(r => originDates.every(date => r.originDates.includes(date)));
+    const scores = Object.fromEntries(results.map(r => [r.modelType, compared.includes(r) ? r[metric] : null]));
+
+    const winner = compared.reduce<BacktestResult | null>((best, r) => {
+      const score = r[metric];
+      if (score === null) return best;
+      return best === null || score < best[metric]! ? r : best;
+    }, null);
+
+    if (!winner) return null;
+
+    return { modelType: winner.modelType, metric, score: winner[metric]!, scores, originDates };
+  }
+
+  async record(productId: string, selection: Omit<ModelSelection, 'productId' | 'selectedAt'>): Promise<ModelSelection> {
+    const row = await prisma.forecastModelSelection.upsert({
+      where: { productId },
+      create: { productId, ...selection },
+      update: selection
+    });
+
+    return this.format(row);
+  }
+
+  async getSelection(productId: string): Promise<ModelSelection | null> {
+    const row = await prisma.forecastModelSelection.findUnique({ where: { productId } });
+    return row ? this.format(row) : null;
+  }
+
+  private format(row: {
+    productId: string;
+    modelType: string;
+    metric: string;
+    score: number;
+    scores: unknown;
+    originDates: unknown;
+    updatedAt: Date;
+  }): ModelSelection {
+    return {
+      productId: row.productId,
+      modelType: row.modelType,
+      metric: row.metric as SelectionMetric,
+      score: row.score,
+      scores: row.scores as Record<string, number | null>,
+      // Empty for selections recorded before the origins were
+      originDates: (row.originDates ?? []) as string[],
+      selectedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,389 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ModelRegistryService } from './modelRegistryService';
+import { CALENDAR_FEATURE_COUNT, CalendarService, EventCalendar } from './calendarService';
+import { DemandDrivers, PROMOTION_FEATURE_COUNT, PromotionService } from './promotionService';
+import { StockoutService } from './stockoutService';
+
+const prisma = new PrismaClient();
+const modelRegistryService = new ModelRegistryService();
+const calendarService = new CalendarService();
+const promotionService = new PromotionService();
+const stockoutService = new StockoutService();
+
+const MODEL_ROOT = process.env.AI_MODEL_PATH || './models';
+
+// Demand lags fed to the network, followed by day of week, day of month, month, the calendar event flags and
+// the day's promotion and price
+const LAG_DAYS = 7;
+export const FEATURE_COUNT = LAG_DAYS + 3 + CALENDAR_FEATURE_COUNT + PROMOTION_FEATURE_COUNT;
+
+const TRAINING_DAYS = 365;
+// Samples whose target falls in the last two weeks of each product's history are held out for validation
+const HOLDOUT_DAYS = 14;
+const MIN_TRAINING_SAMPLES = 50;
+
+const MAX_EPOCHS = 200;
+const PATIENCE = 10;
+const MIN_DELTA = 1e-4;
+const BATCH_SIZE = 32;
+const LEARNING_RATE = 0.001;
+const DROPOUT_RATE = 0.2;
+const HIDDEN_UNITS = [64, 32, 16];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrainingReport {
+  categoryId: string;
+  version: string;
+  trainedAt: Date;
+  // First day any product in the category sold and last day of the data, as YYYY-MM-DD
+  dataStart: string;
+  dataEnd: string;
+  products: number;
+  trainingSamples: number;
+  holdoutSamples: number;
+  epochs: number;
+  stoppedEarly: boolean;
+  hyperparameters: Record<string, number | string>;
+  // Holdout errors in units; the seasonal naive forecast (same weekday last week) is the baseline to beat
+  holdout: {
+    mae: number;
+    wape: number | null;
+    naiveWape: number | null;
+  };
+  // Whether the version became the active one (see trainCategory)
+  promoted: boolean;
+}
+
+interface Samples {
+  inputs: number[][];
+  outputs: number[];
+  // Per-sample product scale, to turn scaled errors back into units
+  scales: number[];
+}
+
+/**
+ * Each product's demand is divided by its mean daily demand since its first sale, so one category-wide
+ * network can learn shape across products selling at very different volumes. 0 means the product never sold.
+ */
+export function demandScale(demands: number[]): number {
+  const first = demands.findIndex(d => d > 0);
+  if (first < 0) return 0;
+  const history = demands.slice(first);
+  return history.reduce((sum, d) => sum + d, 0) / history.length;
+}
+
+// Features for the day after `lags` (oldest first, in units), dated `date`
+export function demandFeatures(
+  lags: number[],
+  date: Date,
+  scale: number,
+  calendar: EventCalendar,
+  drivers: DemandDrivers
+): number[] {
+  const day = date.toISOString().split('T')[0];
+  return [
+    ...lags.slice(-LAG_DAYS).map(d => d / scale),
+    date.getUTCDay() / 6,
+    (date.getUTCDate() - 1) / 30,
+    date.getUTCMonth() / 11,
+    ...calendar.features(day),
+    ...drivers.features(day)
+  ];
+}
+
+export class ModelTrainingService {
+  /**
+   * Trains a new network for the category on every product's daily demand over the last year, holding out
+   * each product's last two weeks. Training stops once the holdout loss has not improved for PATIENCE epochs
+   * and keeps the best epoch's weights. The model and its report are saved and registered as a new version,
+   * which is promoted to active when the category has no active version yet or when it beats the seasonal
+   * naive forecast on the holdout; otherwise it stays a candidate for manual promotion. Returns null when the
+   * category has too little history to train on.
+   */
+  async trainCategory(categoryId: string): Promise<TrainingReport | null> {
+    const series = await this.getCategorySeries(categoryId);
+
+    const training: Samples = { inputs: [], outputs: [], scales: [] };
+    const holdout: Samples = { inputs: [], outputs: [], scales: [] };
+    let dataStart: string | null = null;
+
+    for (const { days, calendar, drivers } of series) {
+      const scale = demandScale(days.map(d => d.demand));
+      if (scale === 0) continue;
+
+      const first = days.findIndex(d => d.demand > 0);
+      if (dataStart === null || days[first].date < dataStart) dataStart = days[first].date;
+      const samples = this.buildSamples(days.slice(first), scale, calendar, drivers);
+      const split = samples.inputs.length - HOLDOUT_DAYS;
+      if (split <= 0) continue;
+
+      training.inputs.push(...samples.inputs.slice(0, split));
+      training.outputs.push(...samples.outputs.slice(0, split));
+      training.scales.push(...samples.scales.slice(0, split));
+      holdout.inputs.push(...samples.inputs.slice(split));
+      holdout.outputs.push(...samples.outputs.slice(split));
+      holdout.scales.push(...samples.scales.slice(split));
+    }
+
+    if (dataStart === null || training.inputs.length < MIN_TRAINING_SAMPLES || holdout.inputs.length === 0) {
+      return null;
+    }
+
+    const model = this.createModel();
+    try {
+      const epochs = await this.fit(model, training, holdout);
+
+      const version = this.newVersion();
+      const report: TrainingReport = {
+        categoryId,
+        version,
+        trainedAt: new Date(),
+        dataStart,
+        dataEnd: series[0].days[series[0].days.length - 1].date,
+        products: series.length,
+        trainingSamples: training.inputs.length,
+        holdoutSamples: holdout.inputs.length,
+        epochs,
+        stoppedEarly: epochs < MAX_EPOCHS,
+        hyperparameters: {
+          lagDays: LAG_DAYS,
+          features: FEATURE_COUNT,
+          trainingDays: TRAINING_DAYS,
+          holdoutDays: HOLDOUT_DAYS,
+          maxEpochs: MAX_EPOCHS,
+          patience: PATIENCE,
+          batchSize: BATCH_SIZE,
+          learningRate: LEARNING_RATE,
+          dropoutRate: DROPOUT_RATE,
+          hiddenUnits: HIDDEN_UNITS.join('-')
+        },
+        holdout: this.evaluate(model, holdout),
+        promoted: false
+      };
+
+      const artifactPath = await this.saveArtifact(model, report);
+      await modelRegistryService.register(report, artifactPath);
+
+      const { wape, naiveWape } = report.holdout;
+      const active = await modelRegistryService.getActive(categoryId);
+      if (!active || (wape !== null && naiveWape !== null && wape < naiveWape)) {
+        await modelRegistryService.promote(categoryId, version);
+        report.promoted = true;
+      }
+
+      return report;
+    } finally {
+      model.dispose();
+    }
+  }
+
+  // Trains every category in turn; categories without enough history, or whose training fails, are skipped
+  async trainAll(): Promise<{ reports: TrainingReport[]; skipped: string[] }> {
+    const categories = await prisma.category.findMany({ select: { id: true } });
+    const reports: TrainingReport[] = [];
+    const skipped: string[] = [];
+
+    for (const category of categories) {
+      try {
+        const report = await this.trainCategory(category.id);
+        if (report) {
+          reports.push(report);
+        } else {
+          skipped.push(category.id);
+        }
+      } catch (error) {
+        console.error(`Error training model for category ${category.id}:`, error);
+        skipped.push(category.id);
+      }
+    }
+
+    return { reports, skipped };
+  }
+
+  /**
+   * In-memory network trained on a single product's series, for backtests that must not see data after the
+   * origin. Nothing is saved. Returns null when the series is too short to train on.
+   */
+  async trainOnSeries(
+    days: Array<{ date: string; demand: number }>,
+    calendar: EventCalendar,
+    drivers: DemandDrivers
+  ): Promise<tf.LayersModel | null> {
+    const scale = demandScale(days.map(d => d.demand));
+    if (scale === 0) return null;
+
+    const first = days.findIndex(d => d.demand > 0);
+    const samples = this.buildSamples(days.slice(first), scale, calendar, drivers);
+    const split = samples.inputs.length - HOLDOUT_DAYS;
+    if (split < MIN_TRAINING_SAMPLES / 2) return null;
+
+    const model = this.createModel();
+    await this.fit(
+      model,
+      { inputs: samples.inputs.slice(0, split), outputs: samples.outputs.slice(0, split), scales: samples.scales.slice(0, split) },
+      { inputs: samples.inputs.slice(split), outputs: samples.outputs.slice(split), scales: samples.scales.slice(split) }
+    );
+    return model;
+  }
+
+  async loadModel(artifactPath: string): Promise<tf.LayersModel> {
+    return tf.loadLayersModel(`file://${path.resolve(artifactPath, 'model.json')}`);
+  }
+
+  // Each version gets its own directory, so earlier versions stay available for rollback
+  private async saveArtifact(model: tf.LayersModel, report: TrainingReport): Promise<string> {
+    const dir = path.join(MODEL_ROOT, `demand_forecast_${report.categoryId}`, report.version);
+    await fs.mkdir(dir, { recursive: true });
+    await model.save(`file://${path.resolve(dir)}`);
+    await fs.writeFile(path.join(dir, 'metadata.json'), JSON.stringify(report, null, 2));
+    return dir;
+  }
+
+  private async fit(model: tf.LayersModel, training: Samples, holdout: Samples): Promise<number> {
+    const xs = tf.tensor2d(training.inputs, [training.inputs.length, FEATURE_COUNT]);
+    const ys = tf.tensor2d(training.outputs, [training.outputs.length, 1]);
+    const xv = tf.tensor2d(holdout.inputs, [holdout.inputs.length, FEATURE_COUNT]);
+    const yv = tf.tensor2d(holdout.outputs, [holdout.outputs.length, 1]);
+
+    // tfjs' EarlyStopping cannot restore the best weights, so the best epoch's are kept here
+    let bestLoss = Infinity;
+    // Held in a ref: TypeScript does not see the callback's assignments, and would narrow a plain local to null
+    const bestWeights: { current: tf.Tensor[] | null } = { current: null };
+    let epochsWithoutImprovement = 0;
+
+    try {
+      const history = await model.fit(xs, ys, {
+        epochs: MAX_EPOCHS,
+        batchSize: BATCH_SIZE,
+        validationData: [xv, yv],
+        shuffle: true,
+        verbose: 0,
+        callbacks: {
+          onEpochEnd: async (_epoch, logs) => {
+            const loss = logs?.val_loss ?? Infinity;
+            if (loss < bestLoss - MIN_DELTA) {
+              bestLoss = loss;
+              bestWeights.current?.forEach(w => w.dispose());
+              bestWeights.current = model.getWeights().map(w => w.clone());
+              epochsWithoutImprovement = 0;
+            } else if (++epochsWithoutImprovement >= PATIENCE) {
+              model.stopTraining = true;
+            }
+          }
+        }
+      });
+
+      if (bestWeights.current) {
+        model.setWeights(bestWeights.current);
+      }
+      return history.epoch.length;
+    } finally {
+      bestWeights.current?.forEach(w => w.dispose());
+      [xs, ys, xv, yv].forEach(t => t.dispose());
+    }
+  }
+
+  private evaluate(model: tf.LayersModel, holdout: Samples): TrainingReport['holdout'] {
+    const xv = tf.tensor2d(holdout.inputs, [holdout.inputs.length, FEATURE_COUNT]);
+    const predictions = tf.tidy(() => (model.predict(xv) as tf.Tensor).dataSync());
+    xv.dispose();
+
+    let absError = 0;
+    let naiveError = 0;
+    let totalActual = 0;
+
+    holdout.outputs.forEach((output, i) => {
+      const scale = holdout.scales[i];
+      const actual = output * scale;
+      absError += Math.abs(Math.max(0, predictions[i]) * scale - actual);
+      // The first feature is demand seven days before the target
+      naiveError += Math.abs(holdout.inputs[i][0] * scale - actual);
+      totalActual += actual;
+    });
+
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+    return {
+      mae: round(absError / holdout.outputs.length),
+      wape: totalActual > 0 ? round(absError / totalActual) : null,
+      naiveWape: totalActual > 0 ? round(naiveError / totalActual) : null
+    };
+  }
+
+  private buildSamples(
+    days: Array<{ date: string; demand: number }>,
+    scale: number,
+    calendar: EventCalendar,
+    drivers: DemandDrivers
+  ): Samples {
+    const samples: Samples = { inputs: [], outputs: [], scales: [] };
+
+    for (let t = LAG_DAYS; t < days.length; t++) {
+      const lags = days.slice(t - LAG_DAYS, t).map(d => d.demand);
+      samples.inputs.push(demandFeatures(lags, new Date(days[t].date), scale, calendar, drivers));
+      samples.outputs.push(days[t].demand / scale);
+      samples.scales.push(scale);
+    }
+
+    return samples;
+  }
+
+  // Daily demand per product in the category with stockout days imputed, oldest day first, with its region's
+  // calendar and its promotions and prices
+  private async getCategorySeries(categoryId: string): Promise<Array<{
+    days: Array<{ date: string; demand: number }>;
+    calendar: EventCalendar;
+    drivers: DemandDrivers;
+  }>> {
+    const since = new Date(Date.now() - TRAINING_DAYS * DAY_MS);
+
+    const products = await prisma.product.findMany({
+      where: { categoryId },
+      select: { id: true, location: { select: { region: true } } }
+    });
+    const productIds = products.map(p => p.id);
+    const histories = await stockoutService.getDemandHistories(productIds, TRAINING_DAYS);
+
+    const calendars = new Map<string | null, EventCalendar>();
+    for (const region of new Set<string | null>(products.map(p => p.location.region))) {
+      calendars.set(region, await calendarService.getCalendar(since, new Date(), region));
+    }
+
+    const drivers = await promotionService.getDrivers(productIds, since, new Date());
+
+    return products.map(product => ({
+      days: histories.get(product.id)!,
+      calendar: calendars.get(product.location.region)!,
+      drivers: drivers.get(product.id)!
+    }));
+  }
+
+  private createModel(): tf.LayersModel {
+    const model = tf.sequential({
+      layers: [
+        tf.layers.dense({ inputShape: [FEATURE_COUNT], units: HIDDEN_UNITS[0], activation: 'relu' }),
+        tf.layers.dropout({ rate: DROPOUT_RATE }),
+        tf.layers.dense({ units: HIDDEN_UNITS[1], activation: 'relu' }),
+        tf.layers.dropout({ rate: DROPOUT_RATE }),
+        tf.layers.dense({ units: HIDDEN_UNITS[2], activation: 'relu' }),
+        tf.layers.dense({ units: 1, activation: 'linear' })
+      ]
+    });
+
+    model.compile({
+      optimizer: tf.train.adam(LEARNING_RATE),
+      loss: 'meanSquaredError',
+      metrics: ['mae']
+    });
+
+    return model;
+  }
+
+  // Sortable timestamp, e.g. v20240115T103000
+  private newVersion(): string {
+    return `v${new Date().toISOString().replace(/[-:]/g, '').split('.')[0]}`;
+  }
+}
@@ -0,0 +1,206 @@
+import { ParameterScope, PrismaClient, SafetyStockMethod, ServiceLevelType } from '@prisma/client';
+import { ABC_CLASSES, AbcClass, ServiceLevelService } from './serviceLevelService';
+
+const prisma = new PrismaClient();
+const serviceLevelService = new ServiceLevelService();
+
+export interface ParameterValues {
+  orderingCost: number;
+  holdingCostRate: number;
+  leadTimeDays: number;
+  serviceLevel: number;
+  serviceLevelType: ServiceLevelType;
+  safetyStockMethod: SafetyStockMethod;
+}
+
+export type ParameterKey = keyof ParameterValues;
+// REQUEST marks a value supplied for a single what-if calculation, OBSERVED one measured from purchase orders
+export type ParameterSource = ParameterScope | 'DEFAULT' | 'REQUEST' | 'OBSERVED';
+
+export type ParameterOverrides = { [K in ParameterKey]?: ParameterValues[K] | null };
+
+export type ResolvedParameters = { [K in ParameterKey]: { value: ParameterValues[K]; source: ParameterSource } };
+
+// Used when no GLOBAL row has been saved yet
+export const DEFAULT_PARAMETERS: ParameterValues = {
+  orderingCost: 50,
+  holdingCostRate: 0.25,
+  leadTimeDays: 7,
+  serviceLevel: 0.95,
+  serviceLevelType: 'CYCLE',
+  safetyStockMethod: 'NORMAL'
+};
+
+// Most specific scope first
+const RESOLUTION_ORDER: ParameterScope[] = ['PRODUCT', 'SUPPLIER', 'CATEGORY', 'ABC_CLASS', 'GLOBAL'];
+
+export class OptimizationParameterError extends Error {
+  constructor(message: string, public statusCode: 400 | 404) {
+    super(message);
+    this.name = 'OptimizationParameterError';
+  }
+}
+
+export class OptimizationParameterService {
+  async resolve(productId: string, abcClass?: AbcClass): Promise<ResolvedParameters> {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true, supplierId: true, categoryId: true }
+    });
+
+    if (!product) {
+      throw new OptimizationParameterError('Product not found', 404);
+    }
+
+    const scopeIds: Record<ParameterScope, string> = {
+      PRODUCT: product.id,
+      SUPPLIER: product.supplierId,
+      CATEGORY: product.categoryId,
+      ABC_CLASS: abcClass ?? await serviceLevelService.getAbcClass(product.id),
+      GLOBAL: ''
+    };
+
+    const rows = await prisma.optimizationParameter.findMany({
+      where: {
+        OR: RESOLUTION_ORDER.map(scope => ({ scope, scopeId: scopeIds[scope] }))
+      }
+    });
+
+    const ordered = RESOLUTION_ORDER
+      .map(scope => rows.find(r => r.scope === scope))
+      .filter((row): row is NonNullable<typeof row> => row !== undefined);
+
+    const resolve = <K extends ParameterKey>(key: K) => {
+      const row = ordered.find(r => r[key] !== null);
+      return row
+        ? { value: this.format(row)[key] as ParameterValues[K], source: row.scope }
+        : { value: DEFAULT_PARAMETERS[key], source: 'DEFAULT' as const };
+    };
+
+    // Each field resolves on its own, so a product can override lead time but inherit costs
+    return {
+      orderingCost: resolve('orderingCost'),
+      holdingCostRate: resolve('holdingCostRate'),
+      leadTimeDays: resolve('leadTimeDays'),
+      serviceLevel: resolve('serviceLevel'),
+      serviceLevelType: resolve('serviceLevelType'),
+      safetyStockMethod: resolve('safetyStockMethod')
+    };
+  }
+
+  async list(scope?: ParameterScope) {
+    const rows = await prisma.optimizationParameter.findMany({
+      where: scope ? { scope } : {},
+      orderBy: [{ scope: 'asc' }, { updatedAt: 'desc' }]
+    });
+
+    const names = await this.getScopeNames(rows);
+
+    return rows.map(row => ({
+      ...this.format(row),
+      scopeName: row.scope === 'GLOBAL'
+        ? 'Global default'
+        : row.scope === 'ABC_CLASS'
+          ? `Class ${row.scopeId}`
+          : names.get(`${row.scope}:${row.scopeId}`) ?? null
+    }));
+  }
+
+  async getGlobal(): Promise<ParameterValues> {
+    const row = await prisma.optimizationParameter.findUnique({
+      where: { scope_scopeId: { scope: 'GLOBAL', scopeId: '' } }
+    });
+
+    if (!row) return { ...DEFAULT_PARAMETERS };
+
+    const stored = this.format(row);
+    return {
+      orderingCost: stored.orderingCost ?? DEFAULT_PARAMETERS.orderingCost,
+      holdingCostRate: stored.holdingCostRate ?? DEFAULT_PARAMETERS.holdingCostRate,
+      leadTimeDays: stored.leadTimeDays ?? DEFAULT_PARAMETERS.leadTimeDays,
+      serviceLevel: stored.serviceLevel ?? DEFAULT_PARAMETERS.serviceLevel,
+      serviceLevelType: stored.serviceLevelType ?? DEFAULT_PARAMETERS.serviceLevelType,
+      safetyStockMethod: stored.safetyStockMethod ?? DEFAULT_PARAMETERS.safetyStockMethod
+    };
+  }
+
+  async upsert(scope: ParameterScope, scopeId: string, overrides: ParameterOverrides, userId?: string) {
+    await this.assertScopeTarget(scope, scopeId);
+
+    const row = await prisma.optimizationParameter.upsert({
+      where: { scope_scopeId: { scope, scopeId } },
+      create: { scope, scopeId, ...overrides, updatedBy: userId },
+      update: { ...overrides, updatedBy: userId }
+    });
+
+    return this.format(row);
+  }
+
+  async remove(scope: ParameterScope, scopeId: string): Promise<boolean> {
+    const { count } = await prisma.optimizationParameter.deleteMany({ where: { scope, scopeId } });
+    return count > 0;
+  }
+
+  private async assertScopeTarget(scope: ParameterScope, scopeId: string) {
+    if (scope === 'GLOBAL') return;
+
+    if (scope === 'ABC_CLASS') {
+      if (!ABC_CLASSES.includes(scopeId as AbcClass)) {
+        throw new OptimizationParameterError(`ABC class must be one of ${ABC_CLASSES.join(', ')}`, 400);
+      }
+      return;
+    }
+
+    const exists = scope === 'PRODUCT'
+      ? await prisma.product.count({ where: { id: scopeId } })
+      : scope === 'SUPPLIER'
+        ? await prisma.supplier.count({ where: { id: scopeId } })
+        : await prisma.category.count({ where: { id: scopeId } });
+
+    if (!exists) {
+      throw new OptimizationParameterError(`${scope.toLowerCase()} ${scopeId} not found`, 404);
+    }
+  }
+
+  private async getScopeNames(rows: Array<{ scope: ParameterScope; scopeId: string }>) {
+    const idsFor = (scope: ParameterScope) => rows.filter(r => r.scope === scope).map(r => r.scopeId);
+
+    const [products, suppliers, categories] = await Promise.all([
+      prisma.product.findMany({ where: { id: { in: idsFor('PRODUCT') } }, select: { id: true, name: true } }),
+      prisma.supplier.findMany({ where: { id: { in: idsFor('SUPPLIER') } }, select: { id: true, name: true } }),
+      prisma.category.findMany({ where: { id: { in: idsFor('CATEGORY') } }, select: { id: true, name: true } })
+    ]);
+
+    const names = new Map<string, string>();
+    products.forEach(p => names.set(`PRODUCT:${p.id}`, p.name));
+    suppliers.forEach(s => names.set(`SUPPLIER:${s.id}`, s.name));
+    categories.forEach(c => names.set(`CATEGORY:${c.id}`, c.name));
+    return names;
+  }
+
+  private format(row: {
+    id: string;
+    scope: ParameterScope;
+    scopeId: string;
+    orderingCost: unknown;
+    holdingCostRate: number | null;
+    leadTimeDays: number | null;
+    serviceLevel: number | null;
+    serviceLevelType: ServiceLevelType | null;
+    safetyStockMethod: SafetyStockMethod | null;
+    updatedAt: Date;
+  }) {
+    return {
+      id: row.id,
+      scope: row.scope,
+      scopeId: row.scope === 'GLOBAL' ? null : row.scopeId,
+      orderingCost: row.orderingCost !== null ? Number(row.orderingCost) : null,
+      holdingCostRate: row.holdingCostRate,
+      leadTimeDays: row.leadTimeDays,
+      serviceLevel: row.serviceLevel,
+      serviceLevelType: row.serviceLevelType,
+      safetyStockMethod: row.safetyStockMethod,
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ORDER_TERMS, OrderQuantityService } from './orderQuantityService';
+
+// EOQ = sqrt(2 * 1000 * 50 / (20 * 0.25)) = 141.42
+const input = { annualDemand: 1000, orderingCost: 50, holdingCostRate: 0.25, baseUnitCost: 20 };
+
+describe('OrderQuantityService.optimize', () => {
+  const service = new OrderQuantityService();
+
+  it('rounds the economic order quantity to the cheaper whole unit', () => {
+    const result = service.optimize({ ...input, terms: DEFAULT_ORDER_TERMS });
+
+    expect(result.economicOrderQuantity).toBe(141.42);
+    expect(result.orderQuantity).toBe(141);
+    expect(result.priceBreak).toBeNull();
+    expect(result.adjustments.map(a => a.type)).toEqual(['PACK_ROUNDING']);
+    expect(result.annualCost).toEqual({ purchase: 20000, ordering: 354.61, holding: 352.5, total: 20707.11 });
+  });
+
+  it('orders up to a price break when the discount outweighs the extra holding cost', () => {
+    const result = service.optimize({
+      ...input,
+      terms: { ...DEFAULT_ORDER_TERMS, priceBreaks: [{ minQuantity: 500, unitCost: 18 }] }
+    });
+
+    expect(result.orderQuantity).toBe(500);
+    expect(result.unitCost).toBe(18);
+    expect(result.priceBreak).toBe(500);
+    expect(result.adjustments[0]).toMatchObject({ type: 'PRICE_BREAK', from: 141.42, to: 500 });
+    expect(result.annualCost.total).toBe(19225);
+  });
+
+  it('ignores a price break whose minimum costs more to hold than it saves', () => {
+    const result = service.optimize({
+      ...input,
+      terms: { ...DEFAULT_ORDER_TERMS, priceBreaks: [{ minQuantity: 5000, unitCost: 19.9 }] }
+    });
+
+    expect(result.orderQuantity).toBe(141);
+    expect(result.priceBreak).toBeNull();
+  });
+
+  it('lifts the order to the supplier minimum and rounds up to whole packs', () => {
+    const result = service.optimize({
+      ...input,
+      terms: { minOrderQuantity: 200, packSize: 24, priceBreaks: [] }
+    });
+
+    expect(result.orderQuantity).toBe(216);
+    expect(result.adjustments).toMatchObject([
+      { type: 'MIN_ORDER_QUANTITY', from: 141.42, to: 200 },
+      { type: 'PACK_ROUNDING', from: 200, to: 216 }
+    ]);
+  });
+
+  it('orders nothing without demand', () => {
+    const result = service.optimize({
+      ...input,
+      annualDemand: 0,
+      terms: { minOrderQuantity: 200, packSize: 24, priceBreaks: [] }
+    });
+
+    expect(result.orderQuantity).toBe(0);
+    expect(result.adjustments).toEqual([]);
+  });
+});
+
+describe('OrderQuantityService.constrain', () => {
+  const service = new OrderQuantityService();
+  const terms = { minOrderQuantity: 12, packSize: 5, priceBreaks: [] };
+
+  it('covers the quantity with the minimum order and whole packs', () => {
+    expect(service.constrain(3, terms)).toBe(15);
+    expect(service.constrain(31, terms)).toBe(35);
+    expect(service.constrain(0, terms)).toBe(0);
+  });
+});
+
+describe('OrderQuantityService.unitCostAt', () => {
+  const service = new OrderQuantityService();
+  const terms = { ...DEFAULT_ORDER_TERMS, priceBreaks: [{ minQuantity: 500, unitCost: 18 }, { minQuantity: 100, unitCost: 19 }] };
+
+  it('applies the highest price break the quantity reaches', () => {
+    expect(service.unitCostAt(99, 20, terms)).toBe(20);
+    expect(service.unitCostAt(100, 20, terms)).toBe(19);
+    expect(service.unitCostAt(750, 20, terms)).toBe(18);
+  });
+});
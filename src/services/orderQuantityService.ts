@@ -0,0 +1,202 @@
+export interface PriceBreakTerm {
+  minQuantity: number;
+  unitCost: number;
+}
+
+export interface OrderTerms {
+  minOrderQuantity: number;
+  packSize: number;
+  priceBreaks: PriceBreakTerm[];
+}
+
+export interface OrderQuantityAdjustment {
+  type: 'PRICE_BREAK' | 'MIN_ORDER_QUANTITY' | 'PACK_ROUNDING';
+  from: number;
+  to: number;
+  reason: string;
+}
+
+export interface OrderQuantityResult {
+  economicOrderQuantity: number;
+  orderQuantity: number;
+  unitCost: number;
+  unitHoldingCost: number;
+  priceBreak: number | null;
+  minOrderQuantity: number;
+  packSize: number;
+  annualCost: {
+    purchase: number;
+    ordering: number;
+    holding: number;
+    total: number;
+  };
+  adjustments: OrderQuantityAdjustment[];
+}
+
+export const DEFAULT_ORDER_TERMS: OrderTerms = { minOrderQuantity: 1, packSize: 1, priceBreaks: [] };
+
+// Per unit and year, for products without a cost or price to apply the holding cost rate to
+const FALLBACK_HOLDING_COST = 10;
+
+interface Candidate {
+  quantity: number;
+  adjustments: OrderQuantityAdjustment[];
+}
+
+export class OrderQuantityService {
+  /**
+   * Picks the order quantity with the lowest annual purchase, ordering and holding cost among the
+   * EOQ of every price tier, each lifted to the tier minimum and the supplier MOQ and rounded to
+   * whole packs. The adjustments record each step away from the unconstrained EOQ.
+   */
+  optimize(input: {
+    annualDemand: number;
+    orderingCost: number;
+    holdingCostRate: number;
+    baseUnitCost: number;
+    terms: OrderTerms;
+  }): OrderQuantityResult {
+    const { annualDemand, orderingCost, holdingCostRate, baseUnitCost, terms } = input;
+    const tiers = this.getTiers(baseUnitCost, terms);
+
+    const eoqAt = (unitCost: number) =>
+      Math.sqrt((2 * annualDemand * orderingCost) / this.holdingCost(unitCost, holdingCostRate));
+    const economicOrderQuantity = eoqAt(baseUnitCost);
+
+    // Nothing to order without demand; the constraints only apply once an order is placed
+    if (annualDemand <= 0) {
+      return this.result(0, economicOrderQuantity, [], input, tiers);
+    }
+
+    const candidates: Candidate[] = [];
+
+    tiers.forEach((tier, index) => {
+      const adjustments: OrderQuantityAdjustment[] = [];
+      let quantity = Math.max(eoqAt(tier.unitCost), tier.minQuantity);
+
+      if (index > 0) {
+        adjustments.push({
+          type: 'PRICE_BREAK',
+          from: this.round(economicOrderQuantity),
+          to: this.round(quantity),
+          reason: `Ordering at least ${tier.minQuantity} units lowers the unit cost from $${baseUnitCost} to $${tier.unitCost}`
+        });
+      }
+
+      if (quantity < terms.minOrderQuantity) {
+        adjustments.push({
+          type: 'MIN_ORDER_QUANTITY',
+          from: this.round(quantity),
+          to: terms.minOrderQuantity,
+          reason: `Supplier minimum order is ${terms.minOrderQuantity} units`
+        });
+        quantity = terms.minOrderQuantity;
+      }
+
+      const up = Math.ceil(quantity / terms.packSize) * terms.packSize;
+      const down = Math.floor(quantity / terms.packSize) * terms.packSize;
+
+      candidates.push({
+        quantity: up,
+        adjustments: up === quantity ? adjustments : [...adjustments, this.rounding(quantity, up, terms.packSize)]
+      });
+
+      // Rounding down is only an option while it keeps the MOQ and the tier's price
+      if (down !== up && down > 0 && down >= terms.minOrderQuantity && down >= tier.minQuantity) {
+        candidates.push({ quantity: down, adjustments: [...adjustments, this.rounding(quantity, down, terms.packSize)] });
+      }
+    });
+
+    const best = candidates.reduce((a, b) => {
+      const costA = this.annualCost(a.quantity, input, tiers).total;
+      const costB = this.annualCost(b.quantity, input, tiers).total;
+      return costB < costA || (costB === costA && b.quantity < a.quantity) ? b : a;
+    });
+
+    return this.result(best.quantity, economicOrderQuantity, best.adjustments, input, tiers);
+  }
+
+  // Smallest orderable quantity covering the requested one, for quantities decided elsewhere
+  constrain(quantity: number, terms: OrderTerms): number {
+    if (quantity <= 0) return 0;
+    const required = Math.max(quantity, terms.minOrderQuantity);
+    return Math.ceil(required / terms.packSize) * terms.packSize;
+  }
+
+  unitCostAt(quantity: number, baseUnitCost: number, terms: OrderTerms): number {
+    return this.tierFor(quantity, this.getTiers(baseUnitCost, terms)).unitCost;
+  }
+
+  private result(
+    quantity: number,
+    economicOrderQuantity: number,
+    adjustments: OrderQuantityAdjustment[],
+    input: { baseUnitCost: number; terms: OrderTerms; annualDemand: number; orderingCost: number; holdingCostRate: number },
+    tiers: PriceBreakTerm[]
+  ): OrderQuantityResult {
+    const tier = this.tierFor(quantity, tiers);
+
+    return {
+      economicOrderQuantity: this.round(economicOrderQuantity),
+      orderQuantity: quantity,
+      unitCost: tier.unitCost,
+      unitHoldingCost: this.round(this.holdingCost(tier.unitCost, input.holdingCostRate)),
+      priceBreak: tier === tiers[0] ? null : tier.minQuantity,
+      minOrderQuantity: input.terms.minOrderQuantity,
+      packSize: input.terms.packSize,
+      annualCost: this.annualCost(quantity, input, tiers),
+      adjustments
+    };
+  }
+
+  private annualCost(
+    quantity: number,
+    input: { annualDemand: number; orderingCost: number; holdingCostRate: number },
+    tiers: PriceBreakTerm[]
+  ) {
+    const unitCost = this.tierFor(quantity, tiers).unitCost;
+    const purchase = input.annualDemand * unitCost;
+    const ordering = quantity > 0 ? (input.annualDemand / quantity) * input.orderingCost : 0;
+    const holding = (quantity / 2) * this.holdingCost(unitCost, input.holdingCostRate);
+
+    return {
+      purchase: this.round(purchase),
+      ordering: this.round(ordering),
+      holding: this.round(holding),
+      total: this.round(purchase + ordering + holding)
+    };
+  }
+
+  // The base cost applies from the first unit; price breaks are sorted by the quantity they start at
+  private getTiers(baseUnitCost: number, terms: OrderTerms): PriceBreakTerm[] {
+    return [
+      { minQuantity: 1, unitCost: baseUnitCost },
+      ...[...terms.priceBreaks]
+        .filter(b => b.minQuantity > 1)
+        .sort((a, b) => a.minQuantity - b.minQuantity)
+    ];
+  }
+
+  private tierFor(quantity: number, tiers: PriceBreakTerm[]): PriceBreakTerm {
+    return tiers.reduce((current, tier) => quantity >= tier.minQuantity ? tier : current, tiers[0]);
+  }
+
+  private holdingCost(unitCost: number, holdingCostRate: number): number {
+    return unitCost > 0 ? unitCost * holdingCostRate : FALLBACK_HOLDING_COST;
+  }
+
+  private rounding(from: number, to: number, packSize: number): OrderQuantityAdjustment {
+    return {
+      type: 'PACK_ROUNDING',
+      from: this.round(from),
+      to,
+      reason: packSize > 1
+        ? `Rounded ${to > from ? 'up' : 'down'} to a whole number of ${packSize}-unit packs`
+        : `Rounded ${to > from ? 'up' : 'down'} to whole units`
+    };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,319 @@
+import { PrismaClient, PromotionType } from '@prisma/client';
+import { CacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Applied to discount depths when the product's regular price never changed enough to estimate its own
+const DEFAULT_PRICE_ELASTICITY = -1.5;
+const MIN_PRICE_ELASTICITY = -5;
+const MAX_PRICE_ELASTICITY = 0;
+
+// Days without a promotion a regular price needs before its demand counts towards the elasticity
+const MIN_PRICE_LEVEL_DAYS = 7;
+
+// Days of evidence a promotion uplift needs before it counts as much as the neutral factor of 1
+const UPLIFT_PRIOR_DAYS = 7;
+
+// Bounds on the combined price and promotion multiplier of one day
+const MIN_DRIVER_FACTOR = 0.1;
+const MAX_DRIVER_FACTOR = 10;
+
+// Promotion flag, discount depth and the log of the regular price relative to the latest one
+export const PROMOTION_FEATURE_COUNT = 3;
+
+export interface PromotionRecord {
+  id: string;
+  productId: string;
+  name: string;
+  promotionType: PromotionType;
+  // Share taken off the regular price, 0 for promotions without a discount such as displays
+  discountDepth: number;
+  // First and last day of the promotion, as YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  createdBy: string | null;
+}
+
+export interface PricePoint {
+  unitPrice: number;
+  effectiveAt: Date;
+  changedBy: string | null;
+}
+
+export interface PromotionEffects {
+  // Relative change in demand per relative change in the regular price
+  priceElasticity: number;
+  elasticitySource: 'ESTIMATED' | 'DEFAULT';
+  // Demand multiplier of each promotion type on top of its discount, keyed by type; ALL covers types never run
+  uplift: Record<string, number>;
+}
+
+export interface PromotionInput {
+  productId: string;
+  name: string;
+  promotionType: PromotionType;
+  discountDepth?: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (day: string, days: number) => dayKey(new Date(Date.parse(day) + days * DAY_MS));
+
+/**
+ * Promotions and regular price history of one product over a date range. Forecasters read the price and
+ * promotion on each day from it, and the uplift and elasticity learned from the product's own history.
+ */
+export class DemandDrivers {
+  private byDay = new Map<string, PromotionRecord>();
+  private referencePrice: number | null;
+
+  constructor(
+    public readonly promotions: PromotionRecord[],
+    // Regular price changes, oldest first, keyed by the day they took effect
+    private readonly prices: Array<{ day: string; unitPrice: number }>
+  ) {
+    // Overlapping promotions count as the deepest one
+    promotions.forEach(promotion => {
+      for (let day = promotion.startDate; day <= promotion.endDate; day = addDays(day, 1)) {
+        const current = this.byDay.get(day);
+        if (!current || promotion.discountDepth > current.discountDepth) this.byDay.set(day, promotion);
+      }
+    });
+    this.referencePrice = prices.length > 0 ? prices[prices.length - 1].unitPrice : null;
+  }
+
+  promotionOn(day: string): PromotionRecord | null {
+    return this.byDay.get(day) ?? null;
+  }
+
+  // Price in effect on the day; days before the first recorded change take its price
+  regularPriceOn(day: string): number | null {
+    if (this.prices.length === 0) return null;
+    const applicable = this.prices.filter(p => p.day <= day);
+    return (applicable.length > 0 ? applicable[applicable.length - 1] : this.prices[0]).unitPrice;
+  }
+
+  // Values in the order described by PROMOTION_FEATURE_COUNT
+  features(day: string): number[] {
+    const promotion = this.promotionOn(day);
+    return [promotion ? 1 : 0, promotion?.discountDepth ?? 0, Math.log(this.relativePrice(day))];
+  }
+
+  /**
+   * Price elasticity from the mean demand at each regular price on days without a promotion (a weighted
+   * log-log fit), and per promotion type the mean ratio of promotion-day demand to the regular-day baseline
+   * once the discount's own price effect is removed, shrunk toward 1 by UPLIFT_PRIOR_DAYS pseudo-days.
+   */
+  estimateEffects(history: Array<{ date: string; demand: number }>): PromotionEffects {
+    const regularDays = history.filter(d => !this.promotionOn(d.date));
+    const estimated = this.estimateElasticity(regularDays);
+    const priceElasticity = estimated ?? DEFAULT_PRICE_ELASTICITY;
+    const effects: PromotionEffects = {
+      priceElasticity,
+      elasticitySource: estimated === null ? 'DEFAULT' : 'ESTIMATED',
+      uplift: {}
+    };
+
+    const priceFactor = (day: string) => Math.pow(this.relativePrice(day), priceElasticity);
+    const baseline = regularDays.reduce((sum, d) => sum + d.demand / priceFactor(d.date), 0) / Math.max(1, regularDays.length);
+    if (baseline <= 0) return effects;
+
+    const totals = new Map<string, { ratio: number; days: number }>();
+    history.forEach(d => {
+      const promotion = this.promotionOn(d.date);
+      if (!promotion) return;
+
+      const expected = baseline * priceFactor(d.date) * Math.pow(1 - promotion.discountDepth, priceElasticity);
+      [promotion.promotionType, 'ALL'].forEach(key => {
+        const total = totals.get(key) || { ratio: 0, days: 0 };
+        totals.set(key, { ratio: total.ratio + d.demand / expected, days: total.days + 1 });
+      });
+    });
+
+    totals.forEach(({ ratio, days }, key) => {
+      effects.uplift[key] = (ratio + UPLIFT_PRIOR_DAYS) / (days + UPLIFT_PRIOR_DAYS);
+    });
+
+    return effects;
+  }
+
+  // Demand multiplier of the day's regular price and promotion, relative to selling at the latest price
+  factorOn(day: string, effects: PromotionEffects): number {
+    let factor = Math.pow(this.relativePrice(day), effects.priceElasticity);
+
+    const promotion = this.promotionOn(day);
+    if (promotion) {
+      factor *= Math.pow(1 - promotion.discountDepth, effects.priceElasticity)
+        * (effects.uplift[promotion.promotionType] ?? effects.uplift.ALL ?? 1);
+    }
+
+    return Math.min(MAX_DRIVER_FACTOR, Math.max(MIN_DRIVER_FACTOR, factor));
+  }
+
+  // Promotions with days after `day`, e.g. the last day of history
+  plannedAfter(day: string): PromotionRecord[] {
+    return this.promotions.filter(p => p.endDate > day);
+  }
+
+  // The same drivers with promotion days after `day` removed, for baseline forecasts
+  withoutPromotionsAfter(day: string): DemandDrivers {
+    const past = this.promotions
+      .filter(p => p.startDate <= day)
+      .map(p => ({ ...p, endDate: p.endDate < day ? p.endDate : day }));
+    return new DemandDrivers(past, this.prices);
+  }
+
+  private relativePrice(day: string): number {
+    const price = this.regularPriceOn(day);
+    return price && this.referencePrice ? price / this.referencePrice : 1;
+  }
+
+  // Slope of log mean demand on log price across price levels; null with fewer than two usable levels
+  private estimateElasticity(days: Array<{ date: string; demand: number }>): number | null {
+    const levels = new Map<number, { demand: number; days: number }>();
+    days.forEach(d => {
+      const price = this.regularPriceOn(d.date);
+      if (!price) return;
+      const level = levels.get(price) || { demand: 0, days: 0 };
+      levels.set(price, { demand: level.demand + d.demand, days: level.days + 1 });
+    });
+
+    const points = Array.from(levels.entries())
+      .filter(([, level]) => level.days >= MIN_PRICE_LEVEL_DAYS && level.demand > 0)
+      .map(([price, level]) => ({ x: Math.log(price), y: Math.log(level.demand / level.days), weight: level.days }));
+    if (points.length < 2) return null;
+
+    const totalWeight = points.reduce((sum, p) => sum + p.weight, 0);
+    const meanX = points.reduce((sum, p) => sum + p.weight * p.x, 0) / totalWeight;
+    const meanY = points.reduce((sum, p) => sum + p.weight * p.y, 0) / totalWeight;
+    const sxx = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) ** 2, 0);
+    if (sxx === 0) return null;
+
+    const slope = points.reduce((sum, p) => sum + p.weight * (p.x - meanX) * (p.y - meanY), 0) / sxx;
+    return Math.min(MAX_PRICE_ELASTICITY, Math.max(MIN_PRICE_ELASTICITY, slope));
+  }
+}
+
+export class PromotionError extends Error {
+  constructor(message: string, public statusCode: 400) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+export class PromotionService {
+  // Drivers for each product over the range; products without promotions or price history get empty ones
+  async getDrivers(productIds: string[], from: Date, to: Date): Promise<Map<string, DemandDrivers>> {
+    const [promotions, prices] = await Promise.all([
+      prisma.promotion.findMany({
+        where: { productId: { in: productIds }, startDate: { lte: to }, endDate: { gte: from } },
+        orderBy: { startDate: 'asc' }
+      }),
+      prisma.priceChange.findMany({
+        where: { productId: { in: productIds }, effectiveAt: { lte: to } },
+        orderBy: { effectiveAt: 'asc' }
+      })
+    ]);
+
+    return new Map(productIds.map(productId => [
+      productId,
+      new DemandDrivers(
+        promotions.filter(p => p.productId === productId).map(p => this.format(p)),
+        prices.filter(p => p.productId === productId).map(p => ({ day: dayKey(p.effectiveAt), unitPrice: Number(p.unitPrice) }))
+      )
+    ]));
+  }
+
+  async getProductDrivers(productId: string, from: Date, to: Date): Promise<DemandDrivers> {
+    return (await this.getDrivers([productId], from, to)).get(productId)!;
+  }
+
+  // Promotions overlapping the range, or all of them when no range is given
+  async listPromotions(filters: { productId?: string; from?: Date; to?: Date }): Promise<PromotionRecord[]> {
+    const rows = await prisma.promotion.findMany({
+      where: {
+        productId: filters.productId,
+        ...(filters.to ? { startDate: { lte: filters.to } } : {}),
+        ...(filters.from ? { endDate: { gte: filters.from } } : {})
+      },
+      orderBy: [{ startDate: 'asc' }, { name: 'asc' }]
+    });
+
+    return rows.map(row => this.format(row));
+  }
+
+  // Cached forecasts of the product are dropped on every change, since they include the promotion effects
+  async createPromotion(input: PromotionInput, createdBy?: string): Promise<PromotionRecord> {
+    const row = await prisma.promotion.create({ data: { ...input, createdBy } });
+    await cache.invalidate(`forecast:${input.productId}:*`);
+    return this.format(row);
+  }
+
+  /**
+   * Returns null when the promotion does not exist. The dates are checked against the stored ones, since a
+   * promotion ending before it starts covers no days and would silently have no effect.
+   */
+  async updatePromotion(id: string, input: Partial<Omit<PromotionInput, 'productId'>>): Promise<PromotionRecord | null> {
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) return null;
+
+    if ((input.endDate ?? existing.endDate) < (input.startDate ?? existing.startDate)) {
+      throw new PromotionError('endDate must not be before startDate', 400);
+    }
+
+    const row = await prisma.promotion.update({ where: { id }, data: input });
+    await cache.invalidate(`forecast:${row.productId}:*`);
+    return this.format(row);
+  }
+
+  async deletePromotion(id: string): Promise<boolean> {
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) return false;
+
+    await prisma.promotion.delete({ where: { id } });
+    await cache.invalidate(`forecast:${existing.productId}:*`);
+    return true;
+  }
+
+  // Newest first
+  async getPriceHistory(productId: string): Promise<PricePoint[]> {
+    const rows = await prisma.priceChange.findMany({
+      where: { productId },
+      orderBy: { effectiveAt: 'desc' }
+    });
+
+    return rows.map(row => ({ unitPrice: Number(row.unitPrice), effectiveAt: row.effectiveAt, changedBy: row.changedBy }));
+  }
+
+  async recordPriceChange(productId: string, unitPrice: number, changedBy?: string): Promise<void> {
+    await prisma.priceChange.create({ data: { productId, unitPrice, changedBy } });
+    await cache.invalidate(`forecast:${productId}:*`);
+  }
+
+  private format(row: {
+    id: string;
+    productId: string;
+    name: string;
+    promotionType: PromotionType;
+    discountDepth: number;
+    startDate: Date;
+    endDate: Date;
+    createdBy: string | null;
+  }): PromotionRecord {
+    return {
+      id: row.id,
+      productId: row.productId,
+      name: row.name,
+      promotionType: row.promotionType,
+      discountDepth: row.discountDepth,
+      startDate: dayKey(row.startDate),
+      endDate: dayKey(row.endDate),
+      createdBy: row.createdBy
+    };
+  }
+}
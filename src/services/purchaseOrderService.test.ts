@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+interface Line {
+  id: string;
+  purchaseOrderId: string;
+  productId: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+}
+
+const db = vi.hoisted(() => ({
+  order: { id: 'po-1', orderNumber: 'PO-1', supplierId: 'supplier-1', status: 'CONFIRMED' },
+  lines: [] as Line[],
+  stock: 0,
+  movements: 0
+}));
+
+vi.mock('@prisma/client', () => {
+  // Awaits between reads and writes let concurrent calls interleave the way separate connections would
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  const purchaseOrder = {
+    async findUnique() {
+      await tick();
+      return { ...db.order, lines: db.lines.map(line => ({ ...line })) };
+    },
+    async update({ data }: { data: { status: string } }) {
+      await tick();
+      Object.assign(db.order, data);
+      return { ...db.order, lines: db.lines };
+    }
+  };
+  const purchaseOrderLine = {
+    async updateMany({ where, data }: {
+      where: { id: string; quantityReceived: { lte: number } };
+      data: { quantityReceived: { increment: number } };
+    }) {
+      await tick();
+      const matched = db.lines.filter(l => l.id === where.id && l.quantityReceived <= where.quantityReceived.lte);
+      matched.forEach(l => { l.quantityReceived += data.quantityReceived.increment; });
+      return { count: matched.length };
+    },
+    async findMany() {
+      await tick();
+      return db.lines.map(line => ({ ...line }));
+    }
+  };
+  const product = {
+    async update({ data }: { data: { currentStock: { increment: number } } }) {
+      await tick();
+      db.stock += data.currentStock.increment;
+      return { id: 'product-1', name: 'Widget', currentStock: db.stock, reorderPoint: 5 };
+    }
+  };
+  const stockMovement = {
+    async create() {
+      await tick();
+      db.movements++;
+      return { id: `movement-${db.movements}` };
+    }
+  };
+
+  class PrismaClient {
+    purchaseOrder = purchaseOrder;
+    purchaseOrderLine = purchaseOrderLine;
+    product = product;
+    stockMovement = stockMovement;
+    $transaction<T>(fn: (tx: this) => Promise<T>) {
+      return fn(this);
+    }
+  }
+
+  return { PrismaClient };
+});
+
+vi.mock('./aiService', () => ({ AIService: class {} }));
+vi.mock('./leadTimeService', () => ({ LeadTimeService: class { async invalidate() {} } }));
+vi.mock('./supplierTermsService', () => ({ SupplierTermsService: class {} }));
+
+const { PurchaseOrderService, PurchaseOrderError } = await import('./purchaseOrderService');
+
+describe('PurchaseOrderService.receive', () => {
+  const service = new PurchaseOrderService();
+
+  beforeEach(() => {
+    db.order.status = 'CONFIRMED';
+    db.lines = [{ id: 'line-1', purchaseOrderId: 'po-1', productId: 'product-1', quantityOrdered: 10, quantityReceived: 0 }];
+    db.stock = 0;
+    db.movements = 0;
+  });
+
+  it('books the receipt and marks a fully received order RECEIVED', async () => {
+    const result = await service.receive('po-1', [{ productId: 'product-1', quantity: 10 }]);
+
+    expect(result.received).toHaveLength(1);
+    expect(db.lines[0].quantityReceived).toBe(10);
+    expect(db.stock).toBe(10);
+    expect(db.order.status).toBe('RECEIVED');
+  });
+
+  it('rejects a receipt for more than is outstanding', async () => {
+    await expect(service.receive('po-1', [{ productId: 'product-1', quantity: 11 }]))
+      .rejects.toBeInstanceOf(PurchaseOrderError);
+    expect(db.stock).toBe(0);
+  });
+
+  it('lets only one of two concurrent receipts book the last outstanding units', async () => {
+    const results = await Promise.allSettled([
+      service.receive('po-1', [{ productId: 'product-1', quantity: 8 }]),
+      service.receive('po-1', [{ productId: 'product-1', quantity: 8 }])
+    ]);
+
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toMatchObject({ statusCode: 409 });
+    expect(db.lines[0].quantityReceived).toBe(8);
+    expect(db.stock).toBe(8);
+    expect(db.movements).toBe(1);
+  });
+});
@@ -0,0 +1,394 @@
+import crypto from 'crypto';
+import { Prisma, PrismaClient, PurchaseOrderStatus } from '@prisma/client';
+import { AIService } from './aiService';
+import { LeadTimeService } from './leadTimeService';
+import { OrderQuantityService } from './orderQuantityService';
+import { SupplierTermsService } from './supplierTermsService';
+
+const prisma = new PrismaClient();
+const aiService = new AIService();
+const leadTimeService = new LeadTimeService();
+const orderQuantityService = new OrderQuantityService();
+const supplierTermsService = new SupplierTermsService();
+
+// Statuses an order may be moved to by hand. Receiving drives CONFIRMED -> PARTIALLY_RECEIVED -> RECEIVED.
+const TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['CONFIRMED'],
+  CONFIRMED: [],
+  PARTIALLY_RECEIVED: ['CLOSED'],
+  RECEIVED: ['CLOSED'],
+  CLOSED: []
+};
+
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['CONFIRMED', 'PARTIALLY_RECEIVED'];
+
+// Orders whose outstanding quantity still counts as stock on the way
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'SUBMITTED', 'CONFIRMED', 'PARTIALLY_RECEIVED'];
+
+const STATUS_TIMESTAMPS: Partial<Record<PurchaseOrderStatus, 'submittedAt' | 'confirmedAt' | 'receivedAt' | 'closedAt'>> = {
+  SUBMITTED: 'submittedAt',
+  CONFIRMED: 'confirmedAt',
+  RECEIVED: 'receivedAt',
+  CLOSED: 'closedAt'
+};
+
+const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true } },
+  lines: {
+    include: { product: { select: { id: true, name: true, sku: true } } },
+    orderBy: { createdAt: 'asc' as const }
+  }
+};
+
+export type PurchaseOrderWithLines = Prisma.PurchaseOrderGetPayload<{ include: typeof purchaseOrderInclude }>;
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  quantity: number;
+  unitCost?: number;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  expectedDate?: Date;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface ReceiptLineInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface ReceivedStock {
+  productId: string;
+  productName: string;
+  movementId: string;
+  quantity: number;
+  currentStock: number;
+  reorderPoint: number;
+}
+
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public statusCode: 400 | 404 | 409) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export class PurchaseOrderService {
+  async list(filters: { status?: PurchaseOrderStatus; supplierId?: string; cursor?: string; limit: number }) {
+    const whereClause: Prisma.PurchaseOrderWhereInput = {};
+    if (filters.status) whereClause.status = filters.status;
+    if (filters.supplierId) whereClause.supplierId = filters.supplierId;
+
+    const orders = await prisma.purchaseOrder.findMany({
+      where: whereClause,
+      include: purchaseOrderInclude,
+      orderBy: [{ createdAt: 'desc' }, { id: 'asc' }],
+      take: filters.limit + 1,
+      ...(filters.cursor ? { cursor: { id: filters.cursor }, skip: 1 } : {})
+    });
+
+    const hasMore = orders.length > filters.limit;
+    const page = hasMore ? orders.slice(0, filters.limit) : orders;
+
+    return {
+      orders: page,
+      hasMore,
+      nextCursor: hasMore ? page[page.length - 1].id : null
+    };
+  }
+
+  async get(id: string): Promise<PurchaseOrderWithLines> {
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id },
+      include: purchaseOrderInclude
+    });
+
+    if (!order) {
+      throw new PurchaseOrderError('Purchase order not found', 404);
+    }
+
+    return order;
+  }
+
+  async createDraft(input: PurchaseOrderInput, userId?: string): Promise<PurchaseOrderWithLines> {
+    const lines = await this.buildLines(input.supplierId, input.lines);
+
+    return prisma.purchaseOrder.create({
+      data: {
+        orderNumber: this.generateOrderNumber(),
+        supplierId: input.supplierId,
+        expectedDate: input.expectedDate,
+        notes: input.notes,
+        createdBy: userId,
+        lines: { create: lines }
+      },
+      include: purchaseOrderInclude
+    });
+  }
+
+  async updateDraft(id: string, input: Partial<Omit<PurchaseOrderInput, 'supplierId'>>): Promise<PurchaseOrderWithLines> {
+    const order = await this.get(id);
+    this.assertStatus(order, ['DRAFT'], 'Only draft purchase orders can be edited');
+
+    const lines = input.lines ? await this.buildLines(order.supplierId, input.lines) : undefined;
+
+    return prisma.$transaction(async (tx) => {
+      if (lines) {
+        await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+      }
+
+      return tx.purchaseOrder.update({
+        where: { id },
+        data: {
+          expectedDate: input.expectedDate,
+          notes: input.notes,
+          ...(lines ? { lines: { create: lines } } : {})
+        },
+        include: purchaseOrderInclude
+      });
+    });
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const order = await this.get(id);
+    this.assertStatus(order, ['DRAFT'], 'Only draft purchase orders can be deleted');
+
+    await prisma.purchaseOrder.delete({ where: { id } });
+  }
+
+  async transition(id: string, status: PurchaseOrderStatus): Promise<PurchaseOrderWithLines> {
+    const order = await this.get(id);
+
+    if (!TRANSITIONS[order.status].includes(status)) {
+      throw new PurchaseOrderError(`Cannot move purchase order from ${order.status} to ${status}`, 409);
+    }
+
+    if (status === 'SUBMITTED' && order.lines.length === 0) {
+      throw new PurchaseOrderError('Cannot submit a purchase order without lines', 409);
+    }
+
+    const timestamp = STATUS_TIMESTAMPS[status];
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status,
+        ...(timestamp ? { [timestamp]: new Date() } : {})
+      },
+      include: purchaseOrderInclude
+    });
+  }
+
+  async receive(id: string, receipts: ReceiptLineInput[], userId?: string) {
+    // Status, outstanding quantities and stock are checked and written in one transaction. The checks read
+    // a snapshot, so each line is only incremented while the units are still outstanding in the database:
+    // of two receipts racing for the last units, the second matches no row and is rejected
+    const result = await prisma.$transaction(async (tx) => {
+      const order = await tx.purchaseOrder.findUnique({
+        where: { id },
+        include: { lines: true }
+      });
+
+      if (!order) {
+        throw new PurchaseOrderError('Purchase order not found', 404);
+      }
+      this.assertStatus(order, RECEIVABLE_STATUSES, `Cannot receive against a ${order.status} purchase order`);
+
+      const received: ReceivedStock[] = [];
+
+      for (const receipt of receipts) {
+        const line = order.lines.find(l => l.productId === receipt.productId);
+        if (!line) {
+          throw new PurchaseOrderError(`Product ${receipt.productId} is not on this purchase order`, 400);
+        }
+
+        const outstanding = line.quantityOrdered - line.quantityReceived;
+        if (receipt.quantity > outstanding) {
+          throw new PurchaseOrderError(
+            `Receiving ${receipt.quantity} units of product ${receipt.productId} exceeds the ${outstanding} outstanding`,
+            409
+          );
+        }
+
+        const booked = await tx.purchaseOrderLine.updateMany({
+          where: { id: line.id, quantityReceived: { lte: line.quantityOrdered - receipt.quantity } },
+          data: { quantityReceived: { increment: receipt.quantity } }
+        });
+        if (booked.count === 0) {
+          throw new PurchaseOrderError(
+            `Receiving ${receipt.quantity} units of product ${receipt.productId} exceeds the units still outstanding`,
+            409
+          );
+        }
+        line.quantityReceived += receipt.quantity;
+
+        const product = await tx.product.update({
+          where: { id: line.productId },
+          data: { currentStock: { increment: receipt.quantity } },
+          select: { id: true, name: true, currentStock: true, reorderPoint: true }
+        });
+
+        const movement = await tx.stockMovement.create({
+          data: {
+            productId: line.productId,
+            movementType: 'IN',
+            quantity: receipt.quantity,
+            referenceNumber: order.orderNumber,
+            purchaseOrderLineId: line.id,
+            createdBy: userId
+          }
+        });
+
+        received.push({
+          productId: product.id,
+          productName: product.name,
+          movementId: movement.id,
+          quantity: receipt.quantity,
+          currentStock: product.currentStock,
+          reorderPoint: product.reorderPoint
+        });
+      }
+
+      // Re-read so receipts booked concurrently against other lines count too
+      const lines = await tx.purchaseOrderLine.findMany({
+        where: { purchaseOrderId: id },
+        select: { quantityOrdered: true, quantityReceived: true }
+      });
+      const fullyReceived = lines.every(l => l.quantityReceived >= l.quantityOrdered);
+
+      const updated = await tx.purchaseOrder.update({
+        where: { id },
+        data: fullyReceived
+          ? { status: 'RECEIVED', receivedAt: new Date() }
+          : { status: 'PARTIALLY_RECEIVED' },
+        include: purchaseOrderInclude
+      });
+
+      return { order: updated, received };
+    });
+
+    // Every receipt is a new lead-time observation for the supplier
+    await leadTimeService.invalidate(result.order.supplierId);
+
+    return result;
+  }
+
+  async generateDrafts(userId?: string) {
+    const products = await prisma.product.findMany({
+      select: { id: true, name: true, currentStock: true, reorderPoint: true, supplierId: true, unitCost: true, unitPrice: true }
+    });
+
+    // Prisma cannot compare two columns in a where clause
+    const belowReorderPoint = products.filter(p => p.currentStock <= p.reorderPoint);
+    const onOrder = await this.getOnOrderQuantities(belowReorderPoint.map(p => p.id));
+
+    const linesBySupplier = new Map<string, Array<{ productId: string; quantityOrdered: number; unitCost: number | Prisma.Decimal | null }>>();
+    const skipped: Array<{ productId: string; reason: string }> = [];
+
+    for (const product of belowReorderPoint) {
+      try {
+        const optimization = await aiService.optimizeStockLevels(product.id);
+        const inventoryPosition = product.currentStock + (onOrder.get(product.id) || 0);
+        const shortfall = optimization.optimalStock - inventoryPosition;
+
+        if (shortfall <= 0) {
+          skipped.push({ productId: product.id, reason: 'Open purchase orders already cover optimal stock' });
+          continue;
+        }
+
+        // Round up to what the supplier will accept and price the line at the tier that quantity reaches
+        const terms = await supplierTermsService.getTerms(product.supplierId, product.id);
+        const quantity = orderQuantityService.constrain(shortfall, terms);
+        const unitCost = terms.priceBreaks.length > 0
+          ? orderQuantityService.unitCostAt(quantity, Number(product.unitCost ?? product.unitPrice ?? 0), terms)
+          : product.unitCost;
+
+        const lines = linesBySupplier.get(product.supplierId) || [];
+        lines.push({ productId: product.id, quantityOrdered: quantity, unitCost });
+        linesBySupplier.set(product.supplierId, lines);
+      } catch (error) {
+        console.error(`Error optimizing product ${product.id}:`, error);
+        skipped.push({ productId: product.id, reason: 'Stock optimization failed' });
+      }
+    }
+
+    // One draft per supplier so each order can be sent as is
+    const orders: PurchaseOrderWithLines[] = [];
+    for (const [supplierId, lines] of linesBySupplier) {
+      orders.push(await prisma.purchaseOrder.create({
+        data: {
+          orderNumber: this.generateOrderNumber(),
+          supplierId,
+          notes: 'Generated automatically for products below reorder point',
+          createdBy: userId,
+          lines: { create: lines }
+        },
+        include: purchaseOrderInclude
+      }));
+    }
+
+    return { orders, skipped };
+  }
+
+  async getOnOrderQuantities(productIds: string[]): Promise<Map<string, number>> {
+    const lines = await prisma.purchaseOrderLine.findMany({
+      where: {
+        productId: { in: productIds },
+        purchaseOrder: { status: { in: OPEN_STATUSES } }
+      },
+      select: { productId: true, quantityOrdered: true, quantityReceived: true }
+    });
+
+    const onOrder = new Map<string, number>();
+    lines.forEach(line => {
+      const outstanding = Math.max(0, line.quantityOrdered - line.quantityReceived);
+      onOrder.set(line.productId, (onOrder.get(line.productId) || 0) + outstanding);
+    });
+
+    return onOrder;
+  }
+
+  private async buildLines(supplierId: string, lines: PurchaseOrderLineInput[]) {
+    const productIds = lines.map(l => l.productId);
+
+    if (new Set(productIds).size !== productIds.length) {
+      throw new PurchaseOrderError('Each product may appear only once per purchase order', 400);
+    }
+
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, supplierId: true, unitCost: true }
+    });
+
+    return lines.map(line => {
+      const product = products.find(p => p.id === line.productId);
+      if (!product) {
+        throw new PurchaseOrderError(`Product ${line.productId} not found`, 404);
+      }
+      if (product.supplierId !== supplierId) {
+        throw new PurchaseOrderError(`Product ${line.productId} is not supplied by this supplier`, 400);
+      }
+
+      return {
+        productId: line.productId,
+        quantityOrdered: line.quantity,
+        unitCost: line.unitCost ?? product.unitCost
+      };
+    });
+  }
+
+  private assertStatus(order: { status: PurchaseOrderStatus }, allowed: PurchaseOrderStatus[], message: string) {
+    if (!allowed.includes(order.status)) {
+      throw new PurchaseOrderError(message, 409);
+    }
+  }
+
+  private generateOrderNumber(): string {
+    const day = new Date().toISOString().split('T')[0].replace(/-/g, '');
+    return `PO-${day}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+}
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  products: [] as Array<{ id: string; unitPrice: number; unitCost: number | null }>,
+  usage: [] as Array<{ productId: string; _sum: { quantity: number | null } }>
+}));
+
+vi.mock('@prisma/client', () => ({
+  PrismaClient: class {
+    product = { findMany: async () => db.products };
+    stockMovement = { groupBy: async () => db.usage };
+  }
+}));
+
+vi.mock('./cacheService', () => ({
+  CacheService: class {
+    async get() { return null; }
+    async set() {}
+  }
+}));
+
+const { ServiceLevelService, inverseNormalCdf, normalCdf, normalLoss } = await import('./serviceLevelService');
+
+describe('normal distribution helpers', () => {
+  it('inverts the standard normal CDF', () => {
+    expect(inverseNormalCdf(0.5)).toBeCloseTo(0, 9);
+    expect(inverseNormalCdf(0.95)).toBeCloseTo(1.644854, 5);
+    expect(inverseNormalCdf(0.975)).toBeCloseTo(1.959964, 5);
+    expect(inverseNormalCdf(0.001)).toBeCloseTo(-3.090232, 5);
+  });
+
+  it('round-trips through the CDF in both tails', () => {
+    for (const p of [0.0001, 0.01, 0.3, 0.9, 0.999]) {
+      expect(normalCdf(inverseNormalCdf(p))).toBeCloseTo(p, 6);
+    }
+  });
+
+  it('rejects probabilities outside (0, 1)', () => {
+    expect(() => inverseNormalCdf(0)).toThrow(RangeError);
+    expect(() => inverseNormalCdf(1)).toThrow(RangeError);
+  });
+
+  it('computes the standard normal loss', () => {
+    expect(normalLoss(0)).toBeCloseTo(1 / Math.sqrt(2 * Math.PI), 6);
+    expect(normalLoss(3)).toBeLessThan(0.001);
+  });
+});
+
+describe('ServiceLevelService.evaluate', () => {
+  const service = new ServiceLevelService();
+  const base = { abcClass: 'A' as const, orderQuantity: 100, leadTimeDemandSd: 10, avgDailyDemand: 5, unitHoldingCost: 2 };
+
+  it('sizes safety stock for a cycle service target', () => {
+    const outcome = service.evaluate({ ...base, type: 'CYCLE', target: 0.95 });
+
+    expect(outcome.method).toBe('NORMAL');
+    expect(outcome.zScore).toBeCloseTo(1.6449, 4);
+    expect(outcome.safetyStock).toBe(16);
+    expect(outcome.cycleServiceLevel).toBeCloseTo(0.95, 4);
+    // 18.25 order cycles a year, each out of stock with probability 5%
+    expect(outcome.expectedStockoutsPerYear).toBeCloseTo(0.91, 2);
+  });
+
+  it('finds the smallest safety factor meeting a fill-rate target', () => {
+    const outcome = service.evaluate({ ...base, type: 'FILL_RATE', target: 0.99 });
+
+    expect(outcome.expectedFillRate).toBeCloseTo(0.99, 3);
+    expect(normalLoss(outcome.zScore) * base.leadTimeDemandSd).toBeCloseTo(1, 2);
+    expect(outcome.cycleServiceLevel).toBeLessThan(0.99);
+  });
+
+  it('holds no safety stock for a product without demand', () => {
+    const outcome = service.evaluate({ ...base, avgDailyDemand: 0, type: 'CYCLE', target: 0.95 });
+
+    expect(outcome.safetyStock).toBe(0);
+    expect(outcome.expectedStockoutsPerYear).toBe(0);
+  });
+
+  it('reads the safety stock off the lead-time demand quantile when one is given', () => {
+    const quantile = vi.fn(() => 70);
+    const outcome = service.evaluate({ ...base, type: 'CYCLE', target: 0.95, leadTimeDemand: { mean: 50, quantile } });
+
+    expect(quantile).toHaveBeenCalledWith(0.95);
+    expect(outcome.method).toBe('QUANTILE');
+    expect(outcome.safetyStock).toBe(20);
+    expect(outcome.zScore).toBe(2);
+  });
+});
+
+describe('ServiceLevelService.getAbcClasses', () => {
+  const service = new ServiceLevelService();
+
+  beforeEach(() => {
+    db.products = [
+      { id: 'a', unitPrice: 10, unitCost: 10 },
+      { id: 'b', unitPrice: 10, unitCost: 10 },
+      { id: 'c', unitPrice: 10, unitCost: null },
+      { id: 'idle', unitPrice: 10, unitCost: 10 }
+    ];
+    // Consumption values 800, 120 and 48 (unit cost defaults to 60% of price)
+    db.usage = [
+      { productId: 'a', _sum: { quantity: -80 } },
+      { productId: 'b', _sum: { quantity: -12 } },
+      { productId: 'c', _sum: { quantity: -8 } }
+    ];
+  });
+
+  it('ranks products by annual consumption value', async () => {
+    expect(await service.getAbcClasses()).toEqual({ a: 'A', b: 'B', c: 'C', idle: 'C' });
+  });
+});
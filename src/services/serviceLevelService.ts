@@ -0,0 +1,228 @@
+import { PrismaClient, SafetyStockMethod, ServiceLevelType } from '@prisma/client';
+import { CacheService } from './cacheService';
+
+const prisma = new PrismaClient();
+const cache = new CacheService();
+
+export type AbcClass = 'A' | 'B' | 'C';
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+
+// Cumulative share of annual consumption value at which class A and B end
+const ABC_THRESHOLDS = { A: 0.8, B: 0.95 };
+
+const ABC_CACHE_KEY = 'abc-classes';
+
+// Highest probability read off the lead-time demand distribution, the highest service level target accepted
+const MAX_QUANTILE_LEVEL = 0.9999;
+
+export interface ServiceLevelOutcome {
+  type: ServiceLevelType;
+  target: number;
+  abcClass: AbcClass;
+  method: SafetyStockMethod;
+  zScore: number;
+  safetyStock: number;
+  annualSafetyStockCost: number;
+  cycleServiceLevel: number;
+  expectedFillRate: number;
+  expectedStockoutsPerYear: number;
+  expectedStockoutDaysPerYear: number;
+}
+
+// Acklam's rational approximation, relative error below 1.2e-9 over (0, 1)
+const ACKLAM_A = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+const ACKLAM_B = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+const ACKLAM_C = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+const ACKLAM_D = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new RangeError(`Probability must be strictly between 0 and 1, got ${p}`);
+  }
+
+  const low = 0.02425;
+  const [a, b, c, d] = [ACKLAM_A, ACKLAM_B, ACKLAM_C, ACKLAM_D];
+
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? z : -z;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Complementary error function (Numerical Recipes erfcc), fractional error below 1.2e-7
+function erfc(x: number): number {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const result = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? result : 2 - result;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+export function normalPdf(z: number): number {
+  return Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+}
+
+// Standard normal loss function G(z) = E[max(X - z, 0)], the expected shortage per unit of standard deviation
+export function normalLoss(z: number): number {
+  return normalPdf(z) - z * (1 - normalCdf(z));
+}
+
+// Smallest z >= 0 whose expected shortage per cycle is within (1 - fillRate) of the order quantity
+function zForFillRate(fillRate: number, orderQuantity: number, leadTimeDemandSd: number): number {
+  const allowedLoss = (1 - fillRate) * orderQuantity / leadTimeDemandSd;
+  if (normalLoss(0) <= allowedLoss) return 0;
+
+  let low = 0;
+  let high = 8;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (normalLoss(mid) > allowedLoss) low = mid;
+    else high = mid;
+  }
+  return high;
+}
+
+export class ServiceLevelService {
+  /**
+   * Turns a service target into a safety stock and reports what that stock is expected to deliver:
+   * the cycle service level, the fill rate and how often and for how long the product runs out per year.
+   * Given the lead-time demand distribution, the reorder point is its quantile at the cycle service level the
+   * target calls for, and the figures treat the resulting safety stock as z standard deviations.
+   */
+  evaluate(input: {
+    type: ServiceLevelType;
+    target: number;
+    abcClass: AbcClass;
+    orderQuantity: number;
+    leadTimeDemandSd: number;
+    avgDailyDemand: number;
+    unitHoldingCost: number;
+    leadTimeDemand?: { mean: number; quantile: (level: number) => number };
+  }): ServiceLevelOutcome {
+    const { type, target, abcClass, orderQuantity, leadTimeDemandSd, avgDailyDemand, unitHoldingCost, leadTimeDemand } = input;
+    const method: SafetyStockMethod = leadTimeDemand ? 'QUANTILE' : 'NORMAL';
+
+    // Without demand or demand variability there is nothing to buffer against
+    if (leadTimeDemandSd <= 0 || orderQuantity <= 0 || !Number.isFinite(orderQuantity) || avgDailyDemand <= 0) {
+      return {
+        type,
+        target,
+        abcClass,
+        method,
+        zScore: type === 'CYCLE' ? this.round(inverseNormalCdf(target), 4) : 0,
+        safetyStock: 0,
+        annualSafetyStockCost: 0,
+        cycleServiceLevel: 1,
+        expectedFillRate: 1,
+        expectedStockoutsPerYear: 0,
+        expectedStockoutDaysPerYear: 0
+      };
+    }
+
+    let zScore = type === 'CYCLE'
+      ? inverseNormalCdf(target)
+      : zForFillRate(target, orderQuantity, leadTimeDemandSd);
+
+    let safetyStock = Math.max(0, zScore * leadTimeDemandSd);
+    if (leadTimeDemand) {
+      const cycleLevel = Math.min(MAX_QUANTILE_LEVEL, type === 'CYCLE' ? target : normalCdf(zScore));
+      safetyStock = Math.max(0, leadTimeDemand.quantile(cycleLevel) - leadTimeDemand.mean);
+      zScore = safetyStock / leadTimeDemandSd;
+    }
+    const shortagePerCycle = leadTimeDemandSd * normalLoss(zScore);
+    const cyclesPerYear = (avgDailyDemand * 365) / orderQuantity;
+
+    return {
+      type,
+      target,
+      abcClass,
+      method,
+      zScore: this.round(zScore, 4),
+      safetyStock: Math.round(safetyStock),
+      annualSafetyStockCost: this.round(safetyStock * unitHoldingCost, 2),
+      cycleServiceLevel: this.round(normalCdf(zScore), 4),
+      expectedFillRate: this.round(Math.max(0, 1 - shortagePerCycle / orderQuantity), 4),
+      expectedStockoutsPerYear: this.round(cyclesPerYear * (1 - normalCdf(zScore)), 2),
+      // Units short per year, expressed as days of average demand
+      expectedStockoutDaysPerYear: this.round(cyclesPerYear * shortagePerCycle / avgDailyDemand, 1)
+    };
+  }
+
+  async getAbcClass(productId: string): Promise<AbcClass> {
+    const classes = await this.getAbcClasses();
+    return classes[productId] ?? 'C';
+  }
+
+  /**
+   * ABC classes by annual consumption value: OUT movements over the last year priced at unit cost
+   * (60% of unit price when no cost is recorded). Products without movements are class C.
+   */
+  async getAbcClasses(): Promise<Record<string, AbcClass>> {
+    const cached = await cache.get(ABC_CACHE_KEY);
+    if (cached) {
+      return JSON.parse(cached);
+    }
+
+    const since = new Date();
+    since.setFullYear(since.getFullYear() - 1);
+
+    const [products, usage] = await Promise.all([
+      prisma.product.findMany({ select: { id: true, unitPrice: true, unitCost: true } }),
+      prisma.stockMovement.groupBy({
+        by: ['productId'],
+        where: { movementType: 'OUT', createdAt: { gte: since } },
+        _sum: { quantity: true }
+      })
+    ]);
+
+    const quantities = new Map<string, number>(usage.map(u => [u.productId, Math.abs(u._sum.quantity || 0)]));
+    const values = products
+      .map(p => ({
+        id: p.id,
+        value: (quantities.get(p.id) || 0) * (p.unitCost !== null ? Number(p.unitCost) : Number(p.unitPrice) * 0.6)
+      }))
+      .sort((a, b) => b.value - a.value);
+
+    const total = values.reduce((sum, p) => sum + p.value, 0);
+    const classes: Record<string, AbcClass> = {};
+    let cumulative = 0;
+
+    values.forEach(p => {
+      // A product belongs to the class its first unit of value falls into
+      const shareBefore = total > 0 ? cumulative / total : 1;
+      classes[p.id] = p.value === 0 ? 'C' : shareBefore < ABC_THRESHOLDS.A ? 'A' : shareBefore < ABC_THRESHOLDS.B ? 'B' : 'C';
+      cumulative += p.value;
+    });
+
+    await cache.set(ABC_CACHE_KEY, JSON.stringify(classes), 6 * 3600);
+
+    return classes;
+  }
+
+  async getAbcSummary() {
+    const classes = Object.values(await this.getAbcClasses());
+
+    return ABC_CLASSES.map(abcClass => ({
+      abcClass,
+      productCount: classes.filter(c => c === abcClass).length
+    }));
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+  }
+}
@@ -0,0 +1,160 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// In-stock days this far either side of a stockout day set the demand level imputed for it
+const IMPUTATION_WINDOW_DAYS = 14;
+
+// In-stock days a weekday needs before its own share of demand is used
+const MIN_WEEKDAY_DAYS = 2;
+
+export interface DemandDay {
+  // YYYY-MM-DD
+  date: string;
+  // Units sold (OUT movements) that day
+  observedDemand: number;
+  // Observed demand, or the imputed demand on censored days when that is higher
+  demand: number;
+  closingStock: number;
+  // Stock reached zero at some point of the day, so sales understate demand
+  censored: boolean;
+}
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Sales only show demand while there is stock to sell. Stock levels are rebuilt from the movement ledger
+ * and days on which a product ran out are treated as censored: their demand is imputed from the in-stock
+ * days around them.
+ */
+export class StockoutService {
+  async getDemandHistory(productId: string, days: number): Promise<DemandDay[]> {
+    return (await this.getDemandHistories([productId], days)).get(productId) ?? [];
+  }
+
+  // Last `days` days up to today, oldest first, for each product
+  async getDemandHistories(productIds: string[], days: number): Promise<Map<string, DemandDay[]>> {
+    const since = new Date(Date.now() - days * DAY_MS);
+
+    const [products, movements, firstSales] = await Promise.all([
+      prisma.product.findMany({ where: { id: { in: productIds } }, select: { id: true, currentStock: true } }),
+      prisma.stockMovement.findMany({
+        where: { productId: { in: productIds }, createdAt: { gte: since } },
+        select: { productId: true, movementType: true, quantity: true, createdAt: true },
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.stockMovement.groupBy({
+        by: ['productId'],
+        where: { productId: { in: productIds }, movementType: 'OUT' },
+        _min: { createdAt: true }
+      })
+    ]);
+
+    const dates = Array.from({ length: days }, (_, i) => dayKey(new Date(Date.now() - (days - 1 - i) * DAY_MS)));
+    const firstSale = new Map<string, string | null>(
+      firstSales.map(f => [f.productId, f._min.createdAt ? dayKey(f._min.createdAt) : null])
+    );
+
+    // Grouped in one pass, keeping each product's movements newest first
+    const movementsByProduct = new Map<string, typeof movements>();
+    movements.forEach(m => {
+      const productMovements = movementsByProduct.get(m.productId);
+      if (productMovements) productMovements.push(m);
+      else movementsByProduct.set(m.productId, [m]);
+    });
+
+    return new Map(products.map(product => {
+      const history = this.rebuild(product.currentStock, movementsByProduct.get(product.id) ?? [], dates);
+      // Before its first sale a product was not on sale yet, so running out then hides no demand
+      const launched = firstSale.get(product.id) ?? null;
+      history.forEach(day => {
+        if (launched === null || day.date < launched) day.censored = false;
+      });
+      if (launched !== null) this.impute(history, launched);
+      return [product.id, history];
+    }));
+  }
+
+  // Walks the ledger backwards from today's stock; movements are newest first
+  private rebuild(
+    currentStock: number,
+    movements: Array<{ movementType: string; quantity: number; createdAt: Date }>,
+    dates: string[]
+  ): DemandDay[] {
+    const history: DemandDay[] = [];
+    let stock = currentStock;
+    let index = 0;
+
+    for (let d = dates.length - 1; d >= 0; d--) {
+      const date = dates[d];
+
+      // Undo anything recorded after the day, such as movements dated later than the last day of the range
+      while (index < movements.length && dayKey(movements[index].createdAt) > date) {
+        stock -= this.stockDelta(movements[index]);
+        index++;
+      }
+
+      const closingStock = stock;
+      let lowest = stock;
+      let observedDemand = 0;
+
+      while (index < movements.length && dayKey(movements[index].createdAt) === date) {
+        const movement = movements[index];
+        stock -= this.stockDelta(movement);
+        lowest = Math.min(lowest, stock);
+        if (movement.movementType === 'OUT') observedDemand += Math.abs(movement.quantity);
+        index++;
+      }
+
+      history.unshift({
+        date,
+        observedDemand,
+        demand: observedDemand,
+        closingStock,
+        censored: lowest <= 0
+      });
+    }
+
+    return history;
+  }
+
+  /**
+   * A censored day's demand is the mean deseasonalized demand of the in-stock days within
+   * IMPUTATION_WINDOW_DAYS (or of all in-stock days when there are none that close) times its weekday's
+   * share of demand. Observed sales are kept when they are higher. Without any in-stock day since the first
+   * sale nothing changes.
+   */
+  private impute(history: DemandDay[], firstSale: string): void {
+    const inStock = history.map((day, i) => ({ day, i })).filter(({ day }) => !day.censored && day.date >= firstSale);
+    if (inStock.length === 0 || !history.some(day => day.censored)) return;
+
+    const weekday = (date: string) => new Date(date).getUTCDay();
+    const overall = inStock.reduce((sum, { day }) => sum + day.observedDemand, 0) / inStock.length;
+
+    const weekdayIndex = Array.from({ length: 7 }, (_, wd) => {
+      const days = inStock.filter(({ day }) => weekday(day.date) === wd);
+      if (overall <= 0 || days.length < MIN_WEEKDAY_DAYS) return 1;
+      return days.reduce((sum, { day }) => sum + day.observedDemand, 0) / days.length / overall;
+    });
+    const deseasonalized = (day: DemandDay) => {
+      const index = weekdayIndex[weekday(day.date)];
+      return index > 0 ? day.observedDemand / index : day.observedDemand;
+    };
+
+    history.forEach((day, i) => {
+      if (!day.censored) return;
+
+      const nearby = inStock.filter(s => Math.abs(s.i - i) <= IMPUTATION_WINDOW_DAYS);
+      const basis = nearby.length > 0 ? nearby : inStock;
+      const level = basis.reduce((sum, { day: s }) => sum + deseasonalized(s), 0) / basis.length;
+
+      day.demand = Math.max(day.observedDemand, Math.round(level * weekdayIndex[weekday(day.date)] * 100) / 100);
+    });
+  }
+
+  private stockDelta(movement: { movementType: string; quantity: number }): number {
+    return movement.movementType === 'OUT' ? -Math.abs(movement.quantity) : movement.quantity;
+  }
+}
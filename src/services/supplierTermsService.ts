@@ -0,0 +1,122 @@
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_ORDER_TERMS, OrderTerms } from './orderQuantityService';
+
+const prisma = new PrismaClient();
+
+const termsInclude = {
+  product: { select: { id: true, name: true, sku: true, unitCost: true } },
+  priceBreaks: { orderBy: { minQuantity: 'asc' as const } }
+};
+
+export class SupplierTermsError extends Error {
+  constructor(message: string, public statusCode: 400 | 404) {
+    super(message);
+    this.name = 'SupplierTermsError';
+  }
+}
+
+export class SupplierTermsService {
+  // Unconstrained terms when the supplier has not stored any for the product
+  async getTerms(supplierId: string, productId: string): Promise<OrderTerms> {
+    const terms = await prisma.supplierProductTerms.findUnique({
+      where: { supplierId_productId: { supplierId, productId } },
+      include: { priceBreaks: true }
+    });
+
+    return terms ? this.toOrderTerms(terms) : DEFAULT_ORDER_TERMS;
+  }
+
+  async list(supplierId: string) {
+    const rows = await prisma.supplierProductTerms.findMany({
+      where: { supplierId },
+      include: termsInclude,
+      orderBy: { product: { name: 'asc' } }
+    });
+
+    return rows.map(row => this.format(row));
+  }
+
+  async upsert(supplierId: string, productId: string, input: OrderTerms) {
+    const [supplier, product] = await Promise.all([
+      prisma.supplier.count({ where: { id: supplierId } }),
+      prisma.product.count({ where: { id: productId } })
+    ]);
+
+    if (!supplier) throw new SupplierTermsError('Supplier not found', 404);
+    if (!product) throw new SupplierTermsError('Product not found', 404);
+
+    const quantities = input.priceBreaks.map(b => b.minQuantity);
+    if (new Set(quantities).size !== quantities.length) {
+      throw new SupplierTermsError('Each price break needs a different minimum quantity', 400);
+    }
+
+    // Price breaks are replaced as a set so tiers removed by the supplier disappear
+    const row = await prisma.$transaction(async (tx) => {
+      const terms = await tx.supplierProductTerms.upsert({
+        where: { supplierId_productId: { supplierId, productId } },
+        create: {
+          supplierId,
+          productId,
+          minOrderQuantity: input.minOrderQuantity,
+          packSize: input.packSize
+        },
+        update: {
+          minOrderQuantity: input.minOrderQuantity,
+          packSize: input.packSize
+        }
+      });
+
+      await tx.priceBreak.deleteMany({ where: { termsId: terms.id } });
+      await tx.priceBreak.createMany({
+        data: input.priceBreaks.map(b => ({ termsId: terms.id, minQuantity: b.minQuantity, unitCost: b.unitCost }))
+      });
+
+      return tx.supplierProductTerms.findUniqueOrThrow({
+        where: { id: terms.id },
+        include: termsInclude
+      });
+    });
+
+    return this.format(row);
+  }
+
+  async remove(supplierId: string, productId: string): Promise<boolean> {
+    const { count } = await prisma.supplierProductTerms.deleteMany({ where: { supplierId, productId } });
+    return count > 0;
+  }
+
+  private toOrderTerms(terms: {
+    minOrderQuantity: number;
+    packSize: number;
+    priceBreaks: Array<{ minQuantity: number; unitCost: unknown }>;
+  }): OrderTerms {
+    return {
+      minOrderQuantity: terms.minOrderQuantity,
+      packSize: terms.packSize,
+      priceBreaks: terms.priceBreaks.map(b => ({ minQuantity: b.minQuantity, unitCost: Number(b.unitCost) }))
+    };
+  }
+
+  private format(row: {
+    id: string;
+    supplierId: string;
+    minOrderQuantity: number;
+    packSize: number;
+    updatedAt: Date;
+    product: { id: string; name: string; sku: string; unitCost: unknown };
+    priceBreaks: Array<{ minQuantity: number; unitCost: unknown }>;
+  }) {
+    return {
+      id: row.id,
+      supplierId: row.supplierId,
+      product: {
+        id: row.product.id,
+        name: row.product.name,
+        sku: row.product.sku,
+        unitCost: row.product.unitCost !== null ? Number(row.product.unitCost) : null
+      },
+      ...this.toOrderTerms(row),
+      updatedAt: row.updatedAt
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import { authApi } from '../api/auth';
+import { ApiError, onSessionExpired } from '../api/client';
+import { tokenStorage } from '../api/tokenStorage';
+import { User } from '../types';
+
+interface AuthState {
+  user: User | null;
+  status: 'loading' | 'authenticated' | 'unauthenticated';
+
+  // Actions
+  login: (email: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  restoreSession: () => Promise<void>;
+  clearSession: () => void;
+}
+
+export const useAuthStore = create<AuthState>((set) => ({
+  user: null,
+  status: tokenStorage.getRefreshToken() ? 'loading' : 'unauthenticated',
+
+  login: async (email, password) => {
+    const session = await authApi.login(email, password);
+    tokenStorage.setTokens(session.accessToken, session.refreshToken);
+    set({ user: session.user, status: 'authenticated' });
+  },
+
+  logout: async () => {
+    const refreshToken = tokenStorage.getRefreshToken();
+    tokenStorage.clear();
+    set({ user: null, status: 'unauthenticated' });
+
+    // Revoking server-side is best effort; the local session is already gone
+    if (refreshToken) {
+      await authApi.logout(refreshToken).catch(() => undefined);
+    }
+  },
+
+  restoreSession: async () => {
+    if (!tokenStorage.getRefreshToken()) {
+      set({ user: null, status: 'unauthenticated' });
+      return;
+    }
+
+    try {
+      // An expired access token is refreshed transparently by the API client
+      const user = await authApi.me();
+      set({ user, status: 'authenticated' });
+    } catch (error) {
+      if (error instanceof ApiError && (error.status === 401 || error.status === 404)) {
+        tokenStorage.clear();
+      }
+      set({ user: null, status: 'unauthenticated' });
+    }
+  },
+
+  clearSession: () => set({ user: null, status: 'unauthenticated' }),
+}));
+
+onSessionExpired(() => useAuthStore.getState().clearSession());
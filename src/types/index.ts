@@ -1,6 +1,7 @@
 export interface Product {
   id: string;
   name: string;
+  sku: string;
   category: Category;
   currentStock: number;
   predictedDemand: number;
@@ -10,8 +11,13 @@ export interface Product {
   location: Location;
   velocity: 'HIGH' | 'MEDIUM' | 'LOW';
   riskLevel: 'HIGH' | 'MEDIUM' | 'LOW';
+  // ADI/CV² classification from the last forecast run; null until the product has sold
+  demandPattern: 'SMOOTH' | 'ERRATIC' | 'INTERMITTENT' | 'LUMPY' | null;
   lastUpdated: Date;
   unitPrice: number;
+  unitCost: number | null;
+  // Product whose launch demand forecasts borrow while this one is new; null for automatic matching
+  likeItemId: string | null;
   totalValue: number;
 }
 
@@ -54,9 +60,39 @@ export interface Alert {
 
 export interface ForecastData {
   date: string;
-  actual: number;
-  predicted: number;
-  optimized: number;
+  actual: number | null;
+  predicted: number | null;
+  optimized: number | null;
+  // Products out of stock that day; null for future days
+  censoredProducts: number | null;
+  // Actual demand plus the demand imputed for out-of-stock products; null on days without a stockout
+  estimated: number | null;
+}
+
+export type CalendarEventType = 'HOLIDAY' | 'PAYDAY' | 'STORE_EVENT';
+
+// A built-in holiday or payday, or a custom event; dates are YYYY-MM-DD
+export interface CalendarEvent {
+  id: string | null;
+  name: string;
+  eventType: CalendarEventType;
+  source: 'BUILT_IN' | 'CUSTOM';
+  region: string | null;
+  startDate: string;
+  endDate: string;
+  leadDays: number;
+  lagDays: number;
+}
+
+export interface ForecastErrorMetrics {
+  modelVersion: string | null;
+  comparisons: number;
+  mae: number;
+  rmse: number;
+  mape: number | null;
+  wape: number | null;
+  bias: number;
+  accuracy: number | null;
 }
 
 export interface ActivityFeedItem {
@@ -68,6 +104,31 @@ export interface ActivityFeedItem {
   status: 'success' | 'warning' | 'error' | 'info';
 }
 
+export type ReconciliationMethod = 'BOTTOM_UP' | 'TOP_DOWN' | 'MINT';
+
+export interface HierarchyNode {
+  level: 'TOTAL' | 'CATEGORY' | 'WAREHOUSE' | 'PRODUCT';
+  key: string;
+  name: string;
+  // Daily forecasts aligned with DemandForecast.dates
+  base: number[];
+  reconciled: number[];
+  baseTotal: number;
+  reconciledTotal: number;
+  // Demand over the same number of days up to today
+  recentTotal: number;
+}
+
+export interface DemandForecast {
+  method: ReconciliationMethod;
+  horizon: number;
+  dates: string[];
+  total: HierarchyNode;
+  categories: HierarchyNode[];
+  warehouses: HierarchyNode[];
+  generatedAt: string;
+}
+
 export interface AnalyticsData {
   categoryDistribution: Array<{ name: string; value: number; color: string }>;
   turnoverMetrics: Array<{ period: string; revenue: number; cost: number; profit: number }>;
@@ -77,4 +138,186 @@ export interface AnalyticsData {
     costOptimization: number;
     serviceLevel: number;
   };
-}
\ No newline at end of file
+  demandForecast: DemandForecast;
+}
+
+export type AnalyticsPeriod = '30d' | '90d' | '1y';
+
+export interface CategorySummary extends Category {
+  productCount: number;
+}
+
+export interface LeadTimeStats {
+  supplierId: string;
+  observations: number;
+  meanDays: number | null;
+  stdDevDays: number | null;
+  minDays: number | null;
+  maxDays: number | null;
+  p50Days: number | null;
+  p90Days: number | null;
+}
+
+export interface LeadTimeDistribution extends LeadTimeStats {
+  histogram: Array<{ days: number; count: number }>;
+  receipts: Array<{
+    orderNumber: string;
+    lines: number;
+    quantity: number;
+    submittedAt: Date;
+    receivedAt: Date;
+    days: number;
+  }>;
+}
+
+export interface PriceBreak {
+  minQuantity: number;
+  unitCost: number;
+}
+
+export interface SupplierTerms {
+  id: string;
+  supplierId: string;
+  product: { id: string; name: string; sku: string; unitCost: number | null };
+  minOrderQuantity: number;
+  packSize: number;
+  priceBreaks: PriceBreak[];
+  updatedAt: Date;
+}
+
+export interface OrderQuantityAdjustment {
+  type: 'PRICE_BREAK' | 'MIN_ORDER_QUANTITY' | 'PACK_ROUNDING';
+  from: number;
+  to: number;
+  reason: string;
+}
+
+export interface OrderQuantityResult {
+  economicOrderQuantity: number;
+  orderQuantity: number;
+  unitCost: number;
+  unitHoldingCost: number;
+  priceBreak: number | null;
+  minOrderQuantity: number;
+  packSize: number;
+  annualCost: {
+    purchase: number;
+    ordering: number;
+    holding: number;
+    total: number;
+  };
+  adjustments: OrderQuantityAdjustment[];
+}
+
+export interface SupplierSummary {
+  id: string;
+  name: string;
+  rating: number;
+  productCount: number;
+  leadTime: LeadTimeStats;
+}
+
+export type ParameterScope = 'GLOBAL' | 'ABC_CLASS' | 'CATEGORY' | 'SUPPLIER' | 'PRODUCT';
+export type ServiceLevelType = 'CYCLE' | 'FILL_RATE';
+export type SafetyStockMethod = 'NORMAL' | 'QUANTILE';
+export type AbcClass = 'A' | 'B' | 'C';
+
+export interface ParameterValues {
+  orderingCost: number;
+  holdingCostRate: number;
+  leadTimeDays: number;
+  serviceLevel: number;
+  serviceLevelType: ServiceLevelType;
+  safetyStockMethod: SafetyStockMethod;
+}
+
+export type ParameterKey = keyof ParameterValues;
+
+export type ResolvedParameters = {
+  [K in ParameterKey]: { value: ParameterValues[K]; source: ParameterScope | 'DEFAULT' | 'REQUEST' | 'OBSERVED' };
+};
+
+export type OptimizationParameter = { [K in ParameterKey]: ParameterValues[K] | null } & {
+  id: string;
+  scope: ParameterScope;
+  scopeId: string | null;
+  scopeName: string | null;
+  updatedAt: Date;
+};
+
+export interface AbcClassSummary {
+  abcClass: AbcClass;
+  productCount: number;
+}
+
+export interface ServiceLevelOutcome {
+  type: ServiceLevelType;
+  target: number;
+  abcClass: AbcClass;
+  method: SafetyStockMethod;
+  zScore: number;
+  safetyStock: number;
+  annualSafetyStockCost: number;
+  cycleServiceLevel: number;
+  expectedFillRate: number;
+  expectedStockoutsPerYear: number;
+  expectedStockoutDaysPerYear: number;
+}
+
+export interface OptimizationResult {
+  productId: string;
+  currentStock: number;
+  optimalStock: number;
+  reorderPoint: number;
+  expectedSavings: number;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  parameters: ResolvedParameters;
+  serviceLevel: ServiceLevelOutcome;
+  leadTime: {
+    meanDays: number;
+    stdDevDays: number;
+    observations: number;
+  };
+  orderQuantity: OrderQuantityResult;
+}
+
+export interface OptimizationRecommendation {
+  product: {
+    id: string;
+    name: string;
+    category: string;
+    supplier: string;
+  };
+  optimization: OptimizationResult;
+  priority: 'CRITICAL' | 'HIGH' | 'MEDIUM' | 'LOW';
+}
+
+export interface ProductFilters {
+  category?: string;
+  supplier?: string;
+  velocity?: string;
+  riskLevel?: string;
+  search?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export type Role = 'USER' | 'MANAGER' | 'ADMIN';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+}
+
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: string;
+}
@@ -1,10 +1,21 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mockApiServer } from './mock/mockServer';
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  optimizeDeps: {
-    exclude: ['lucide-react'],
-  },
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, '.', '');
+  const useMockApi = mode === 'development' && env.VITE_USE_MOCK_API === 'true';
+
+  return {
+    plugins: [react(), ...(useMockApi ? [mockApiServer()] : [])],
+    optimizeDeps: {
+      exclude: ['lucide-react'],
+    },
+    server: useMockApi ? {} : {
+      proxy: {
+        '/api': env.VITE_API_PROXY_TARGET || 'http://localhost:3000',
+      },
+    },
+  };
 });